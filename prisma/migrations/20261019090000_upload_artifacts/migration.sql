@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "HealthDataUpload" ADD COLUMN     "artifacts" JSONB,
+ADD COLUMN     "sourceFileId" TEXT;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "HealthDataUpload" ADD COLUMN     "recordsConflicting" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "recordsInserted" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "recordsSkipped" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "HealthRecord" ADD COLUMN     "fingerprint" TEXT,
+ADD COLUMN     "sourceName" TEXT;
+
+-- Backfill fingerprints the same way the importer computes them (sourceName was not stored before)
+UPDATE "HealthRecord" SET "fingerprint" = md5(
+  "type" || '|' ||
+  to_char("startDate", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') || '|' ||
+  to_char("endDate", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') || '|' ||
+  coalesce("sourceName", '')
+);
+
+-- Drop duplicates left by earlier re-imports, keeping the oldest copy
+DELETE FROM "HealthRecord" a
+USING "HealthRecord" b
+WHERE a."userId" = b."userId"
+  AND a."fingerprint" = b."fingerprint"
+  AND (a."createdAt", a."id") > (b."createdAt", b."id");
+
+UPDATE "HealthDataUpload" u SET "recordsInserted" = (
+  SELECT count(*) FROM "HealthRecord" r WHERE r."uploadId" = u."id"
+);
+
+ALTER TABLE "HealthRecord" ALTER COLUMN "fingerprint" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HealthRecord_userId_fingerprint_key" ON "HealthRecord"("userId", "fingerprint");
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" TEXT NOT NULL,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "fileId" TEXT NOT NULL,
+    "dateRange" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "progress" JSONB,
+    "checkpoint" JSONB,
+    "result" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+    "uploadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportJob_uploadId_key" ON "ImportJob"("uploadId");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_status_runAfter_idx" ON "ImportJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_userId_idx" ON "ImportJob"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ImportJob" ADD CONSTRAINT "ImportJob_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "HealthDataUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportJob" ADD CONSTRAINT "ImportJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateTable
+CREATE TABLE "Workout" (
+    "id" TEXT NOT NULL,
+    "activityType" TEXT NOT NULL,
+    "duration" DOUBLE PRECISION,
+    "durationUnit" TEXT,
+    "totalDistance" DOUBLE PRECISION,
+    "totalDistanceUnit" TEXT,
+    "totalEnergyBurned" DOUBLE PRECISION,
+    "totalEnergyBurnedUnit" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "sourceName" TEXT,
+    "sourceVersion" TEXT,
+    "device" TEXT,
+    "metadata" JSONB,
+    "routeFile" TEXT,
+    "fingerprint" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Workout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkoutStatistic" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "average" DOUBLE PRECISION,
+    "minimum" DOUBLE PRECISION,
+    "maximum" DOUBLE PRECISION,
+    "sum" DOUBLE PRECISION,
+    "unit" TEXT,
+    "workoutId" TEXT NOT NULL,
+
+    CONSTRAINT "WorkoutStatistic_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkoutEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "duration" DOUBLE PRECISION,
+    "durationUnit" TEXT,
+    "metadata" JSONB,
+    "workoutId" TEXT NOT NULL,
+
+    CONSTRAINT "WorkoutEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workout_userId_fingerprint_key" ON "Workout"("userId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "Workout_userId_activityType_startDate_idx" ON "Workout"("userId", "activityType", "startDate");
+
+-- CreateIndex
+CREATE INDEX "Workout_uploadId_idx" ON "Workout"("uploadId");
+
+-- CreateIndex
+CREATE INDEX "WorkoutStatistic_workoutId_idx" ON "WorkoutStatistic"("workoutId");
+
+-- CreateIndex
+CREATE INDEX "WorkoutEvent_workoutId_idx" ON "WorkoutEvent"("workoutId");
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "HealthDataUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Workout" ADD CONSTRAINT "Workout_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkoutStatistic" ADD CONSTRAINT "WorkoutStatistic_workoutId_fkey" FOREIGN KEY ("workoutId") REFERENCES "Workout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkoutEvent" ADD CONSTRAINT "WorkoutEvent_workoutId_fkey" FOREIGN KEY ("workoutId") REFERENCES "Workout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WorkoutRoute" (
+    "id" TEXT NOT NULL,
+    "points" JSONB NOT NULL,
+    "pointCount" INTEGER NOT NULL,
+    "distance" DOUBLE PRECISION NOT NULL,
+    "elevationGain" DOUBLE PRECISION NOT NULL,
+    "elevationLoss" DOUBLE PRECISION NOT NULL,
+    "splits" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "workoutId" TEXT NOT NULL,
+
+    CONSTRAINT "WorkoutRoute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkoutRoute_workoutId_key" ON "WorkoutRoute"("workoutId");
+
+-- AddForeignKey
+ALTER TABLE "WorkoutRoute" ADD CONSTRAINT "WorkoutRoute_workoutId_fkey" FOREIGN KEY ("workoutId") REFERENCES "Workout"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "HealthRecord" ADD COLUMN     "deviceHardware" TEXT,
+ADD COLUMN     "deviceModel" TEXT,
+ADD COLUMN     "deviceName" TEXT,
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "sourceVersion" TEXT;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "SourcePriority" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "sources" TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "SourcePriority_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SourcePriority_userId_type_key" ON "SourcePriority"("userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "SourcePriority" ADD CONSTRAINT "SourcePriority_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "HealthRecord" ADD COLUMN     "categoryValue" INTEGER,
+ADD COLUMN     "quantity" DOUBLE PRECISION;
+
+-- Backfill quantity types whose stored value is numeric
+UPDATE "HealthRecord"
+SET "quantity" = "value"::DOUBLE PRECISION
+WHERE "type" NOT LIKE 'HKCategoryTypeIdentifier%'
+  AND "value" ~ '^\s*-?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?\s*$';
+
+-- Backfill category types from their HKCategoryValue identifiers (see src/lib/health-values.ts)
+UPDATE "HealthRecord"
+SET "categoryValue" = CASE
+    WHEN "value" ~ '^-?[0-9]+$' THEN "value"::INTEGER
+    WHEN "value" IN (
+      'HKCategoryValueNotApplicable',
+      'HKCategoryValueSleepAnalysisInBed',
+      'HKCategoryValueAppleStandHourStood',
+      'HKCategoryValueSeverityUnspecified',
+      'HKCategoryValuePresencePresent'
+    ) THEN 0
+    WHEN "value" IN (
+      'HKCategoryValueSleepAnalysisAsleep',
+      'HKCategoryValueSleepAnalysisAsleepUnspecified',
+      'HKCategoryValueAppleStandHourIdle',
+      'HKCategoryValueSeverityNotPresent',
+      'HKCategoryValuePresenceNotPresent'
+    ) THEN 1
+    WHEN "value" IN (
+      'HKCategoryValueSleepAnalysisAwake',
+      'HKCategoryValueSeverityMild'
+    ) THEN 2
+    WHEN "value" IN (
+      'HKCategoryValueSleepAnalysisAsleepCore',
+      'HKCategoryValueSeverityModerate'
+    ) THEN 3
+    WHEN "value" IN (
+      'HKCategoryValueSleepAnalysisAsleepDeep',
+      'HKCategoryValueSeveritySevere'
+    ) THEN 4
+    WHEN "value" = 'HKCategoryValueSleepAnalysisAsleepREM' THEN 5
+  END,
+  "unit" = NULL
+WHERE "type" LIKE 'HKCategoryTypeIdentifier%';
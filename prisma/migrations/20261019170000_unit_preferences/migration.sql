@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "UnitSystem" AS ENUM ('METRIC', 'IMPERIAL');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "unitSystem" "UnitSystem" NOT NULL DEFAULT 'METRIC';
+
+-- Normalize stored quantities to the canonical units in src/lib/units.ts
+UPDATE "HealthRecord"
+SET "quantity" = "quantity" * CASE "unit"
+    WHEN 'm' THEN 0.001
+    WHEN 'mi' THEN 1.609344
+    WHEN 'ft' THEN 0.0003048
+    WHEN 'yd' THEN 0.0009144
+  END,
+  "unit" = 'km'
+WHERE "type" = 'HKQuantityTypeIdentifierDistanceWalkingRunning'
+  AND "unit" IN ('m', 'mi', 'ft', 'yd');
+
+UPDATE "HealthRecord"
+SET "quantity" = "quantity" * CASE "unit"
+    WHEN 'm' THEN 100
+    WHEN 'mm' THEN 0.1
+    WHEN 'in' THEN 2.54
+    WHEN 'ft' THEN 30.48
+  END,
+  "unit" = 'cm'
+WHERE "type" = 'HKQuantityTypeIdentifierHeight'
+  AND "unit" IN ('m', 'mm', 'in', 'ft');
+
+UPDATE "HealthRecord"
+SET "quantity" = "quantity" * CASE "unit"
+    WHEN 'g' THEN 0.001
+    WHEN 'lb' THEN 0.45359237
+    WHEN 'oz' THEN 0.028349523125
+    WHEN 'st' THEN 6.35029318
+  END,
+  "unit" = 'kg'
+WHERE "type" = 'HKQuantityTypeIdentifierBodyMass'
+  AND "unit" IN ('g', 'lb', 'oz', 'st');
+
+UPDATE "HealthRecord"
+SET "quantity" = "quantity" * CASE "unit"
+    WHEN 'Cal' THEN 1
+    WHEN 'cal' THEN 0.001
+    WHEN 'kJ' THEN 1 / 4.184
+    WHEN 'J' THEN 1 / 4184.0
+  END,
+  "unit" = 'kcal'
+WHERE "type" IN (
+    'HKQuantityTypeIdentifierActiveEnergyBurned',
+    'HKQuantityTypeIdentifierBasalEnergyBurned'
+  )
+  AND "unit" IN ('Cal', 'cal', 'kJ', 'J');
+
+UPDATE "HealthRecord"
+SET "quantity" = ("quantity" - 32) * 5 / 9,
+  "unit" = 'degC'
+WHERE "type" = 'HKQuantityTypeIdentifierBodyTemperature'
+  AND "unit" = 'degF';
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "HealthRecord_userId_type_idx";
+
+-- CreateIndex
+CREATE INDEX "HealthRecord_userId_type_startDate_idx" ON "HealthRecord"("userId", "type", "startDate");
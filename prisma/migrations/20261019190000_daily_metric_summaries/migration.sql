@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "DailyMetricSummary" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "sum" DOUBLE PRECISION,
+    "count" INTEGER NOT NULL,
+    "min" DOUBLE PRECISION,
+    "max" DOUBLE PRECISION,
+    "avg" DOUBLE PRECISION,
+    "p50" DOUBLE PRECISION,
+    "p90" DOUBLE PRECISION,
+    "unit" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "DailyMetricSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DailyMetricSummary_userId_date_idx" ON "DailyMetricSummary"("userId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DailyMetricSummary_userId_type_date_key" ON "DailyMetricSummary"("userId", "type", "date");
+
+-- AddForeignKey
+ALTER TABLE "DailyMetricSummary" ADD CONSTRAINT "DailyMetricSummary_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing records are rolled up by the app on startup, see rebuildOutdatedSummaries in
+-- src/server/daily-summaries.ts
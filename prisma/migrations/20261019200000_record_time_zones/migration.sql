@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "HealthRecord" ADD COLUMN     "timeZone" TEXT,
+ADD COLUMN     "utcOffset" INTEGER;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "homeTimeZone" TEXT;
+
+-- Original offsets weren't kept, but HKTimeZone metadata was
+UPDATE "HealthRecord"
+SET "timeZone" = "metadata"->>'HKTimeZone'
+WHERE "metadata"->>'HKTimeZone' IN (SELECT "name" FROM pg_timezone_names);
+
+-- Daily rollups are re-keyed by local day when the app starts, see rebuildOutdatedSummaries in
+-- src/server/daily-summaries.ts
@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE "HealthRecord" ADD COLUMN     "correlationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "HealthCorrelation" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "sourceName" TEXT,
+    "sourceVersion" TEXT,
+    "device" TEXT,
+    "metadata" JSONB,
+    "fingerprint" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "HealthCorrelation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HealthCorrelation_userId_fingerprint_key" ON "HealthCorrelation"("userId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "HealthCorrelation_userId_type_startDate_idx" ON "HealthCorrelation"("userId", "type", "startDate");
+
+-- CreateIndex
+CREATE INDEX "HealthCorrelation_uploadId_idx" ON "HealthCorrelation"("uploadId");
+
+-- CreateIndex
+CREATE INDEX "HealthRecord_correlationId_idx" ON "HealthRecord"("correlationId");
+
+-- AddForeignKey
+ALTER TABLE "HealthRecord" ADD CONSTRAINT "HealthRecord_correlationId_fkey" FOREIGN KEY ("correlationId") REFERENCES "HealthCorrelation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HealthCorrelation" ADD CONSTRAINT "HealthCorrelation_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "HealthDataUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HealthCorrelation" ADD CONSTRAINT "HealthCorrelation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Earlier imports dropped the correlations; pair the systolic and diastolic records a reading
+-- wrote with the same timestamps and source, fingerprinted the way the importer does
+INSERT INTO "HealthCorrelation"
+  ("id", "type", "startDate", "endDate", "sourceName", "sourceVersion", "fingerprint", "uploadId", "userId")
+SELECT gen_random_uuid()::text, 'HKCorrelationTypeIdentifierBloodPressure',
+  s."startDate", s."endDate", s."sourceName", s."sourceVersion",
+  md5(
+    'HKCorrelationTypeIdentifierBloodPressure|' ||
+    to_char(s."startDate", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') || '|' ||
+    to_char(s."endDate", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') || '|' ||
+    coalesce(s."sourceName", '')
+  ),
+  s."uploadId", s."userId"
+FROM "HealthRecord" s
+JOIN "HealthRecord" d
+  ON d."userId" = s."userId"
+  AND d."type" = 'HKQuantityTypeIdentifierBloodPressureDiastolic'
+  AND d."startDate" = s."startDate"
+  AND d."endDate" = s."endDate"
+  AND d."sourceName" IS NOT DISTINCT FROM s."sourceName"
+WHERE s."type" = 'HKQuantityTypeIdentifierBloodPressureSystolic'
+ON CONFLICT ("userId", "fingerprint") DO NOTHING;
+
+UPDATE "HealthRecord" r
+SET "correlationId" = c."id"
+FROM "HealthCorrelation" c
+WHERE r."userId" = c."userId"
+  AND r."type" IN ('HKQuantityTypeIdentifierBloodPressureSystolic', 'HKQuantityTypeIdentifierBloodPressureDiastolic')
+  AND r."startDate" = c."startDate"
+  AND r."endDate" = c."endDate"
+  AND r."sourceName" IS NOT DISTINCT FROM c."sourceName";
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "HealthDataUpload" ADD COLUMN     "importConfig" JSONB;
+
+-- Carry the date ranges chosen for earlier imports over to their uploads
+UPDATE "HealthDataUpload" u
+SET "importConfig" = jsonb_build_object(
+  'startDate', j."dateRange"->'startDate',
+  'endDate', j."dateRange"->'endDate',
+  'categories', '[]'::jsonb,
+  'types', '[]'::jsonb,
+  'sources', '[]'::jsonb,
+  'devices', '[]'::jsonb
+)
+FROM "ImportJob" j
+WHERE j."uploadId" = u."id"
+  AND j."dateRange" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ImportJob" DROP COLUMN "dateRange";
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Electrocardiogram" (
+    "id" TEXT NOT NULL,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "utcOffset" INTEGER,
+    "classification" TEXT NOT NULL,
+    "symptoms" TEXT[],
+    "sampleRate" DOUBLE PRECISION NOT NULL,
+    "lead" TEXT,
+    "unit" TEXT NOT NULL,
+    "voltages" DOUBLE PRECISION[],
+    "softwareVersion" TEXT,
+    "device" TEXT,
+    "filePath" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Electrocardiogram_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Electrocardiogram_userId_recordedAt_key" ON "Electrocardiogram"("userId", "recordedAt");
+
+-- CreateIndex
+CREATE INDEX "Electrocardiogram_uploadId_idx" ON "Electrocardiogram"("uploadId");
+
+-- AddForeignKey
+ALTER TABLE "Electrocardiogram" ADD CONSTRAINT "Electrocardiogram_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "HealthDataUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Electrocardiogram" ADD CONSTRAINT "Electrocardiogram_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "ClinicalRecordKind" AS ENUM ('OBSERVATION', 'CONDITION', 'MEDICATION', 'IMMUNIZATION', 'ALLERGY');
+
+-- CreateEnum
+CREATE TYPE "ClinicalRecordFormat" AS ENUM ('FHIR', 'CDA');
+
+-- CreateTable
+CREATE TABLE "ClinicalRecord" (
+    "id" TEXT NOT NULL,
+    "kind" "ClinicalRecordKind" NOT NULL,
+    "format" "ClinicalRecordFormat" NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "codeSystem" TEXT,
+    "status" TEXT,
+    "date" TIMESTAMP(3),
+    "details" JSONB,
+    "resource" JSONB NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploadId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "ClinicalRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LabResult" (
+    "id" TEXT NOT NULL,
+    "loincCode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT,
+    "referenceLow" DOUBLE PRECISION,
+    "referenceHigh" DOUBLE PRECISION,
+    "interpretation" TEXT,
+    "effectiveAt" TIMESTAMP(3) NOT NULL,
+    "clinicalRecordId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "LabResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClinicalRecord_userId_fingerprint_key" ON "ClinicalRecord"("userId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "ClinicalRecord_userId_kind_date_idx" ON "ClinicalRecord"("userId", "kind", "date");
+
+-- CreateIndex
+CREATE INDEX "ClinicalRecord_uploadId_idx" ON "ClinicalRecord"("uploadId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LabResult_clinicalRecordId_key" ON "LabResult"("clinicalRecordId");
+
+-- CreateIndex
+CREATE INDEX "LabResult_userId_loincCode_effectiveAt_idx" ON "LabResult"("userId", "loincCode", "effectiveAt");
+
+-- AddForeignKey
+ALTER TABLE "ClinicalRecord" ADD CONSTRAINT "ClinicalRecord_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "HealthDataUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClinicalRecord" ADD CONSTRAINT "ClinicalRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LabResult" ADD CONSTRAINT "LabResult_clinicalRecordId_fkey" FOREIGN KEY ("clinicalRecordId") REFERENCES "ClinicalRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LabResult" ADD CONSTRAINT "LabResult_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ChatToolCall" (
+    "id" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "toolName" TEXT NOT NULL,
+    "args" JSONB NOT NULL,
+    "result" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "messageId" TEXT NOT NULL,
+
+    CONSTRAINT "ChatToolCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatToolCall_messageId_idx" ON "ChatToolCall"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "ChatToolCall" ADD CONSTRAINT "ChatToolCall_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
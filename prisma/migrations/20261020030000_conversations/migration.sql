@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "Conversation" (
+    "id" TEXT NOT NULL,
+    "title" TEXT,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Conversation_pkey" PRIMARY KEY ("id")
+);
+
+-- Move each user's existing messages into one conversation
+INSERT INTO "Conversation" ("id", "title", "lastMessageAt", "createdAt", "userId")
+SELECT gen_random_uuid()::text, 'Earlier messages', MAX("createdAt"), MIN("createdAt"), "userId"
+FROM "ChatMessage"
+GROUP BY "userId";
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "conversationId" TEXT;
+
+UPDATE "ChatMessage" m
+SET "conversationId" = c."id"
+FROM "Conversation" c
+WHERE c."userId" = m."userId";
+
+ALTER TABLE "ChatMessage" ALTER COLUMN "conversationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Conversation_userId_lastMessageAt_idx" ON "Conversation"("userId", "lastMessageAt");
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_conversationId_createdAt_idx" ON "ChatMessage"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Normalize stored blood glucose to mg/dL, the canonical unit in src/lib/units.ts
+UPDATE "HealthRecord"
+SET "quantity" = CASE
+    WHEN "quantity" * 18.0156 BETWEEN 10 AND 1000 THEN "quantity" * 18.0156
+  END,
+  "unit" = 'mg/dL'
+WHERE "type" = 'HKQuantityTypeIdentifierBloodGlucose'
+  AND "unit" IN ('mmol<180.1558800000541>/L', 'mmol/L');
+
+-- Blood glucose is discrete, so a day's statistics scale with its readings
+UPDATE "DailyMetricSummary"
+SET "sum" = "sum" * 18.0156,
+  "min" = "min" * 18.0156,
+  "max" = "max" * 18.0156,
+  "avg" = "avg" * 18.0156,
+  "p50" = "p50" * 18.0156,
+  "p90" = "p90" * 18.0156,
+  "unit" = 'mg/dL'
+WHERE "type" = 'HKQuantityTypeIdentifierBloodGlucose'
+  AND "unit" IN ('mmol<180.1558800000541>/L', 'mmol/L');
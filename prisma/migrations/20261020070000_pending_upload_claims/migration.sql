@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "ClinicalRecord" ADD COLUMN     "pendingUploadId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Electrocardiogram" ADD COLUMN     "pendingUploadId" TEXT;
+
+-- AlterTable
+ALTER TABLE "HealthCorrelation" ADD COLUMN     "pendingUploadId" TEXT;
+
+-- AlterTable
+ALTER TABLE "HealthRecord" ADD COLUMN     "pendingUploadId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Workout" ADD COLUMN     "pendingUploadId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ClinicalRecord_pendingUploadId_idx" ON "ClinicalRecord"("pendingUploadId");
+
+-- CreateIndex
+CREATE INDEX "Electrocardiogram_pendingUploadId_idx" ON "Electrocardiogram"("pendingUploadId");
+
+-- CreateIndex
+CREATE INDEX "HealthCorrelation_pendingUploadId_idx" ON "HealthCorrelation"("pendingUploadId");
+
+-- CreateIndex
+CREATE INDEX "HealthRecord_pendingUploadId_idx" ON "HealthRecord"("pendingUploadId");
+
+-- CreateIndex
+CREATE INDEX "Workout_pendingUploadId_idx" ON "Workout"("pendingUploadId");
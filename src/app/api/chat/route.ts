@@ -0,0 +1,230 @@
+import { currentUser } from "@clerk/nextjs/server";
+import type { Prisma } from "@prisma/client";
+import { streamText, type LanguageModelV1 } from "ai";
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import {
+  ASSISTANT_HISTORY_MESSAGES,
+  ASSISTANT_MAX_STEPS,
+  assistantSystemPrompt,
+  chartFromToolCall,
+  createHealthTools,
+  generateConversationTitle,
+} from "~/server/health-assistant";
+import { getLanguageModel, llmSettings } from "~/server/llm-providers";
+import type { ChatStreamEvent } from "~/types/health";
+
+export const runtime = "nodejs";
+
+const chatRequestSchema = z.object({
+  // Omitted to start a new conversation
+  conversationId: z.string().optional(),
+  content: z.string().min(1),
+  healthSummary: z
+    .object({
+      totalRecords: z.number(),
+      dateRange: z.object({
+        start: z.coerce.date(),
+        end: z.coerce.date(),
+      }),
+    })
+    .optional(),
+});
+
+// Stream an assistant reply as newline-delimited JSON. Closing the request stops the model; what
+// was written so far is still saved, marked as truncated.
+export async function POST(request: NextRequest) {
+  // Check authentication
+  const user = await currentUser();
+  if (!user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const input = chatRequestSchema.safeParse(await request.json());
+  if (!input.success) {
+    return NextResponse.json({ error: "Invalid message" }, { status: 400 });
+  }
+
+  // A missing base URL or API key is reported before anything is saved
+  let model: LanguageModelV1;
+  try {
+    model = getLanguageModel();
+  } catch (error) {
+    console.error("Chat model error:", error);
+    return NextResponse.json(
+      { error: "The chat model is not configured" },
+      { status: 500 },
+    );
+  }
+
+  // Continue one of this user's conversations, or start a new one
+  const conversation = input.data.conversationId
+    ? await db.conversation.findFirst({
+        where: { id: input.data.conversationId, userId: user.id },
+      })
+    : await db.conversation.create({ data: { userId: user.id } });
+  if (!conversation) {
+    return NextResponse.json(
+      { error: "Conversation not found" },
+      { status: 404 },
+    );
+  }
+
+  // Earlier turns of this conversation, oldest first
+  const history = await db.chatMessage.findMany({
+    where: { conversationId: conversation.id, content: { not: "" } },
+    orderBy: { createdAt: "desc" },
+    take: ASSISTANT_HISTORY_MESSAGES,
+    select: { role: true, content: true },
+  });
+
+  const saveMessage = async (
+    data: Omit<
+      Prisma.ChatMessageUncheckedCreateInput,
+      "userId" | "conversationId"
+    >,
+  ) => {
+    const message = await db.chatMessage.create({
+      data: { ...data, userId: user.id, conversationId: conversation.id },
+    });
+    await db.conversation.update({
+      where: { id: conversation.id },
+      data: { lastMessageAt: message.createdAt },
+    });
+    return message;
+  };
+
+  // Save user message
+  await saveMessage({ content: input.data.content, role: "USER" });
+
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort());
+
+  // Generate AI response, calling tools until the model writes an answer
+  const result = streamText({
+    model,
+    system: assistantSystemPrompt(input.data.healthSummary),
+    messages: [
+      ...history.reverse().map((message) => ({
+        role:
+          message.role === "USER" ? ("user" as const) : ("assistant" as const),
+        content: message.content,
+      })),
+      { role: "user" as const, content: input.data.content },
+    ],
+    tools: createHealthTools({ db, user, headers: request.headers }),
+    maxSteps: ASSISTANT_MAX_STEPS,
+    temperature: llmSettings.temperature,
+    // A reply that reaches the limit is saved as truncated
+    maxTokens: llmSettings.maxTokens,
+    abortSignal: abort.signal,
+  });
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!abort.signal.aborted) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+
+      let content = "";
+      let truncated = false;
+      let failed = false;
+      let step = 0;
+      const toolCalls = new Map<
+        string,
+        Prisma.ChatToolCallCreateWithoutMessageInput
+      >();
+
+      send({ type: "conversation", conversationId: conversation.id });
+
+      try {
+        for await (const part of result.fullStream) {
+          switch (part.type) {
+            case "text-delta":
+              content += part.textDelta;
+              send({ type: "text", delta: part.textDelta });
+              break;
+            case "tool-call":
+              toolCalls.set(part.toolCallId, {
+                step,
+                toolName: part.toolName,
+                args: part.args,
+                result: {},
+              });
+              send({ type: "tool", toolName: part.toolName });
+              break;
+            case "tool-result": {
+              const call = toolCalls.get(part.toolCallId);
+              if (call) call.result = part.result;
+
+              const chart = chartFromToolCall(part);
+              if (chart) send({ type: "chart", chart });
+              break;
+            }
+            case "step-finish":
+              step += 1;
+              if (part.finishReason === "length") truncated = true;
+              break;
+            case "error":
+              throw part.error;
+          }
+        }
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error("Chat error:", error);
+          failed = true;
+        }
+      }
+
+      // Stopped by the user or cut off by an error: keep the partial reply
+      if (abort.signal.aborted || (failed && content)) truncated = true;
+
+      if (failed && !content) {
+        send({
+          type: "error",
+          error: "Failed to process message. Please try again.",
+        });
+      } else if (content || toolCalls.size > 0) {
+        const message = await saveMessage({
+          content,
+          role: "ASSISTANT",
+          truncated,
+          toolCalls: { create: [...toolCalls.values()] },
+        });
+
+        send({ type: "done", messageId: message.id, truncated });
+
+        // Name the conversation after its first exchange
+        if (!conversation.title) {
+          const title = await generateConversationTitle(
+            input.data.content,
+            content,
+          );
+          await db.conversation.update({
+            where: { id: conversation.id },
+            data: { title },
+          });
+          send({ type: "title", title });
+        }
+      }
+
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import { currentUser } from "@clerk/nextjs/server";
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { appendUploadChunk, getUploadSession } from "~/server/uploads";
+
+export const runtime = "nodejs";
+export const maxDuration = 300; // 5 minutes per part
+
+interface RouteContext {
+  params: Promise<{ fileId: string }>;
+}
+
+// Report how far an upload got so the client can resume from the last acknowledged offset
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const user = await currentUser();
+  if (!user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { fileId } = await params;
+  const session = await getUploadSession(fileId, user.id);
+  if (!session) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    fileId: session.fileId,
+    fileName: session.fileName,
+    size: session.fileSize,
+    chunkSize: session.chunkSize,
+    offset: session.acknowledgedOffset,
+    complete: session.complete,
+  });
+}
+
+// Append part `?part=N` (raw bytes in the request body) to the upload
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = await currentUser();
+  if (!user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { fileId } = await params;
+  const session = await getUploadSession(fileId, user.id);
+  if (!session) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+  }
+
+  const part = Number(request.nextUrl.searchParams.get("part"));
+  if (!Number.isInteger(part) || part < 0 || !request.body) {
+    return NextResponse.json({ error: "Invalid upload part" }, { status: 400 });
+  }
+
+  try {
+    const result = await appendUploadChunk(session, part, request.body);
+
+    if (result.status === "conflict") {
+      return NextResponse.json(
+        { error: "Unexpected part", offset: result.offset },
+        { status: 409 },
+      );
+    }
+
+    if (result.status === "too-large") {
+      return NextResponse.json(
+        { error: "Part exceeds chunk size", offset: result.offset },
+        { status: 413 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      offset: result.offset,
+      complete: result.complete,
+    });
+  } catch (error) {
+    console.error("Upload part error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to store upload part",
+        offset: session.acknowledgedOffset,
+      },
+      { status: 500 },
+    );
+  }
+}
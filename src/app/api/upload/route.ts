@@ -1,15 +1,15 @@
 import { currentUser } from "@clerk/nextjs/server";
-import { existsSync } from "fs";
-import { mkdir, writeFile } from "fs/promises";
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import path from "path";
-import { v4 as uuidv4 } from "uuid";
+import {
+  createUploadSession,
+  getUploadKind,
+  MAX_UPLOAD_SIZE,
+} from "~/server/uploads";
 
-// Increase the maximum file size for uploads
 export const runtime = "nodejs";
-export const maxDuration = 300; // 5 minutes
 
+// Start a chunked upload. The file itself is sent in parts to /api/upload/[fileId].
 export async function POST(request: NextRequest) {
   // Check authentication
   const user = await currentUser();
@@ -17,56 +17,50 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
   try {
-    const formData = await request.formData();
-    const file = formData.get("file") as File;
+    const { fileName, fileSize } = (await request.json()) as {
+      fileName?: string;
+      fileSize?: number;
+    };
 
-    if (!file) {
+    if (!fileName || typeof fileSize !== "number" || fileSize <= 0) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith(".xml")) {
+    const kind = getUploadKind(fileName);
+    if (!kind) {
       return NextResponse.json(
-        { error: "Only XML files are supported" },
+        { error: "Only export.xml or export.zip files are supported" },
         { status: 400 },
       );
     }
 
-    // Check file size (warn if > 100MB)
-    const maxSize = 5 * 1024 * 1024 * 1024; // 5GB limit
-    if (file.size > maxSize) {
+    if (fileSize > MAX_UPLOAD_SIZE) {
       return NextResponse.json(
         { error: "File too large. Maximum size is 5GB." },
         { status: 413 },
       );
     }
 
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = path.join(process.cwd(), "uploads");
-    if (!existsSync(uploadsDir)) {
-      await mkdir(uploadsDir, { recursive: true });
-    }
-
-    // Generate unique filename
-    const fileId = uuidv4();
-    const fileName = `${fileId}.xml`;
-    const filePath = path.join(uploadsDir, fileName);
-
-    // Write file to disk
-    const bytes = await file.arrayBuffer();
-    await writeFile(filePath, Buffer.from(bytes));
+    const session = await createUploadSession({
+      userId: user.id,
+      kind,
+      fileName,
+      fileSize,
+    });
 
     return NextResponse.json({
       success: true,
-      fileId,
-      fileName: file.name,
-      size: file.size,
-      message: "File uploaded successfully",
+      fileId: session.fileId,
+      fileName: session.fileName,
+      size: session.fileSize,
+      chunkSize: session.chunkSize,
+      offset: session.acknowledgedOffset,
     });
   } catch (error) {
     console.error("Upload error:", error);
     return NextResponse.json(
-      { error: "Failed to upload file" },
+      { error: "Failed to start upload" },
       { status: 500 },
     );
   }
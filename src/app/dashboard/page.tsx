@@ -3,39 +3,57 @@
 import { useUser } from "@clerk/nextjs";
 import {
   Activity,
+  Dumbbell,
+  FileHeart,
   Heart,
+  HeartPulse,
   MessageSquare,
   TrendingUp,
   Upload,
 } from "lucide-react";
+import { endOfDay, format, parseISO } from "date-fns";
 import { useEffect, useState } from "react";
 import { HealthChatbot } from "~/components/health-chatbot";
 import { HealthDataUpload } from "~/components/health-data-upload";
-import { HealthDataVisualization } from "~/components/health-data-visualization";
+import { HealthClinicalRecords } from "~/components/health-clinical-records";
+import {
+  HealthDataVisualization,
+  type TimeFrame,
+} from "~/components/health-data-visualization";
+import { HealthElectrocardiograms } from "~/components/health-electrocardiograms";
+import { HealthWorkouts } from "~/components/health-workouts";
+import { SourcePrioritySettings } from "~/components/source-priority-settings";
+import { getHealthType } from "~/lib/health-types";
+import { describeImportConfig } from "~/lib/import-config";
 import { api } from "~/trpc/react";
-import type { ParsedHealthData } from "~/types/health";
-import { METRIC_DISPLAY_NAMES } from "~/types/health";
+import type { ChartSpec, ImportConfig, ImportSummary } from "~/types/health";
+import { METRIC_CATEGORIES } from "~/types/health";
+
+const BUCKET_TIME_FRAMES: Record<ChartSpec["bucket"], TimeFrame> = {
+  day: "daily",
+  week: "weekly",
+  month: "monthly",
+};
 
 export default function DashboardPage() {
   const { user, isLoaded } = useUser();
-  const [activeTab, setActiveTab] = useState<"upload" | "visualize" | "chat">(
-    "upload",
-  );
+  const [activeTab, setActiveTab] = useState<
+    "upload" | "visualize" | "workouts" | "ecg" | "records" | "chat"
+  >("upload");
   const [selectedMetrics, setSelectedMetrics] = useState<string[]>([]);
+  // Range of a chart opened from the assistant; null shows the full history
+  const [chartView, setChartView] = useState<{
+    startDate: Date;
+    endDate: Date;
+    timeFrame: TimeFrame;
+  } | null>(null);
 
   // API queries
-  const { data: healthRecords, refetch: refetchRecords } =
-    api.health.getHealthRecords.useQuery(
-      { limit: 5000 },
-      { 
-        enabled: !!user?.id,
-      },
-    );
-
-  const { data: healthSummary } = api.health.getHealthSummary.useQuery(
-    undefined,
-    { enabled: !!user?.id },
-  );
+  const utils = api.useUtils();
+  const { data: healthSummary, refetch: refetchSummary } =
+    api.health.getHealthSummary.useQuery(undefined, {
+      enabled: !!user?.id,
+    });
 
   // Query to fetch available data types - this controls what's shown in visualization tab
   const { data: availableDataTypes, refetch: refetchAvailableDataTypes } =
@@ -44,66 +62,82 @@ export default function DashboardPage() {
       { enabled: !!user?.id }
     );
 
-  const { data: uploads } = api.health.getUploads.useQuery(undefined, {
-    enabled: !!user?.id,
+  // Metric or imperial; records come back from the server already converted
+  const { data: unitSystem, refetch: refetchUnitSystem } =
+    api.health.getUnitSystem.useQuery(undefined, {
+      enabled: !!user?.id,
+    });
+
+  const setUnitSystem = api.health.setUnitSystem.useMutation({
+    onSuccess: () =>
+      Promise.all([
+        refetchUnitSystem(),
+        utils.health.getAggregates.invalidate(),
+        utils.health.getMetricSummaries.invalidate(),
+      ]),
   });
 
-  // Mutations
-  const uploadMutation = api.health.uploadHealthData.useMutation({
-    onSuccess: async () => {
-      console.log("Upload successful, refetching data...");
-      
-      try {
-        // Refetch both records and data types to update the UI
-        const [recordsResult, typesResult] = await Promise.all([
-          refetchRecords(),
-          refetchAvailableDataTypes(), 
-        ]);
-        
-        console.log(`Refetched ${recordsResult.data?.length ?? 0} records`);
-        console.log(`Refetched ${typesResult.data?.length ?? 0} data types`);
-        
-        // Switch to visualize tab after confirming data is loaded
-        if (recordsResult.data?.length && typesResult.data?.length) {
-          setActiveTab("visualize");
-        } else {
-          console.warn("No data available after refetch, delaying tab switch");
-          // Try one more time after a delay
-          setTimeout(() => {
-            void Promise.all([
-              refetchRecords(),
-              refetchAvailableDataTypes(), 
-            ]).then(([recordsRetry, typesRetry]) => {
-              if (recordsRetry.data?.length && typesRetry.data?.length) {
-                setActiveTab("visualize");
-              }
-            });
-          }, 1000);
-        }
-      } catch (error) {
-        console.error("Error refetching data:", error);
-      }
-    },
+  // Zone for day boundaries; null buckets each sample by where it was recorded
+  const { data: homeTimeZone, refetch: refetchHomeTimeZone } =
+    api.health.getHomeTimeZone.useQuery(undefined, {
+      enabled: !!user?.id,
+    });
+
+  const setHomeTimeZone = api.health.setHomeTimeZone.useMutation({
+    onSuccess: () =>
+      Promise.all([
+        refetchHomeTimeZone(),
+        refetchSummary(),
+        utils.health.getAggregates.invalidate(),
+        utils.health.getMetricSummaries.invalidate(),
+        utils.health.getDataTypeCounts.invalidate(),
+      ]),
   });
 
-  const handleDataParsed = async (
-    data: ParsedHealthData[],
+  const { data: uploads, refetch: refetchUploads } =
+    api.health.getUploads.useQuery(undefined, {
+      enabled: !!user?.id,
+    });
+
+  // The server has already written the records; refresh everything derived from them
+  const handleImportComplete = async (
+    summary: ImportSummary,
     fileName: string,
   ) => {
-    if (user?.id) {
-      try {
-        // This will trigger the onSuccess callback above
-        await uploadMutation.mutateAsync({
-          fileName,
-          fileSize: data.length,
-          healthRecords: data,
-        });
-      } catch (error) {
-        console.error("Upload failed:", error);
+    console.log(
+      `Imported ${summary.recordsInserted} records from ${fileName}, refetching data...`,
+    );
+
+    try {
+      const [typesResult] = await Promise.all([
+        refetchAvailableDataTypes(),
+        refetchUploads(),
+        refetchSummary(),
+        utils.health.getSourcePriorities.invalidate(),
+        utils.health.getAggregates.invalidate(),
+        utils.health.getMetricSummaries.invalidate(),
+        utils.health.getDataTypeCounts.invalidate(),
+      ]);
+
+      if (typesResult.data?.length) {
+        setActiveTab("visualize");
       }
+    } catch (error) {
+      console.error("Error refetching data:", error);
     }
   };
 
+  // Show a chart the assistant attached in the Visualize tab
+  const handleOpenChart = (chart: ChartSpec) => {
+    setSelectedMetrics(chart.metrics);
+    setChartView({
+      startDate: parseISO(chart.startDate),
+      endDate: endOfDay(parseISO(chart.endDate)),
+      timeFrame: BUCKET_TIME_FRAMES[chart.bucket],
+    });
+    setActiveTab("visualize");
+  };
+
   const handleUploadError = (error: string) => {
     console.error("Upload error:", error);
     // You might want to show a toast notification here
@@ -113,12 +147,9 @@ export default function DashboardPage() {
   useEffect(() => {
     if (user?.id) {
       console.log("Dashboard mounted, ensuring data is up to date");
-      void Promise.all([
-        refetchRecords(),
-        refetchAvailableDataTypes()
-      ]);
+      void refetchAvailableDataTypes();
     }
-  }, [user?.id, refetchRecords, refetchAvailableDataTypes]);
+  }, [user?.id, refetchAvailableDataTypes]);
 
   // Auto-select some common metrics when data is loaded
   useEffect(() => {
@@ -161,6 +192,9 @@ export default function DashboardPage() {
   const tabs = [
     { id: "upload" as const, name: "Upload Data", icon: Upload },
     { id: "visualize" as const, name: "Visualize", icon: TrendingUp },
+    { id: "workouts" as const, name: "Workouts", icon: Dumbbell },
+    { id: "ecg" as const, name: "ECG", icon: HeartPulse },
+    { id: "records" as const, name: "Health Records", icon: FileHeart },
     { id: "chat" as const, name: "Health Assistant", icon: MessageSquare },
   ];
 
@@ -275,9 +309,15 @@ export default function DashboardPage() {
               </div>
 
               <HealthDataUpload
-                onDataParsed={handleDataParsed}
+                onImportComplete={handleImportComplete}
                 onError={handleUploadError}
-                isUploading={uploadMutation.isPending}
+                activeJobId={
+                  uploads?.find(
+                    (upload) =>
+                      upload.importJob?.status === "QUEUED" ||
+                      upload.importJob?.status === "RUNNING",
+                  )?.importJob?.id
+                }
               />
 
               {/* Recent Uploads */}
@@ -299,6 +339,22 @@ export default function DashboardPage() {
                                 {upload.uploadedAt.toLocaleDateString()}{" "}
                                 {upload.uploadedAt.toLocaleTimeString()}
                               </p>
+                              {upload.status === "COMPLETED" && (
+                                <p className="text-sm text-gray-500">
+                                  {upload.recordsInserted.toLocaleString()} new,{" "}
+                                  {upload.recordsSkipped.toLocaleString()}{" "}
+                                  skipped
+                                  {upload.recordsConflicting > 0 &&
+                                    `, ${upload.recordsConflicting.toLocaleString()} conflicting`}
+                                </p>
+                              )}
+                              {describeImportConfig(
+                                upload.importConfig as ImportConfig | null,
+                              ).map((line) => (
+                                <p key={line} className="text-xs text-gray-400">
+                                  {line}
+                                </p>
+                              ))}
                             </div>
                             <div className="flex items-center">
                               <span
@@ -326,18 +382,58 @@ export default function DashboardPage() {
 
         {activeTab === "visualize" && (
           <div className="py-6">
-            {availableDataTypes && availableDataTypes.length > 0 && healthRecords && healthRecords.length > 0 ? (
+            {availableDataTypes && availableDataTypes.length > 0 ? (
               <div className="space-y-6">
-                <div>
-                  <h2 className="text-lg font-semibold text-gray-900">
-                    Health Data Visualization
-                  </h2>
-                  <p className="mt-1 text-sm text-gray-600">
-                    Select health metrics to visualize your data patterns.
-                  </p>
-                  <p className="mt-1 text-xs text-blue-600">
-                    {availableDataTypes.length} data types available
-                  </p>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      Health Data Visualization
+                    </h2>
+                    <p className="mt-1 text-sm text-gray-600">
+                      Select health metrics to visualize your data patterns.
+                    </p>
+                    <p className="mt-1 text-xs text-blue-600">
+                      {availableDataTypes.length} data types available
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Units
+                      <select
+                        className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        value={unitSystem ?? "METRIC"}
+                        disabled={setUnitSystem.isPending}
+                        onChange={(e) =>
+                          setUnitSystem.mutate({
+                            unitSystem: e.target.value as "METRIC" | "IMPERIAL",
+                          })
+                        }
+                      >
+                        <option value="METRIC">Metric (kg, km, °C)</option>
+                        <option value="IMPERIAL">Imperial (lb, mi, °F)</option>
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Days
+                      <select
+                        className="max-w-48 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        value={homeTimeZone ?? ""}
+                        disabled={setHomeTimeZone.isPending}
+                        onChange={(e) =>
+                          setHomeTimeZone.mutate({
+                            timeZone: e.target.value || null,
+                          })
+                        }
+                      >
+                        <option value="">Where each sample was recorded</option>
+                        {Intl.supportedValuesOf("timeZone").map((zone) => (
+                          <option key={zone} value={zone}>
+                            {zone.replace(/_/g, " ")}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
                 </div>
 
                 {/* Data Type Selection */}
@@ -349,7 +445,7 @@ export default function DashboardPage() {
                     {/* Categorized selection UI */}
                     {Object.entries(
                       availableDataTypes.reduce((acc, dt) => {
-                        const category = METRIC_DISPLAY_NAMES[dt.type]?.category ?? 'Other';
+                        const category = getHealthType(dt.type).category;
                         acc[category] = acc[category] ?? [];
                         acc[category].push(dt);
                         return acc;
@@ -381,8 +477,7 @@ export default function DashboardPage() {
                                 }}
                               />
                               <span className="text-sm text-gray-700">
-                                {METRIC_DISPLAY_NAMES[dataType.type]?.name ??
-                                  dataType.type}{" "}
+                                {getHealthType(dataType.type).name}{" "}
                                 ({dataType.count} records)
                               </span>
                             </label>
@@ -400,7 +495,7 @@ export default function DashboardPage() {
                       onClick={() => {
                         // Select activity metrics
                         const activityMetrics = availableDataTypes
-                          .filter(dt => METRIC_DISPLAY_NAMES[dt.type]?.category === 'Activity')
+                          .filter(dt => getHealthType(dt.type).category === METRIC_CATEGORIES.ACTIVITY)
                           .map(dt => dt.type);
                         setSelectedMetrics(activityMetrics);
                       }}
@@ -430,7 +525,7 @@ export default function DashboardPage() {
                       onClick={() => {
                         // Select body metrics
                         const bodyMetrics = availableDataTypes
-                          .filter(dt => METRIC_DISPLAY_NAMES[dt.type]?.category === 'Body Measurements')
+                          .filter(dt => getHealthType(dt.type).category === METRIC_CATEGORIES.BODY)
                           .map(dt => dt.type);
                         setSelectedMetrics(bodyMetrics);
                       }}
@@ -450,21 +545,38 @@ export default function DashboardPage() {
                 </div>
 
                 {/* Visualization */}
-                {selectedMetrics.length > 0 && healthRecords && (
+                {selectedMetrics.length > 0 && (
                   <>
                     <p className="text-xs text-blue-600 mb-4">
-                      Showing {healthRecords.length} health records for {selectedMetrics.length} selected metrics
+                      Showing {availableDataTypes
+                        .filter(({ type }) => selectedMetrics.includes(type))
+                        .reduce((total, { count }) => total + count, 0)} health records for {selectedMetrics.length} selected metrics
                     </p>
+                    {chartView && (
+                      <div className="mb-4 flex items-center gap-2 text-xs text-gray-700">
+                        <span>
+                          Trends from {format(chartView.startDate, "MMM d, yyyy")} to{" "}
+                          {format(chartView.endDate, "MMM d, yyyy")}
+                        </span>
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:underline"
+                          onClick={() => setChartView(null)}
+                        >
+                          Show all history
+                        </button>
+                      </div>
+                    )}
                     <HealthDataVisualization
-                      healthRecords={healthRecords.map(record => ({
-                        type: record.type,
-                        value: record.value,
-                        unit: record.unit ?? undefined,
-                        startDate: record.startDate.toISOString(),
-                        endDate: record.endDate.toISOString(),
-                      }))}
+                      // Remount so an opened chart also sets the time frame
+                      key={chartView ? `${chartView.startDate.getTime()}-${chartView.endDate.getTime()}-${chartView.timeFrame}` : "all"}
                       selectedMetrics={selectedMetrics}
+                      dateRange={chartView ? { startDate: chartView.startDate, endDate: chartView.endDate } : undefined}
+                      initialTimeFrame={chartView?.timeFrame}
                     />
+                    <div className="mt-6">
+                      <SourcePrioritySettings />
+                    </div>
                   </>
                 )}
               </div>
@@ -494,6 +606,31 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {activeTab === "workouts" && (
+          <div className="space-y-6 py-6">
+            <h2 className="text-lg font-semibold text-gray-900">Workouts</h2>
+            <HealthWorkouts />
+          </div>
+        )}
+
+        {activeTab === "ecg" && (
+          <div className="space-y-6 py-6">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Electrocardiograms
+            </h2>
+            <HealthElectrocardiograms />
+          </div>
+        )}
+
+        {activeTab === "records" && (
+          <div className="space-y-6 py-6">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Health Records
+            </h2>
+            <HealthClinicalRecords />
+          </div>
+        )}
+
         {activeTab === "chat" && user?.id && (
           <div className="space-y-6 py-6">
             <h2 className="text-lg font-semibold text-gray-900">
@@ -502,6 +639,7 @@ export default function DashboardPage() {
             <HealthChatbot
               userId={user.id}
               healthSummary={healthSummary ?? undefined}
+              onOpenChart={handleOpenChart}
             />
           </div>
         )}
@@ -0,0 +1,170 @@
+"use client";
+
+import { format } from "date-fns";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  BLOOD_PRESSURE_CATEGORIES,
+  classifyBloodPressure,
+  type BloodPressureAverage,
+} from "~/lib/blood-pressure";
+import type { RouterOutputs } from "~/trpc/react";
+
+interface BloodPressureAnalysisProps {
+  data: RouterOutputs["health"]["getBloodPressure"];
+}
+
+const categoryOf = (systolic: number, diastolic: number) =>
+  BLOOD_PRESSURE_CATEGORIES.find(
+    (band) => band.category === classifyBloodPressure(systolic, diastolic),
+  )!;
+
+// Background bands follow the systolic thresholds; the upper bound of each is the next band's start
+const SYSTOLIC_BANDS = BLOOD_PRESSURE_CATEGORIES.filter(
+  (band) => band.category !== "normal",
+).map((band, i, bands) => ({
+  ...band,
+  to: bands[i + 1]?.minSystolic,
+}));
+
+// Color each reading by its own category
+const categoryDot = ({
+  cx,
+  cy,
+  index,
+  payload,
+}: {
+  cx?: number;
+  cy?: number;
+  index?: number;
+  payload?: { color: string };
+}) => <circle key={index} cx={cx} cy={cy} r={3} fill={payload?.color} />;
+
+function AverageCard({
+  title,
+  average,
+}: {
+  title: string;
+  average: BloodPressureAverage | null;
+}) {
+  if (!average) {
+    return (
+      <div className="rounded-md bg-gray-50 p-4">
+        <p className="text-sm font-medium text-gray-500">{title}</p>
+        <p className="mt-1 text-sm text-gray-400">No readings</p>
+      </div>
+    );
+  }
+
+  const category = categoryOf(average.systolic, average.diastolic);
+
+  return (
+    <div className="rounded-md bg-gray-50 p-4">
+      <p className="text-sm font-medium text-gray-500">{title}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">
+        {Math.round(average.systolic)}/{Math.round(average.diastolic)}
+        <span className="ml-1 text-sm font-normal text-gray-500">mmHg</span>
+      </p>
+      <p className="text-xs" style={{ color: category.color }}>
+        {category.label} · {average.count} readings
+      </p>
+    </div>
+  );
+}
+
+export function BloodPressureAnalysis({ data }: BloodPressureAnalysisProps) {
+  const chartData = data.readings.map((reading) => ({
+    time: reading.date.getTime(),
+    systolic: reading.systolic,
+    diastolic: reading.diastolic,
+    color: categoryOf(reading.systolic, reading.diastolic).color,
+  }));
+
+  const counts = BLOOD_PRESSURE_CATEGORIES.map((band) => ({
+    ...band,
+    count: data.readings.filter(
+      (r) => classifyBloodPressure(r.systolic, r.diastolic) === band.category,
+    ).length,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <AverageCard
+          title="Morning (4am-noon)"
+          average={data.byTimeOfDay.morning}
+        />
+        <AverageCard
+          title="Evening (6pm-midnight)"
+          average={data.byTimeOfDay.evening}
+        />
+      </div>
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            {SYSTOLIC_BANDS.map((band) => (
+              <ReferenceArea
+                key={band.category}
+                y1={band.minSystolic}
+                y2={band.to}
+                fill={band.color}
+                fillOpacity={0.08}
+                ifOverflow="hidden"
+              />
+            ))}
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => format(value, "MM/dd")}
+            />
+            <YAxis unit=" mmHg" domain={[40, "auto"]} width={80} />
+            <Tooltip
+              labelFormatter={(value) =>
+                format(Number(value), "EEE, MMM d, yyyy h:mm a")
+              }
+              formatter={(value, name) => [`${Number(value)} mmHg`, name]}
+            />
+            <Line
+              type="monotone"
+              dataKey="systolic"
+              name="Systolic"
+              stroke="#ef4444"
+              dot={categoryDot}
+            />
+            <Line
+              type="monotone"
+              dataKey="diastolic"
+              name="Diastolic"
+              stroke="#3b82f6"
+              dot={categoryDot}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {counts.map((band) => (
+          <div key={band.category} className="flex items-center gap-1">
+            <span
+              className="inline-block h-3 w-3 rounded-full"
+              style={{ backgroundColor: band.color }}
+            />
+            {band.label}: {band.count}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { endOfDay, format, parseISO } from "date-fns";
+import { ExternalLink, Loader2 } from "lucide-react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { getHealthType } from "~/lib/health-types";
+import { api } from "~/trpc/react";
+import type { ChartSpec } from "~/types/health";
+import { COLORS, toChartData } from "./health-data-visualization";
+
+interface ChatChartProps {
+  chart: ChartSpec;
+  onOpenInDashboard?: (chart: ChartSpec) => void;
+}
+
+/**
+ * A chart the assistant attached to a reply, drawn from the same aggregates and series shape as
+ * the Visualize tab.
+ */
+export function ChatChart({ chart, onOpenInDashboard }: ChatChartProps) {
+  const { data: series, isLoading } = api.health.getAggregates.useQuery({
+    metrics: chart.metrics,
+    bucket: chart.bucket,
+    startDate: parseISO(chart.startDate),
+    endDate: endOfDay(parseISO(chart.endDate)),
+  });
+
+  const data = toChartData(series, "yyyy-MM-dd");
+  const tickFormat = chart.bucket === "month" ? "MMM yyyy" : "MMM d";
+  const unitOf = (metric: string) =>
+    series?.find((s) => s.type === metric)?.unit ?? "";
+
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis
+        dataKey="date"
+        tick={{ fontSize: 10 }}
+        tickFormatter={(value: string) => format(parseISO(value), tickFormat)}
+      />
+      <YAxis tick={{ fontSize: 10 }} width={40} />
+      <Tooltip
+        labelFormatter={(value: string) =>
+          format(
+            parseISO(value),
+            chart.bucket === "day" ? "PPP" : `'${chart.bucket} of' PPP`,
+          )
+        }
+        formatter={(value, name) => [
+          `${Number(value).toFixed(1)} ${unitOf(name as string)}`.trim(),
+          getHealthType(name as string).name,
+        ]}
+      />
+    </>
+  );
+
+  return (
+    <div className="mt-2 w-64 rounded-md border border-gray-200 bg-white p-2 lg:w-96">
+      <div className="mb-1 flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-800">{chart.title}</p>
+        {onOpenInDashboard && (
+          <button
+            type="button"
+            onClick={() => onOpenInDashboard(chart)}
+            className="flex items-center space-x-1 text-xs text-blue-600 hover:underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            <span>Open in dashboard</span>
+          </button>
+        )}
+      </div>
+      <div className="h-44">
+        {isLoading ? (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            {chart.kind === "bar" ? (
+              <BarChart data={data}>
+                {axes}
+                {chart.metrics.map((metric, index) => (
+                  <Bar
+                    key={metric}
+                    dataKey={metric}
+                    fill={COLORS[index % COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            ) : chart.kind === "area" ? (
+              <AreaChart data={data}>
+                {axes}
+                {chart.metrics.map((metric, index) => (
+                  <Area
+                    key={metric}
+                    type="monotone"
+                    dataKey={metric}
+                    stroke={COLORS[index % COLORS.length]}
+                    fill={COLORS[index % COLORS.length]}
+                    fillOpacity={0.3}
+                  />
+                ))}
+              </AreaChart>
+            ) : (
+              <LineChart data={data}>
+                {axes}
+                {chart.metrics.map((metric, index) => (
+                  <Line
+                    key={metric}
+                    type="monotone"
+                    dataKey={metric}
+                    stroke={COLORS[index % COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            )}
+          </ResponsiveContainer>
+        )}
+      </div>
+      <p className="mt-1 text-[10px] text-gray-500">
+        {chart.metrics.map((metric) => getHealthType(metric).name).join(", ")} ·{" "}
+        {format(parseISO(chart.startDate), "MMM d, yyyy")} –{" "}
+        {format(parseISO(chart.endDate), "MMM d, yyyy")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  MessageSquarePlus,
+  Pencil,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useState } from "react";
+import { api } from "~/trpc/react";
+
+interface ChatConversationListProps {
+  selectedId: string | null;
+  // null starts a new conversation
+  onSelect: (conversationId: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Sidebar of the assistant's conversations, newest activity first, with rename, archive and
+ * delete on each thread.
+ */
+export function ChatConversationList({
+  selectedId,
+  onSelect,
+  disabled,
+}: ChatConversationListProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(
+    null,
+  );
+
+  const utils = api.useUtils();
+  const { data: conversations } = api.chat.getConversations.useQuery({
+    archived: showArchived,
+  });
+
+  const onSuccess = () => utils.chat.getConversations.invalidate();
+  const rename = api.chat.renameConversation.useMutation({ onSuccess });
+  const setArchived = api.chat.setConversationArchived.useMutation({
+    onSuccess,
+  });
+  const remove = api.chat.deleteConversation.useMutation({ onSuccess });
+
+  const saveTitle = () => {
+    if (editing?.title.trim()) {
+      rename.mutate({ conversationId: editing.id, title: editing.title });
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (conversationId: string) => {
+    if (!window.confirm("Delete this conversation and all of its messages?")) {
+      return;
+    }
+    remove.mutate({ conversationId });
+    if (conversationId === selectedId) onSelect(null);
+  };
+
+  return (
+    <div className="flex w-56 flex-shrink-0 flex-col border-r bg-gray-50">
+      <div className="p-2">
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          disabled={disabled}
+          className="flex w-full items-center justify-center space-x-2 rounded-md border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+        >
+          <MessageSquarePlus className="h-4 w-4" />
+          <span>New chat</span>
+        </button>
+      </div>
+
+      <ul className="flex-1 space-y-0.5 overflow-y-auto px-2">
+        {conversations?.length === 0 && (
+          <li className="px-2 py-1 text-xs text-gray-500">
+            {showArchived
+              ? "No archived conversations"
+              : "No conversations yet"}
+          </li>
+        )}
+        {conversations?.map((conversation) => (
+          <li
+            key={conversation.id}
+            className={`group flex items-center rounded-md text-sm ${
+              conversation.id === selectedId
+                ? "bg-blue-100 text-blue-700"
+                : "text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            {editing?.id === conversation.id ? (
+              <form
+                className="flex min-w-0 flex-1 items-center"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveTitle();
+                }}
+              >
+                <input
+                  autoFocus
+                  value={editing.title}
+                  maxLength={100}
+                  onChange={(e) =>
+                    setEditing({ ...editing, title: e.target.value })
+                  }
+                  onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                  className="min-w-0 flex-1 rounded border border-gray-300 px-1 py-0.5 text-sm"
+                />
+                <button type="submit" title="Save" className="p-1">
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  title="Cancel"
+                  className="p-1"
+                  onClick={() => setEditing(null)}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </form>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  className="min-w-0 flex-1 truncate px-2 py-1.5 text-left"
+                  title={conversation.title ?? undefined}
+                >
+                  {conversation.title ?? "New conversation"}
+                </button>
+                <div
+                  className={`hidden flex-shrink-0 items-center pr-1 ${
+                    disabled ? "" : "group-hover:flex"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    title="Rename"
+                    className="p-0.5 text-gray-500 hover:text-gray-800"
+                    onClick={() =>
+                      setEditing({
+                        id: conversation.id,
+                        title: conversation.title ?? "",
+                      })
+                    }
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    title={conversation.archived ? "Unarchive" : "Archive"}
+                    className="p-0.5 text-gray-500 hover:text-gray-800"
+                    onClick={() =>
+                      setArchived.mutate({
+                        conversationId: conversation.id,
+                        archived: !conversation.archived,
+                      })
+                    }
+                  >
+                    {conversation.archived ? (
+                      <ArchiveRestore className="h-3.5 w-3.5" />
+                    ) : (
+                      <Archive className="h-3.5 w-3.5" />
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    title="Delete"
+                    className="p-0.5 text-gray-500 hover:text-red-600"
+                    onClick={() => handleDelete(conversation.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="border-t p-2">
+        <button
+          type="button"
+          onClick={() => setShowArchived(!showArchived)}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          {showArchived ? "Back to conversations" : "Show archived"}
+        </button>
+      </div>
+    </div>
+  );
+}
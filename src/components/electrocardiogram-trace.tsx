@@ -0,0 +1,91 @@
+"use client";
+
+import { useId } from "react";
+import {
+  ecgStrips,
+  GAIN_MM_PER_MV,
+  PAPER_SPEED_MM_PER_S,
+  STRIP_HEIGHT_MM,
+} from "~/lib/electrocardiogram";
+
+interface ElectrocardiogramTraceProps {
+  voltages: number[]; // microvolts
+  sampleRate: number;
+}
+
+/**
+ * An ECG on millimetre paper: 1 mm minor and 5 mm major grid lines. The SVG is sized in CSS
+ * millimetres so the trace keeps its 25 mm/s, 10 mm/mV scale; wide strips scroll.
+ */
+export function ElectrocardiogramTrace({
+  voltages,
+  sampleRate,
+}: ElectrocardiogramTraceProps) {
+  // Pattern ids are referenced from url(), which doesn't accept the colons useId returns
+  const id = `ecg${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+  const strips = ecgStrips(voltages, sampleRate);
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1 overflow-x-auto">
+        {strips.map((strip) => (
+          <svg
+            key={strip.startSecond}
+            width={`${strip.widthMm}mm`}
+            height={`${STRIP_HEIGHT_MM}mm`}
+            viewBox={`0 0 ${strip.widthMm} ${STRIP_HEIGHT_MM}`}
+            className="block"
+          >
+            <defs>
+              <pattern
+                id={`${id}-minor`}
+                width={1}
+                height={1}
+                patternUnits="userSpaceOnUse"
+              >
+                <path
+                  d="M1 0V1H0"
+                  fill="none"
+                  stroke="#fecaca"
+                  strokeWidth={0.05}
+                />
+              </pattern>
+              <pattern
+                id={`${id}-major`}
+                width={5}
+                height={5}
+                patternUnits="userSpaceOnUse"
+              >
+                <rect width={5} height={5} fill={`url(#${id}-minor)`} />
+                <path
+                  d="M5 0V5H0"
+                  fill="none"
+                  stroke="#f87171"
+                  strokeWidth={0.12}
+                />
+              </pattern>
+            </defs>
+            <rect
+              width={strip.widthMm}
+              height={STRIP_HEIGHT_MM}
+              fill={`url(#${id}-major)`}
+            />
+            <path
+              d={strip.path}
+              fill="none"
+              stroke="#111827"
+              strokeWidth={0.25}
+              strokeLinejoin="round"
+            />
+            <text x={1} y={3} fontSize={2.5} fill="#6b7280">
+              {strip.startSecond}s
+            </text>
+          </svg>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        {PAPER_SPEED_MM_PER_S} mm/s · {GAIN_MM_PER_MV} mm/mV
+      </p>
+    </div>
+  );
+}
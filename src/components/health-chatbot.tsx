@@ -1,9 +1,20 @@
 "use client";
 
-import { Bot, Loader2, Send, User } from "lucide-react";
+import { Bot, Loader2, Send, Square, User } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { api } from "~/trpc/react";
-import type { ChatMessage } from "~/types/health";
+import type { ChartSpec, ChatMessage, ChatStreamEvent } from "~/types/health";
+import { ChatChart } from "./chat-chart";
+import { ChatConversationList } from "./chat-conversation-list";
+
+const TOOL_STATUS: Record<string, string> = {
+  getAvailableData: "Checking which data you have",
+  getAggregates: "Summarizing your data",
+  comparePeriods: "Comparing periods",
+  getWorkouts: "Looking up workouts",
+  getSleepSummary: "Looking up sleep",
+  showChart: "Drawing a chart",
+};
 
 interface HealthChatbotProps {
   userId: string;
@@ -12,43 +23,42 @@ interface HealthChatbotProps {
     dateRange: { start: Date; end: Date };
     dataTypes: Record<string, number>;
   };
+  // Shows an attached chart's metrics and range in the Visualize tab
+  onOpenChart?: (chart: ChartSpec) => void;
 }
 
-export function HealthChatbot({ userId, healthSummary }: HealthChatbotProps) {
+export function HealthChatbot({
+  userId,
+  healthSummary,
+  onOpenChart,
+}: HealthChatbotProps) {
+  // null until the first message of a new conversation creates it
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const chatMutation = api.chat.sendMessage.useMutation({
-    onSuccess: (response) => {
-      setMessages((prev) => [...prev, response]);
-      setIsLoading(false);
-    },
-    onError: (error) => {
-      console.error("Chat error:", error);
-      setIsLoading(false);
-      // Add error message
-      const errorMessage: ChatMessage = {
-        id: Date.now().toString(),
-        content:
-          "Sorry, I encountered an error processing your message. Please try again.",
-        role: "ASSISTANT",
-        createdAt: new Date(),
-        userId,
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-    },
-  });
-
-  const { data: chatHistory } = api.chat.getMessages.useQuery({ userId });
+  const utils = api.useUtils();
+  const { data: chatHistory } = api.chat.getMessages.useQuery(
+    { conversationId: conversationId ?? "" },
+    { enabled: !!conversationId },
+  );
 
+  // Keep the streaming reply on screen until the saved one replaces it
   useEffect(() => {
-    if (chatHistory) {
+    if (chatHistory && !abortRef.current) {
       setMessages(chatHistory);
     }
   }, [chatHistory]);
 
+  const selectConversation = (id: string | null) => {
+    setConversationId(id);
+    setMessages([]);
+  };
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
@@ -66,15 +76,123 @@ export function HealthChatbot({ userId, healthSummary }: HealthChatbotProps) {
       userId,
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // The reply fills in as it streams; it is replaced by the saved message once done
+    const reply: ChatMessage = {
+      id: `${userMessage.id}-reply`,
+      content: "",
+      role: "ASSISTANT",
+      createdAt: new Date(),
+      userId,
+    };
+    const updateReply = (update: (message: ChatMessage) => ChatMessage) =>
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.id === reply.id ? update(message) : message,
+        ),
+      );
+
+    setMessages((prev) => [...prev, userMessage, reply]);
     setInputValue("");
     setIsLoading(true);
 
-    // Send message through tRPC
-    chatMutation.mutate({
-      content: inputValue.trim(),
-      healthSummary,
-    });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let activeId = conversationId;
+    let finished = false;
+
+    // Also called once the reply is saved; the stream may stay open for the title
+    const finish = () => {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStatus(null);
+        setIsLoading(false);
+      }
+    };
+
+    try {
+      const response = await fetch("/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          conversationId: conversationId ?? undefined,
+          content: userMessage.content,
+          healthSummary,
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Chat request failed: ${response.status}`);
+      }
+
+      // Newline-delimited JSON events; a read can end partway through a line
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line) continue;
+          const event = JSON.parse(line) as ChatStreamEvent;
+
+          if (event.type === "conversation") {
+            activeId = event.conversationId;
+          } else if (event.type === "text") {
+            setStatus(null);
+            updateReply((message) => ({
+              ...message,
+              content: message.content + event.delta,
+            }));
+          } else if (event.type === "tool") {
+            setStatus(TOOL_STATUS[event.toolName] ?? "Looking up your data");
+          } else if (event.type === "chart") {
+            updateReply((message) => ({
+              ...message,
+              charts: [...(message.charts ?? []), event.chart],
+            }));
+          } else if (event.type === "done") {
+            finished = true;
+            finish();
+            setConversationId(activeId);
+            void utils.chat.getMessages.invalidate();
+            void utils.chat.getConversations.invalidate();
+          } else if (event.type === "title") {
+            void utils.chat.getConversations.invalidate();
+          } else if (event.type === "error") {
+            throw new Error(event.error);
+          }
+        }
+      }
+    } catch (error) {
+      if (finished) {
+        // Only the title was still to come
+      } else if (controller.signal.aborted) {
+        // The server saves what was written so far; show it the same way until the next refetch
+        updateReply((message) => ({ ...message, truncated: true }));
+        setConversationId(activeId);
+        void utils.chat.getConversations.invalidate();
+      } else {
+        console.error("Chat error:", error);
+        updateReply((message) => ({
+          ...message,
+          content:
+            message.content ||
+            "Sorry, I encountered an error processing your message. Please try again.",
+        }));
+      }
+    } finally {
+      finish();
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   const suggestedQuestions = [
@@ -86,143 +204,200 @@ export function HealthChatbot({ userId, healthSummary }: HealthChatbotProps) {
   ];
 
   return (
-    <div className="flex h-96 flex-col rounded-lg border bg-white shadow">
-      {/* Header */}
-      <div className="border-b p-4">
-        <div className="flex items-center space-x-2">
-          <Bot className="h-6 w-6 text-blue-500" />
-          <h3 className="font-semibold text-gray-900">Health Assistant</h3>
-        </div>
-        <p className="mt-1 text-sm text-gray-600">
-          Ask me about your health data and get personalized insights
-        </p>
-      </div>
+    <div className="flex h-[32rem] rounded-lg border bg-white shadow">
+      <ChatConversationList
+        selectedId={conversationId}
+        onSelect={selectConversation}
+        disabled={isLoading}
+      />
 
-      {/* Messages */}
-      <div className="flex-1 space-y-4 overflow-y-auto p-4">
-        {messages.length === 0 ? (
-          <div className="py-8 text-center text-gray-500">
-            <Bot className="mx-auto mb-4 h-12 w-12 text-gray-300" />
-            <p className="mb-2 text-lg font-medium">
-              Welcome to your Health Assistant!
-            </p>
-            <p className="mb-4 text-sm">
-              I can help you understand your health data and provide insights.
-            </p>
-
-            {healthSummary && (
-              <div className="mx-auto max-w-md rounded-lg border border-blue-200 bg-blue-50 p-3 text-left">
-                <p className="text-sm text-blue-700">
-                  I can see you have{" "}
-                  <strong>{healthSummary.totalRecords}</strong> health records
-                  spanning from{" "}
-                  {healthSummary.dateRange.start.toLocaleDateString()} to{" "}
-                  {healthSummary.dateRange.end.toLocaleDateString()}.
-                </p>
-              </div>
-            )}
+      <div className="flex min-w-0 flex-1 flex-col">
+        {/* Header */}
+        <div className="border-b p-4">
+          <div className="flex items-center space-x-2">
+            <Bot className="h-6 w-6 text-blue-500" />
+            <h3 className="font-semibold text-gray-900">Health Assistant</h3>
+          </div>
+          <p className="mt-1 text-sm text-gray-600">
+            Ask me about your health data and get personalized insights
+          </p>
+        </div>
 
-            <div className="mt-6">
-              <p className="mb-2 text-sm font-medium text-gray-700">
-                Try asking:
+        {/* Messages */}
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          {messages.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">
+              <Bot className="mx-auto mb-4 h-12 w-12 text-gray-300" />
+              <p className="mb-2 text-lg font-medium">
+                Welcome to your Health Assistant!
               </p>
-              <div className="space-y-1">
-                {suggestedQuestions.slice(0, 3).map((question, index) => (
-                  <button
-                    key={index}
-                    onClick={() => setInputValue(question)}
-                    className="mx-auto block text-xs text-blue-600 hover:text-blue-800"
-                  >
-                    "{question}"
-                  </button>
-                ))}
+              <p className="mb-4 text-sm">
+                I can help you understand your health data and provide insights.
+              </p>
+
+              {healthSummary && (
+                <div className="mx-auto max-w-md rounded-lg border border-blue-200 bg-blue-50 p-3 text-left">
+                  <p className="text-sm text-blue-700">
+                    I can see you have{" "}
+                    <strong>{healthSummary.totalRecords}</strong> health records
+                    spanning from{" "}
+                    {healthSummary.dateRange.start.toLocaleDateString()} to{" "}
+                    {healthSummary.dateRange.end.toLocaleDateString()}.
+                  </p>
+                </div>
+              )}
+
+              <div className="mt-6">
+                <p className="mb-2 text-sm font-medium text-gray-700">
+                  Try asking:
+                </p>
+                <div className="space-y-1">
+                  {suggestedQuestions.slice(0, 3).map((question, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setInputValue(question)}
+                      className="mx-auto block text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      "{question}"
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
-        ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.role === "USER" ? "justify-end" : "justify-start"}`}
-            >
-              <div
-                className={`flex max-w-xs items-start space-x-2 lg:max-w-md ${
-                  message.role === "USER"
-                    ? "flex-row-reverse space-x-reverse"
-                    : ""
-                }`}
-              >
+          ) : (
+            messages
+              .filter(
+                (message) =>
+                  message.content !== "" ||
+                  message.truncated === true ||
+                  !!message.charts?.length,
+              )
+              .map((message) => (
                 <div
-                  className={`flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full ${
-                    message.role === "USER" ? "bg-blue-500" : "bg-gray-300"
-                  }`}
+                  key={message.id}
+                  className={`flex ${message.role === "USER" ? "justify-end" : "justify-start"}`}
                 >
-                  {message.role === "USER" ? (
-                    <User className="h-4 w-4 text-white" />
-                  ) : (
-                    <Bot className="h-4 w-4 text-gray-600" />
-                  )}
+                  <div
+                    className={`flex max-w-xs items-start space-x-2 lg:max-w-md ${
+                      message.role === "USER"
+                        ? "flex-row-reverse space-x-reverse"
+                        : ""
+                    }`}
+                  >
+                    <div
+                      className={`flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full ${
+                        message.role === "USER" ? "bg-blue-500" : "bg-gray-300"
+                      }`}
+                    >
+                      {message.role === "USER" ? (
+                        <User className="h-4 w-4 text-white" />
+                      ) : (
+                        <Bot className="h-4 w-4 text-gray-600" />
+                      )}
+                    </div>
+                    <div
+                      className={`rounded-lg px-3 py-2 ${
+                        message.role === "USER"
+                          ? "bg-blue-500 text-white"
+                          : "bg-gray-100 text-gray-900"
+                      }`}
+                    >
+                      <p className="text-sm whitespace-pre-wrap">
+                        {message.content}
+                      </p>
+                      {message.toolCalls && message.toolCalls.length > 0 && (
+                        <details className="mt-2 text-xs text-gray-500">
+                          <summary className="cursor-pointer">
+                            Looked up {message.toolCalls.length} data{" "}
+                            {message.toolCalls.length === 1
+                              ? "query"
+                              : "queries"}
+                          </summary>
+                          <ul className="mt-1 space-y-1">
+                            {message.toolCalls.map((call) => (
+                              <li key={call.id} className="font-mono break-all">
+                                {call.toolName}({JSON.stringify(call.args)})
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                      {message.charts?.map((chart, index) => (
+                        <ChatChart
+                          key={index}
+                          chart={chart}
+                          onOpenInDashboard={onOpenChart}
+                        />
+                      ))}
+                      {message.truncated && (
+                        <p className="mt-1 text-xs text-gray-500 italic">
+                          Reply stopped before it finished
+                        </p>
+                      )}
+                      <p className="mt-1 text-xs opacity-70">
+                        {message.createdAt.toLocaleTimeString([], {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </p>
+                    </div>
+                  </div>
                 </div>
-                <div
-                  className={`rounded-lg px-3 py-2 ${
-                    message.role === "USER"
-                      ? "bg-blue-500 text-white"
-                      : "bg-gray-100 text-gray-900"
-                  }`}
-                >
-                  <p className="text-sm whitespace-pre-wrap">
-                    {message.content}
-                  </p>
-                  <p className="mt-1 text-xs opacity-70">
-                    {message.createdAt.toLocaleTimeString([], {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
-                  </p>
+              ))
+          )}
+
+          {isLoading && !messages[messages.length - 1]?.content && (
+            <div className="flex justify-start">
+              <div className="flex items-start space-x-2">
+                <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-gray-300">
+                  <Bot className="h-4 w-4 text-gray-600" />
                 </div>
-              </div>
-            </div>
-          ))
-        )}
-
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="flex items-start space-x-2">
-              <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-gray-300">
-                <Bot className="h-4 w-4 text-gray-600" />
-              </div>
-              <div className="rounded-lg bg-gray-100 px-3 py-2">
-                <div className="flex items-center space-x-2">
-                  <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
-                  <span className="text-sm text-gray-500">Thinking...</span>
+                <div className="rounded-lg bg-gray-100 px-3 py-2">
+                  <div className="flex items-center space-x-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                    <span className="text-sm text-gray-500">
+                      {status ?? "Thinking..."}
+                    </span>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
 
-        <div ref={messagesEndRef} />
-      </div>
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input */}
-      <div className="border-t p-4">
-        <form onSubmit={handleSendMessage} className="flex space-x-2">
-          <input
-            type="text"
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            placeholder="Ask about your health data..."
-            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
-            disabled={isLoading}
-          />
-          <button
-            type="submit"
-            disabled={!inputValue.trim() || isLoading}
-            className="rounded-lg bg-blue-500 p-2 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
-          >
-            <Send className="h-4 w-4" />
-          </button>
-        </form>
+        {/* Input */}
+        <div className="border-t p-4">
+          <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <input
+              type="text"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              placeholder="Ask about your health data..."
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                title="Stop generating"
+                className="rounded-lg bg-gray-700 p-2 text-white transition-colors hover:bg-gray-800"
+              >
+                <Square className="h-4 w-4" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!inputValue.trim()}
+                className="rounded-lg bg-blue-500 p-2 text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Send className="h-4 w-4" />
+              </button>
+            )}
+          </form>
+        </div>
       </div>
     </div>
   );
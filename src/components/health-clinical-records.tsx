@@ -0,0 +1,127 @@
+"use client";
+
+import type { ClinicalRecordKind } from "@prisma/client";
+import { format } from "date-fns";
+import { FileHeart, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { CLINICAL_RECORD_KIND_LABELS } from "~/lib/clinical-records";
+import { api } from "~/trpc/react";
+import { LabTrendChart } from "./lab-trend-chart";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+const KINDS = Object.keys(CLINICAL_RECORD_KIND_LABELS) as ClinicalRecordKind[];
+
+export function HealthClinicalRecords() {
+  const [kind, setKind] = useState<ClinicalRecordKind>("OBSERVATION");
+
+  const { data: counts, isLoading } =
+    api.clinical.getClinicalRecordCounts.useQuery();
+
+  const { data: records, isLoading: isLoadingRecords } =
+    api.clinical.getClinicalRecords.useQuery({ kind });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!counts || counts.length === 0) {
+    return (
+      <div className="py-12 text-center">
+        <FileHeart className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-semibold text-gray-900">
+          No clinical records
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Upload an export.zip that includes Health Records from your providers
+          to see them here.
+        </p>
+      </div>
+    );
+  }
+
+  const countOf = (k: ClinicalRecordKind) =>
+    counts.find((item) => item.kind === k)?.count ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Lab Trends</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LabTrendChart />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="space-y-3">
+          <CardTitle>Records</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            {KINDS.map((k) => (
+              <button
+                key={k}
+                className={`rounded-full px-3 py-1 text-sm ${
+                  k === kind
+                    ? "bg-blue-100 text-blue-700"
+                    : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                }`}
+                onClick={() => setKind(k)}
+              >
+                {CLINICAL_RECORD_KIND_LABELS[k]} ({countOf(k)})
+              </button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingRecords && (
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          )}
+          {records?.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No {CLINICAL_RECORD_KIND_LABELS[kind].toLowerCase()} imported.
+            </p>
+          )}
+          {records && records.length > 0 && (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500">
+                <tr>
+                  <th className="py-1 font-medium">Name</th>
+                  <th className="py-1 font-medium">Date</th>
+                  <th className="py-1 font-medium">Status</th>
+                  <th className="py-1 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-gray-700">
+                {records.map((record) => (
+                  <tr key={record.id}>
+                    <td className="py-2 pr-2">
+                      {record.name}
+                      {record.code && (
+                        <span className="ml-1 text-xs text-gray-400">
+                          {record.code}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {record.date ? format(record.date, "MMM d, yyyy") : "—"}
+                    </td>
+                    <td className="py-2 pr-2">{record.status ?? "—"}</td>
+                    <td className="py-2 text-gray-500">
+                      {Object.values(
+                        (record.details as Record<string, string> | null) ?? {},
+                      ).join(" · ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
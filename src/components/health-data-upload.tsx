@@ -1,54 +1,38 @@
 "use client";
 
-import { format, parseISO, subMonths } from "date-fns";
 import { AlertCircle, CheckCircle, FileX, Loader2, Upload } from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
 import { useDropzone } from "react-dropzone";
-import { Button } from "~/components/ui/button";
-import { Input } from "~/components/ui/input";
-import { Label } from "~/components/ui/label";
+import { ImportConfigDialog } from "~/components/import-config-dialog";
+import { uploadFileInChunks } from "~/lib/chunked-upload";
+import { describeImportConfig, EMPTY_IMPORT_CONFIG } from "~/lib/import-config";
 import { api } from "~/trpc/react";
-import type { ParsedHealthData } from "~/types/health";
-import { HEALTH_DATA_TYPES, METRIC_CATEGORIES } from "~/types/health";
+import type {
+  ExportArtifacts,
+  ImportConfig,
+  ImportSummary,
+} from "~/types/health";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
 
 interface HealthDataUploadProps {
-  onDataParsed: (data: ParsedHealthData[], fileName: string) => void;
+  onImportComplete: (summary: ImportSummary, fileName: string) => void;
   onError: (error: string) => void;
-  isUploading?: boolean;
+  // Import job still running from an earlier visit, to resume following it
+  activeJobId?: string;
 }
 
 interface UploadProgress {
   bytesProcessed: number;
   totalBytes: number;
   recordsProcessed: number;
+  recordsInserted: number;
   percentage: number;
 }
 
-// Group health data types by category for filter UI
-const dataTypesByCategory = Object.entries(HEALTH_DATA_TYPES).reduce(
-  (acc, [key, value]) => {
-    const category = Object.entries(METRIC_CATEGORIES).find(([_, catName]) => {
-      const categoryMatch = Object.values(HEALTH_DATA_TYPES).find(
-        (type) => type === value
-      );
-      return categoryMatch;
-    })?.[0] || "OTHER";
-    
-    if (!acc[category]) {
-      acc[category] = [];
-    }
-    
-    acc[category].push({ key, value });
-    return acc;
-  },
-  {} as Record<string, Array<{ key: string; value: string }>>
-);
-
 export function HealthDataUpload({
-  onDataParsed,
+  onImportComplete,
   onError,
-  isUploading,
+  activeJobId,
 }: HealthDataUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<
@@ -59,33 +43,73 @@ export function HealthDataUpload({
     bytesProcessed: 0,
     totalBytes: 0,
     recordsProcessed: 0,
+    recordsInserted: 0,
     percentage: 0,
   });
+  const [resumedFrom, setResumedFrom] = useState<number | null>(null);
+  const [artifacts, setArtifacts] = useState<ExportArtifacts | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(
+    null,
+  );
   
-  // Add date range filtering
-  const [dateRange, setDateRange] = useState<{
-    startDate: string | null;
-    endDate: string | null;
-  }>({
-    startDate: null,
-    endDate: null,
-  });
-  
-  // Add data type filtering
-  const [selectedDataTypes, setSelectedDataTypes] = useState<string[]>([]);
+  // What to import; applied on the server and saved on the upload
+  const [config, setConfig] = useState<ImportConfig>(EMPTY_IMPORT_CONFIG);
+
+  // Background import job, polled until it completes or fails
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { data: importJob } = api.health.getImportJob.useQuery(
+    { jobId: jobId ?? "" },
+    {
+      enabled: !!jobId,
+      refetchInterval: (query) =>
+        query.state.data?.status === "COMPLETED" ||
+        query.state.data?.status === "FAILED"
+          ? false
+          : 1000,
+    },
+  );
+
+  // Pick up an import that is still running from an earlier visit
+  useEffect(() => {
+    if (activeJobId && !jobId && uploadStatus === "idle") {
+      setJobId(activeJobId);
+      setIsProcessing(true);
+      setUploadStatus("processing");
+    }
+  }, [activeJobId, jobId, uploadStatus]);
+
+  useEffect(() => {
+    if (!importJob || uploadStatus !== "processing") return;
 
-  // tRPC mutation for saving health data
-  const uploadHealthData = api.health.uploadHealthData.useMutation({
-    onSuccess: (result) => {
-      console.log(`Successfully saved ${result.recordsCreated} health records`);
+    setFileName(importJob.fileName);
+    setArtifacts(importJob.artifacts);
+
+    if (importJob.progress) {
+      const { bytesProcessed, totalBytes, recordsProcessed, recordsInserted } =
+        importJob.progress;
+      setProgress({
+        bytesProcessed,
+        totalBytes,
+        recordsProcessed,
+        recordsInserted,
+        percentage: Math.round((bytesProcessed / totalBytes) * 100),
+      });
+    }
+
+    if (importJob.status === "COMPLETED" && importJob.result) {
+      console.log(
+        `Imported ${importJob.result.recordsInserted} of ${importJob.result.recordsProcessed} records`,
+      );
+      setImportSummary(importJob.result);
       setUploadStatus("success");
-    },
-    onError: (error) => {
-      console.error("Failed to save health data:", error);
+      setIsProcessing(false);
+      onImportComplete(importJob.result, importJob.fileName);
+    } else if (importJob.status === "FAILED") {
       setUploadStatus("error");
-      onError("Failed to save health data to database: " + error.message);
-    },
-  });
+      setIsProcessing(false);
+      onError(importJob.error ?? "Processing failed");
+    }
+  }, [importJob, uploadStatus, onImportComplete, onError]);
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -97,166 +121,94 @@ export function HealthDataUpload({
       setIsProcessing(true);
       setUploadStatus("uploading");
       setFileName(file.name);
+      setResumedFrom(null);
+      setArtifacts(null);
+      setImportSummary(null);
+      setJobId(null);
       setProgress({
         bytesProcessed: 0,
         totalBytes: file.size,
         recordsProcessed: 0,
+        recordsInserted: 0,
         percentage: 0,
       });
 
       try {
         // Validate file type
-        if (!file.name.toLowerCase().endsWith(".xml")) {
-          throw new Error("Please upload a valid Apple Health XML file");
+        const lowerName = file.name.toLowerCase();
+        if (!lowerName.endsWith(".xml") && !lowerName.endsWith(".zip")) {
+          throw new Error(
+            "Please upload a valid Apple Health export.xml or export.zip file",
+          );
         }
 
-        // Step 1: Upload the file to server
-        const formData = new FormData();
-        formData.append("file", file);
-
-        const uploadResponse = await fetch("/api/upload", {
-          method: "POST",
-          body: formData,
+        // Step 1: Upload the file to server in resumable parts
+        const fileId = await uploadFileInChunks(file, {
+          onProgress: ({ bytesUploaded, totalBytes }) => {
+            setProgress({
+              bytesProcessed: bytesUploaded,
+              totalBytes,
+              recordsProcessed: 0,
+              recordsInserted: 0,
+              percentage: Math.round((bytesUploaded / totalBytes) * 100),
+            });
+          },
+          onResume: (offset) => setResumedFrom(offset),
         });
 
-        if (!uploadResponse.ok) {
-          const error = (await uploadResponse.json()) as { error?: string };
-          throw new Error(error.error ?? "Failed to upload file");
-        }
-
-        const { fileId } = (await uploadResponse.json()) as { fileId: string };
-
         setUploadStatus("processing");
+        setProgress({
+          bytesProcessed: 0,
+          totalBytes: file.size,
+          recordsProcessed: 0,
+          recordsInserted: 0,
+          percentage: 0,
+        });
 
-        // Step 2: Process the file with streaming parser
+        // Step 2: Import the file on the server; records never come back to the browser
         const parseResponse = await fetch("/api/parse-xml", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ 
-            fileId,
-            dateRange: {
-              startDate: dateRange.startDate,
-              endDate: dateRange.endDate
-            }
-          }),
+          body: JSON.stringify({ fileId, config }),
         });
 
         if (!parseResponse.ok) {
           throw new Error("Failed to start processing");
         }
 
-        // Step 3: Stream the parsing progress
-        const reader = parseResponse.body?.getReader();
-        if (!reader) {
-          throw new Error("Failed to read response stream");
-        }
-
-        let filteredRecords: ParsedHealthData[] = [];
-        const decoder = new TextDecoder();
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split("\n");
-
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                try {
-                  const data = JSON.parse(line.slice(6)) as {
-                    type: string;
-                    data?: {
-                      bytesProcessed?: number;
-                      totalBytes?: number;
-                      recordsProcessed?: number;
-                      records?: ParsedHealthData[];
-                      error?: string;
-                    };
-                  };
-
-                  if (data.type === "progress" && data.data) {
-                    setProgress({
-                      bytesProcessed: data.data.bytesProcessed ?? 0,
-                      totalBytes: data.data.totalBytes ?? file.size,
-                      recordsProcessed: data.data.recordsProcessed ?? 0,
-                      percentage: Math.round(
-                        ((data.data.bytesProcessed ?? 0) / file.size) * 100,
-                      ),
-                    });
-                  } else if (data.type === "record" && data.data?.records) {
-                    // Process batch of records
-                    filteredRecords = [...filteredRecords, ...data.data.records];
-                  } else if (data.type === "complete" && data.data) {
-                    // Add any final records
-                    if (data.data.records) {
-                      filteredRecords = [...filteredRecords, ...data.data.records];
-                    }
-                    
-                    setProgress({
-                      bytesProcessed: file.size,
-                      totalBytes: file.size,
-                      recordsProcessed: data.data.recordsProcessed ?? 0,
-                      percentage: 100,
-                    });
-                  } else if (data.type === "error") {
-                    throw new Error(data.data?.error ?? "Processing failed");
-                  }
-                } catch (parseError) {
-                  console.warn("Failed to parse streaming data:", parseError);
-                }
-              }
-            }
-          }
-        } finally {
-          reader.releaseLock();
-        }
-
-        // Save health data to database via tRPC
-        await uploadHealthData.mutateAsync({
-          fileName: file.name,
-          fileSize: file.size,
-          healthRecords: filteredRecords,
-        });
-
-        console.log(`Successfully processed ${filteredRecords.length} records, calling onDataParsed callback`);
-        setUploadStatus("success");
-        onDataParsed(filteredRecords, file.name);
+        // Step 3: Follow the background job; it keeps running if this tab is closed
+        const { jobId: queuedJobId } = (await parseResponse.json()) as {
+          jobId: string;
+        };
+        setJobId(queuedJobId);
       } catch (error) {
         console.error("Upload error:", error);
         setUploadStatus("error");
+        setIsProcessing(false);
         onError(
           error instanceof Error
             ? error.message
             : "An unexpected error occurred",
         );
-      } finally {
-        setIsProcessing(false);
       }
     },
-    [onDataParsed, onError, uploadHealthData, dateRange.startDate, dateRange.endDate],
+    [onError, config],
   );
 
-  // Apply the isUploading prop from parent component
-  useEffect(() => {
-    if (isUploading) {
-      setUploadStatus("processing");
-    }
-  }, [isUploading]);
-
   const { getRootProps, getInputProps, isDragActive, isDragReject } =
     useDropzone({
       onDrop: useCallback(
         // Explicitly cast as any to avoid TypeScript errors with async function
         onDrop as any,
-        [onDataParsed, onError, uploadHealthData, dateRange.startDate, dateRange.endDate],
+        [onError, config],
       ),
       accept: {
         "text/xml": [".xml"],
         "application/xml": [".xml"],
+        "application/zip": [".zip"],
+        "application/x-zip-compressed": [".zip"],
       },
       multiple: false,
       disabled: isProcessing,
@@ -281,8 +233,13 @@ export function HealthDataUpload({
   };
 
   const getStatusText = () => {
-    if (uploadStatus === "uploading") return `Uploading ${fileName}...`;
+    if (uploadStatus === "uploading") {
+      return `Uploading ${fileName}... (${progress.percentage}%)`;
+    }
     if (uploadStatus === "processing") {
+      if (importJob?.status === "QUEUED" && importJob.error) {
+        return `Retrying ${fileName} (attempt ${importJob.attempts + 1} of ${importJob.maxAttempts})...`;
+      }
       if (progress.recordsProcessed > 0) {
         return `Processing ${fileName}... (${progress.recordsProcessed.toLocaleString()} records processed)`;
       }
@@ -290,9 +247,9 @@ export function HealthDataUpload({
     }
     if (uploadStatus === "success") return `Successfully processed ${fileName}`;
     if (uploadStatus === "error") return `Failed to process ${fileName}`;
-    if (isDragReject) return "Only XML files are supported";
+    if (isDragReject) return "Only export.xml or export.zip files are supported";
     if (isDragActive) return "Drop your Apple Health export here";
-    return "Drag & drop your Apple Health XML file here, or click to browse";
+    return "Drag & drop your Apple Health export.zip or export.xml here, or click to browse";
   };
 
   const getBorderColor = () => {
@@ -330,54 +287,15 @@ export function HealthDataUpload({
           <CardTitle>Import Options</CardTitle>
           <CardDescription>Customize your Apple Health data import</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          {/* Date Range Filter */}
-          <div className="space-y-2">
-            <Label htmlFor="startDate">Date Range</Label>
-            <div className="flex flex-wrap gap-2">
-              <div className="flex-1">
-                <Input
-                  type="date"
-                  id="startDate"
-                  placeholder="Start Date"
-                  value={dateRange.startDate ?? ""}
-                  onChange={(e) => 
-                    setDateRange(prev => ({ ...prev, startDate: e.target.value || null }))
-                  }
-                />
-              </div>
-              <div className="flex-1">
-                <Input
-                  type="date"
-                  id="endDate"
-                  placeholder="End Date"
-                  value={dateRange.endDate ?? ""}
-                  onChange={(e) => 
-                    setDateRange(prev => ({ ...prev, endDate: e.target.value || null }))
-                  }
-                />
-              </div>
-              <div className="flex gap-2">
-                <Button 
-                  variant="outline" 
-                  onClick={() => {
-                    const threeMonthsAgo = format(subMonths(new Date(), 3), "yyyy-MM-dd");
-                    setDateRange({ startDate: threeMonthsAgo, endDate: format(new Date(), "yyyy-MM-dd") });
-                  }}
-                  size="sm"
-                >
-                  Last 3 Months
-                </Button>
-                <Button 
-                  variant="outline" 
-                  onClick={() => setDateRange({ startDate: null, endDate: null })}
-                  size="sm"
-                >
-                  All Data
-                </Button>
-              </div>
-            </div>
-          </div>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-gray-600">
+            {describeImportConfig(config).join(" · ") || "Everything in the export"}
+          </p>
+          <ImportConfigDialog
+            config={config}
+            onChange={setConfig}
+            disabled={isProcessing}
+          />
         </CardContent>
       </Card>
 
@@ -396,12 +314,11 @@ export function HealthDataUpload({
               {getStatusText()}
             </p>
             
-            {dateRange.startDate && dateRange.endDate && (
-              <p className="text-sm text-blue-600">
-                Filtering data from {format(parseISO(dateRange.startDate), "MMM d, yyyy")} to{" "}
-                {format(parseISO(dateRange.endDate), "MMM d, yyyy")}
+            {describeImportConfig(config).map((line) => (
+              <p key={line} className="text-sm text-blue-600">
+                {line}
               </p>
-            )}
+            ))}
 
             {(uploadStatus === "uploading" || uploadStatus === "processing") &&
               progress.totalBytes > 0 && (
@@ -419,10 +336,17 @@ export function HealthDataUpload({
                       style={{ width: `${progress.percentage}%` }}
                     />
                   </div>
+                  {uploadStatus === "uploading" && resumedFrom !== null && (
+                    <p className="text-sm text-gray-600">
+                      Resumed previous upload from{" "}
+                      {formatFileSize(resumedFrom)}
+                    </p>
+                  )}
                   {progress.recordsProcessed > 0 && (
                     <p className="text-sm text-gray-600">
                       {progress.recordsProcessed.toLocaleString()} records
-                      processed
+                      processed, {progress.recordsInserted.toLocaleString()}{" "}
+                      saved
                     </p>
                   )}
                 </div>
@@ -431,7 +355,7 @@ export function HealthDataUpload({
             {uploadStatus === "idle" && (
               <p className="text-sm text-gray-500">
                 Export your health data from the Apple Health app and upload the
-                XML file here.{" "}
+                export.zip (or the export.xml inside it) here.{" "}
                 <strong>Large files (up to 5GB) are supported.</strong>
               </p>
             )}
@@ -448,7 +372,7 @@ export function HealthDataUpload({
             <li>Open the Health app on your iPhone</li>
             <li>Tap your profile picture in the top right</li>
             <li>Tap &ldquo;Export All Health Data&rdquo;</li>
-            <li>Share the export.xml file to your computer</li>
+            <li>Share the export.zip file to your computer</li>
             <li>
               Upload the file here (large files are processed on the server)
             </li>
@@ -462,10 +386,42 @@ export function HealthDataUpload({
             Processing Complete!
           </h4>
           <p className="text-sm text-green-700">
-            Successfully processed {progress.recordsProcessed.toLocaleString()}{" "}
-            health records from your Apple Health export. You can now view your
-            health data visualizations.
+            Successfully imported {progress.recordsInserted.toLocaleString()}{" "}
+            new health records from your Apple Health export. You can now view
+            your health data visualizations.
           </p>
+          {importSummary &&
+            (importSummary.recordsSkipped > 0 ||
+              importSummary.recordsConflicting > 0) && (
+              <p className="mt-1 text-sm text-green-700">
+                {importSummary.recordsSkipped.toLocaleString()} records were
+                already imported and skipped
+                {importSummary.recordsConflicting > 0 &&
+                  `; ${importSummary.recordsConflicting.toLocaleString()} differed from the stored value and were left unchanged`}
+                .
+              </p>
+            )}
+          {artifacts && (
+            <ul className="mt-2 list-inside list-disc text-sm text-green-700">
+              {artifacts.workoutRoutes.length > 0 && (
+                <li>{artifacts.workoutRoutes.length} workout routes found</li>
+              )}
+              {artifacts.electrocardiograms.length > 0 && (
+                <li>
+                  {artifacts.electrocardiograms.length} ECG recordings found
+                  {importSummary &&
+                    `, ${importSummary.electrocardiogramsImported} new`}
+                </li>
+              )}
+              {(!!artifacts.cdaXml || artifacts.clinicalRecords.length > 0) && (
+                <li>
+                  Clinical records found
+                  {importSummary &&
+                    `, ${importSummary.clinicalRecordsImported} new`}
+                </li>
+              )}
+            </ul>
+          )}
         </div>
       )}
     </div>
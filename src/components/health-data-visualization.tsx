@@ -1,15 +1,13 @@
 "use client";
 
 import {
-  eachDayOfInterval,
-  endOfDay,
-  endOfWeek,
+  endOfISOWeek,
   format,
   getDay,
   getWeek,
   parseISO,
-  startOfDay,
-  startOfWeek
+  setISOWeek,
+  startOfISOWeek
 } from "date-fns";
 import { useMemo, useState } from "react";
 import {
@@ -17,7 +15,6 @@ import {
   BarChart,
   CartesianGrid,
   Cell,
-  ComposedChart,
   Legend,
   Line,
   LineChart,
@@ -35,25 +32,20 @@ import {
   XAxis,
   YAxis
 } from "recharts";
-import { HEALTH_DATA_TYPES, METRIC_DISPLAY_NAMES } from "~/types/health";
-
-interface HealthRecord {
-  type: string;
-  value: string;
-  unit?: string;
-  startDate: string;
-  endDate: string;
-}
+import { BloodPressureAnalysis } from "~/components/blood-pressure-analysis";
+import { SleepAnalysis } from "~/components/sleep-analysis";
+import { getHealthType } from "~/lib/health-types";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { HEALTH_DATA_TYPES } from "~/types/health";
 
 interface HealthDataVisualizationProps {
-  healthRecords: HealthRecord[]; // Health records passed from dashboard
   selectedMetrics: string[]; // Selected metric types to visualize
+  dateRange?: { startDate: Date; endDate: Date }; // Limits every chart and summary; full history when omitted
+  initialTimeFrame?: TimeFrame;
 }
 
 interface ChartData {
   date: string;
-  week?: string;
-  month?: string;
   [key: string]: string | number | undefined;
 }
 
@@ -64,9 +56,9 @@ interface InsightData {
   change?: number; // Percentage change
 }
 
-type TimeFrame = 'daily' | 'weekly' | 'monthly';
+export type TimeFrame = 'daily' | 'weekly' | 'monthly';
 
-const COLORS = [
+export const COLORS = [
   "#8884d8",
   "#82ca9d",
   "#ffc658",
@@ -79,216 +71,80 @@ const COLORS = [
   "#ff6347",
 ] as const;
 
+// Pivot getAggregates series into one row per bucket with a column per metric
+export function toChartData(
+  series: RouterOutputs["health"]["getAggregates"] | undefined,
+  dateFormat: string,
+): ChartData[] {
+  const rows = new Map<string, ChartData>();
+
+  for (const metric of series ?? []) {
+    for (const point of metric.points) {
+      // Buckets start at UTC midnight; format the calendar date, not the local time
+      const day = parseISO(point.start.toISOString().slice(0, 10));
+      const date = format(day, dateFormat);
+      const row = rows.get(date) ?? { date };
+      row[metric.type] = point.value;
+      rows.set(date, row);
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
 export function HealthDataVisualization({
-  healthRecords,
   selectedMetrics,
+  dateRange,
+  initialTimeFrame = 'daily',
 }: HealthDataVisualizationProps) {
-  const [timeFrame, setTimeFrame] = useState<TimeFrame>('daily');
+  const [timeFrame, setTimeFrame] = useState<TimeFrame>(initialTimeFrame);
   const [showHeatmap, setShowHeatmap] = useState(false);
   const [showInsights, setShowInsights] = useState(true);
   const [showSleepAnalysis, setShowSleepAnalysis] = useState(false);
   const [showWeeklySummary, setShowWeeklySummary] = useState(false);
+  const [showBloodPressure, setShowBloodPressure] = useState(false);
 
-  // Generate time series data with different aggregation periods
-  const chartData = useMemo(() => {
-    if (!healthRecords?.length || !selectedMetrics?.length) return [];
-
-    // Filter records by selected metrics
-    const filteredRecords = healthRecords.filter((record) =>
-      selectedMetrics.includes(record.type),
-    );
-
-    if (!filteredRecords.length) return [];
-
-    // Get date range
-    const dates = filteredRecords.map((record) =>
-      startOfDay(new Date(record.startDate)),
-    );
-    const minDate = new Date(Math.min(...dates.map((d) => d.getTime())));
-    const maxDate = new Date(Math.max(...dates.map((d) => d.getTime())));
-
-    // Create daily data points
-    const dateRange = eachDayOfInterval({ start: minDate, end: maxDate });
-
-    const dailyData: ChartData[] = dateRange.map((date) => {
-      const dateStr = format(date, "yyyy-MM-dd");
-      const weekStr = format(date, "yyyy-'W'ww"); // Year-Week format
-      const monthStr = format(date, "yyyy-MM"); // Year-Month format
-      const dayStart = startOfDay(date);
-      const dayEnd = endOfDay(date);
-
-      const dataPoint: ChartData = { 
-        date: dateStr,
-        week: weekStr,
-        month: monthStr
-      };
-
-      selectedMetrics.forEach((metric) => {
-        const dayRecords = filteredRecords.filter((record) => {
-          const recordDate = new Date(record.startDate);
-          return (
-            record.type === metric &&
-            recordDate >= dayStart &&
-            recordDate <= dayEnd
-          );
-        });
-
-        if (dayRecords.length > 0) {
-          // For step count and similar metrics, sum the values
-          if (
-            metric === HEALTH_DATA_TYPES.STEP_COUNT ||
-            metric === HEALTH_DATA_TYPES.DISTANCE_WALKING_RUNNING ||
-            metric === HEALTH_DATA_TYPES.ACTIVE_ENERGY_BURNED ||
-            metric === HEALTH_DATA_TYPES.FLIGHTS_CLIMBED ||
-            metric === HEALTH_DATA_TYPES.STAND_HOURS ||
-            metric === HEALTH_DATA_TYPES.EXERCISE_TIME
-          ) {
-            dataPoint[metric] = dayRecords.reduce(
-              (sum, record) => sum + parseFloat(record.value),
-              0,
-            );
-          } else {
-            // For other metrics, use the average
-            const sum = dayRecords.reduce(
-              (sum, record) => sum + parseFloat(record.value),
-              0,
-            );
-            dataPoint[metric] = sum / dayRecords.length;
-          }
-        }
-      });
-
-      return dataPoint;
-    });
+  // Daily, weekly and monthly series are bucketed on the server over the full history or the given range
+  const { data: dailySeries } = api.health.getAggregates.useQuery(
+    { metrics: selectedMetrics, bucket: "day", ...dateRange },
+    { enabled: selectedMetrics.length > 0 },
+  );
+  const { data: weeklySeries } = api.health.getAggregates.useQuery(
+    { metrics: selectedMetrics, bucket: "week", ...dateRange },
+    { enabled: selectedMetrics.length > 0 },
+  );
+  const { data: monthlySeries } = api.health.getAggregates.useQuery(
+    { metrics: selectedMetrics, bucket: "month", ...dateRange },
+    { enabled: selectedMetrics.length > 0 },
+  );
 
-    return dailyData.filter((data) =>
-      selectedMetrics.some((metric) => data[metric] !== undefined),
+  // Summary cards and the type distribution come from the daily rollups, so they cover every record
+  const { data: metricSummaries = [] } =
+    api.health.getMetricSummaries.useQuery(
+      { metrics: selectedMetrics, ...dateRange },
+      { enabled: selectedMetrics.length > 0 },
     );
-  }, [healthRecords, selectedMetrics]);
-
-  // Aggregate data by weekly or monthly periods
-  const aggregatedData = useMemo(() => {
-    if (!chartData.length) return { weekly: [], monthly: [] };
+  const { data: typeCounts } = api.health.getDataTypeCounts.useQuery({
+    ...dateRange,
+  });
 
-    // Group by week
-    const weeklyData = chartData.reduce((acc, dataPoint) => {
-      const weekKey = dataPoint.week!;
-      acc[weekKey] ??= {
-          date: weekKey,
-          counts: {} as Record<string, number>,
-          sums: {} as Record<string, number>,
-        };
-
-      selectedMetrics.forEach(metric => {
-        if (dataPoint[metric] !== undefined) {
-          acc[weekKey]!.sums[metric] = (acc[weekKey]!.sums[metric] ?? 0) + (dataPoint[metric] as number);
-          acc[weekKey]!.counts[metric] = (acc[weekKey]!.counts[metric] ?? 0) + 1;
-        }
-      });
-
-      return acc;
-    }, {} as Record<string, { date: string; counts: Record<string, number>; sums: Record<string, number> }>);
-
-    // Group by month
-    const monthlyData = chartData.reduce((acc, dataPoint) => {
-      const monthKey = dataPoint.month!;
-      acc[monthKey] ??= {
-          date: monthKey,
-          counts: {} as Record<string, number>,
-          sums: {} as Record<string, number>,
-        };
-
-      selectedMetrics.forEach(metric => {
-        if (dataPoint[metric] !== undefined) {
-          acc[monthKey]!.sums[metric] = (acc[monthKey]!.sums[metric] ?? 0) + (dataPoint[metric] as number);
-          acc[monthKey]!.counts[metric] = (acc[monthKey]!.counts[metric] ?? 0) + 1;
-        }
-      });
-
-      return acc;
-    }, {} as Record<string, { date: string; counts: Record<string, number>; sums: Record<string, number> }>);
-
-    // Convert to arrays and calculate averages
-    const weeklyResult = Object.values(weeklyData).map(week => {
-      const result: ChartData = { date: week.date };
-      
-      selectedMetrics.forEach(metric => {
-        if (week.counts[metric]) {
-          // For step count and similar metrics, use sum
-          if (
-            metric === HEALTH_DATA_TYPES.STEP_COUNT ||
-            metric === HEALTH_DATA_TYPES.DISTANCE_WALKING_RUNNING ||
-            metric === HEALTH_DATA_TYPES.ACTIVE_ENERGY_BURNED ||
-            metric === HEALTH_DATA_TYPES.FLIGHTS_CLIMBED
-          ) {
-            result[metric] = week.sums[metric];
-          } else {
-            // For other metrics like heart rate, use average
-            result[metric] = week.sums[metric]! / week.counts[metric];
-          }
-        }
-      });
-      
-      return result;
-    }).sort((a, b) => a.date.localeCompare(b.date));
-
-    const monthlyResult = Object.values(monthlyData).map(month => {
-      const result: ChartData = { date: month.date };
-      
-      selectedMetrics.forEach(metric => {
-        if (month.counts[metric]) {
-          // For step count and similar metrics, use sum
-          if (
-            metric === HEALTH_DATA_TYPES.STEP_COUNT ||
-            metric === HEALTH_DATA_TYPES.DISTANCE_WALKING_RUNNING ||
-            metric === HEALTH_DATA_TYPES.ACTIVE_ENERGY_BURNED ||
-            metric === HEALTH_DATA_TYPES.FLIGHTS_CLIMBED
-          ) {
-            result[metric] = month.sums[metric];
-          } else {
-            // For other metrics like heart rate, use average
-            result[metric] = month.sums[metric]! / month.counts[metric];
-          }
-        }
-      });
-      
-      return result;
-    }).sort((a, b) => a.date.localeCompare(b.date));
-
-    return {
-      weekly: weeklyResult,
-      monthly: monthlyResult
-    };
-  }, [chartData, selectedMetrics]);
+  // Sleep is stitched into nightly sessions on the server
+  const { data: sleepSessions } = api.health.getSleepSessions.useQuery({});
+  const { data: bloodPressure } = api.health.getBloodPressure.useQuery({});
 
-  // Calculate summary statistics for each metric
-  const getMetricSummary = useMemo(() => {
-    return selectedMetrics
-      .map((metric) => {
-        const records = healthRecords.filter(
-          (record) => record.type === metric,
-        );
-        if (!records.length) return null;
-
-        const values = records
-          .map((record) => parseFloat(record.value))
-          .filter((v) => !isNaN(v));
-        const displayName = METRIC_DISPLAY_NAMES[metric]?.name ?? metric;
-        const unit = records[0]?.unit ?? "";
+  const chartData = useMemo(
+    () => toChartData(dailySeries, "yyyy-MM-dd"),
+    [dailySeries],
+  );
 
-        return {
-          type: metric,
-          displayName,
-          unit,
-          count: records.length,
-          average: values.reduce((sum, val) => sum + val, 0) / values.length,
-          min: Math.min(...values),
-          max: Math.max(...values),
-          latest: values[values.length - 1],
-        };
-      })
-      .filter(Boolean);
-  }, [healthRecords, selectedMetrics]);
+  const aggregatedData = useMemo(
+    () => ({
+      // ISO weeks, starting on Monday like Postgres' date_trunc('week')
+      weekly: toChartData(weeklySeries, "RRRR-'W'II"),
+      monthly: toChartData(monthlySeries, "yyyy-MM"),
+    }),
+    [weeklySeries, monthlySeries],
+  );
 
   // Calculate correlation data between metrics
   const correlationData = useMemo(() => {
@@ -320,8 +176,8 @@ export function HealthDataVisualization({
       return {
         xMetric: metricX,
         yMetric: metricY,
-        xName: METRIC_DISPLAY_NAMES[metricX]?.name ?? metricX,
-        yName: METRIC_DISPLAY_NAMES[metricY]?.name ?? metricY,
+        xName: getHealthType(metricX).name,
+        yName: getHealthType(metricY).name,
         points
       };
     }).filter(data => data.points.length > 0);
@@ -329,94 +185,16 @@ export function HealthDataVisualization({
 
   // Calculate distribution of data types
   const pieData = useMemo(() => {
-    if (!healthRecords?.length) return [];
-    
-    const typeCounts = healthRecords.reduce(
-      (acc, record) => {
-        const displayName =
-          METRIC_DISPLAY_NAMES[record.type]?.name ?? record.type;
-        acc[displayName] = (acc[displayName] ?? 0) + 1;
-        return acc;
-      },
-      {} as Record<string, number>,
-    );
+    if (!typeCounts?.length) return [];
 
-    return Object.entries(typeCounts)
-      .map(([name, value]) => ({ name, value }))
+    return typeCounts
+      .map(({ type, count }) => ({
+        name: getHealthType(type).name,
+        value: count,
+      }))
       .sort((a, b) => b.value - a.value)
       .slice(0, 10); // Top 10 data types
-  }, [healthRecords]);
-
-  // Process sleep analysis data
-  const sleepData = useMemo(() => {
-    if (!healthRecords.length) return [];
-    
-    const sleepRecords = healthRecords.filter(
-      record => record.type === HEALTH_DATA_TYPES.SLEEP_ANALYSIS
-    );
-    
-    if (!sleepRecords.length) return [];      // Group sleep records by day
-    const sleepByDay = sleepRecords.reduce((acc, record) => {
-      const date = format(new Date(record.startDate), 'yyyy-MM-dd');
-      
-      acc[date] ??= {
-        inBed: [] as { start: Date; end: Date }[],
-        asleep: [] as { start: Date; end: Date }[],
-      };
-      
-      // Value: 0 = InBed, 1 = Asleep, 2 = Awake
-      if (record.value === '0') {
-        acc[date].inBed.push({
-          start: new Date(record.startDate),
-          end: new Date(record.endDate),
-        });
-      } else if (record.value === '1') {
-        acc[date].asleep.push({
-          start: new Date(record.startDate),
-          end: new Date(record.endDate),
-        });
-      }
-      
-      return acc;
-    }, {} as Record<string, { inBed: { start: Date; end: Date }[]; asleep: { start: Date; end: Date }[] }>);
-    
-    // Calculate sleep duration and quality for each day
-    return Object.entries(sleepByDay).map(([date, data]) => {
-      // Calculate total sleep duration in hours
-      const totalSleepMs = data.asleep.reduce(
-        (total, period) => total + (period.end.getTime() - period.start.getTime()),
-        0
-      );
-      const sleepDuration = totalSleepMs / (1000 * 60 * 60); // Convert to hours
-      
-      // Find earliest and latest times
-      const allTimes = [...data.inBed, ...data.asleep].flatMap(period => [period.start, period.end]);
-      const earliestTime = new Date(Math.min(...allTimes.map(t => t.getTime())));
-      const latestTime = new Date(Math.max(...allTimes.map(t => t.getTime())));
-      
-      // Get the last asleep record safely
-      const lastAsleepIndex = data.asleep.length - 1;
-      const lastAsleep = lastAsleepIndex >= 0 ? data.asleep[lastAsleepIndex] : null;
-      
-      const asleepStart = data.asleep.length > 0 && data.asleep[0] ? format(data.asleep[0].start, 'HH:mm') : '';
-      const asleepEnd = lastAsleep ? format(lastAsleep.end, 'HH:mm') : '';
-      
-      return {
-        date,
-        duration: sleepDuration,
-        inBedStart: format(earliestTime, 'HH:mm'),
-        inBedEnd: format(latestTime, 'HH:mm'),
-        asleepStart,
-        asleepEnd,
-        // Simple sleep quality metric (proportion of in-bed time spent asleep)
-        quality: data.inBed.length 
-          ? Math.min(100, Math.round((sleepDuration / 
-              (data.inBed.reduce((total, period) => 
-                total + (period.end.getTime() - period.start.getTime()), 0) / (1000 * 60 * 60))) * 100))
-          : undefined
-      };
-    }).sort((a, b) => a.date.localeCompare(b.date));
-  }, [healthRecords]);
+  }, [typeCounts]);
 
   // Generate calendar heatmap data
   const calendarData = useMemo(() => {
@@ -501,9 +279,9 @@ export function HealthDataVisualization({
       const year = parseInt(yearStr);
       const weekNum = parseInt(weekStr);
       
-      // Calculate start and end dates of the week
-      const startDate = startOfWeek(new Date(year, 0, 1 + (weekNum - 1) * 7));
-      const endDate = endOfWeek(startDate);
+      // Calculate start and end dates of the ISO week; January 4th is always in week 1
+      const startDate = startOfISOWeek(setISOWeek(new Date(year, 0, 4), weekNum));
+      const endDate = endOfISOWeek(startDate);
       
       return {
         week: week.date,
@@ -530,7 +308,7 @@ export function HealthDataVisualization({
       
       if (!metricData) return;
       
-      const displayName = METRIC_DISPLAY_NAMES[metric]?.name ?? metric;
+      const displayName = getHealthType(metric).name;
       
       // Generate insights based on trends
       if (metricData.trend === 'up' && metricData.percentChange > 20) {
@@ -603,7 +381,7 @@ export function HealthDataVisualization({
     return insights.slice(0, 5); // Limit to top 5 insights
   }, [selectedMetrics, weeklySummaries]);
 
-  if (!healthRecords?.length && !pieData.length) {
+  if (typeCounts?.length === 0) {
     return (
       <div className="py-12 text-center">
         <p className="text-gray-500">No data available for visualization</p>
@@ -644,16 +422,26 @@ export function HealthDataVisualization({
           className={`rounded px-2 py-1 text-xs font-medium ${
             showSleepAnalysis ? 'bg-indigo-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
           }`}
-          disabled={!sleepData.length}
+          disabled={!sleepSessions?.length}
         >
           {showSleepAnalysis ? 'Hide Sleep Analysis' : 'Show Sleep Analysis'}
         </button>
+        <button
+          onClick={() => setShowBloodPressure(!showBloodPressure)}
+          className={`rounded px-2 py-1 text-xs font-medium ${
+            showBloodPressure ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+          disabled={!bloodPressure?.readings.length}
+        >
+          {showBloodPressure ? 'Hide Blood Pressure' : 'Show Blood Pressure'}
+        </button>
         <button
           onClick={() => {
             setShowInsights(true);
             setShowHeatmap(true);
             setShowWeeklySummary(true);
             setShowSleepAnalysis(true);
+            setShowBloodPressure(true);
           }}
           className="rounded bg-blue-100 px-2 py-1 text-xs font-medium text-blue-700 hover:bg-blue-200"
         >
@@ -714,38 +502,41 @@ export function HealthDataVisualization({
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {getMetricSummary.map(
-          (summary) =>
-            summary && (
-              <div
-                key={summary.type}
-                className="rounded-lg border bg-white p-6 shadow"
-              >
-                <h3 className="mb-2 font-semibold text-gray-900">
-                  {summary.displayName}
-                </h3>
-                <div className="space-y-1 text-sm">
-                  <p className="text-gray-600">
-                    Average:{" "}
-                    <span className="font-medium">
-                      {summary.average.toFixed(2)} {summary.unit}
-                    </span>
-                  </p>
-                  <p className="text-gray-600">
-                    Range:{" "}
-                    <span className="font-medium">
-                      {summary.min.toFixed(1)} - {summary.max.toFixed(1)}{" "}
-                      {summary.unit}
-                    </span>
-                  </p>
-                  <p className="text-gray-600">
-                    Data Points:{" "}
-                    <span className="font-medium">{summary.count}</span>
-                  </p>
-                </div>
+        {metricSummaries.map((summary) => {
+          // Cumulative metrics are summarised by their daily totals
+          const daily =
+            getHealthType(summary.type).aggregation === "cumulative";
+
+          return (
+            <div
+              key={summary.type}
+              className="rounded-lg border bg-white p-6 shadow"
+            >
+              <h3 className="mb-2 font-semibold text-gray-900">
+                {getHealthType(summary.type).name}
+              </h3>
+              <div className="space-y-1 text-sm">
+                <p className="text-gray-600">
+                  {daily ? "Daily average" : "Average"}:{" "}
+                  <span className="font-medium">
+                    {summary.average.toFixed(2)} {summary.unit}
+                  </span>
+                </p>
+                <p className="text-gray-600">
+                  {daily ? "Daily range" : "Range"}:{" "}
+                  <span className="font-medium">
+                    {summary.min.toFixed(1)} - {summary.max.toFixed(1)}{" "}
+                    {summary.unit}
+                  </span>
+                </p>
+                <p className="text-gray-600">
+                  Data Points:{" "}
+                  <span className="font-medium">{summary.count}</span>
+                </p>
               </div>
-            ),
-        )}
+            </div>
+          );
+        })}
       </div>
 
       {/* Weekly Summary */}
@@ -760,7 +551,7 @@ export function HealthDataVisualization({
                 </h4>
                 <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
                   {Object.entries(weekData.metrics).map(([metric, data]) => {
-                    const displayName = METRIC_DISPLAY_NAMES[metric]?.name ?? metric;
+                    const displayName = getHealthType(metric).name;
                     return (
                       <div key={metric} className="rounded border border-gray-100 bg-gray-50 p-3">
                         <div className="flex items-center justify-between">
@@ -794,92 +585,18 @@ export function HealthDataVisualization({
       )}
 
       {/* Sleep Analysis */}
-      {showSleepAnalysis && sleepData.length > 0 && (
+      {showSleepAnalysis && sleepSessions && sleepSessions.length > 0 && (
         <div className="rounded-lg bg-white p-6 shadow">
           <h3 className="mb-4 text-lg font-semibold">Sleep Analysis</h3>
-          <div className="space-y-4">
-            <div className="h-96">
-              <ResponsiveContainer width="100%" height="100%">
-                <ComposedChart data={sleepData.slice(-14)}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="date" 
-                    tickFormatter={(value: string) => format(parseISO(value), "MM/dd")}
-                  />
-                  <YAxis yAxisId="left" orientation="left" unit="hrs" domain={[0, 12]} />
-                  <YAxis yAxisId="right" orientation="right" unit="%" domain={[0, 100]} />
-                  <Tooltip 
-                    formatter={(value, name) => {
-                      if (name === 'duration') return [`${Number(value).toFixed(1)} hrs`, 'Sleep Duration'];
-                      if (name === 'quality') return [`${Number(value).toFixed(0)}%`, 'Sleep Quality'];
-                      return [value, name];
-                    }}
-                    labelFormatter={(value) => format(parseISO(value as string), "EEEE, MMM d, yyyy")}
-                  />
-                  <Legend />
-                  <Bar 
-                    yAxisId="left" 
-                    dataKey="duration" 
-                    fill="#8884d8" 
-                    name="Sleep Duration" 
-                    barSize={20}
-                  />
-                  <Line 
-                    yAxisId="right" 
-                    type="monotone" 
-                    dataKey="quality" 
-                    stroke="#82ca9d" 
-                    name="Sleep Quality" 
-                    dot={true}
-                  />
-                </ComposedChart>
-              </ResponsiveContainer>
-            </div>
-            <div className="overflow-x-auto">
-              <table className="min-w-full divide-y divide-gray-200">
-                <thead className="bg-gray-50">
-                  <tr>
-                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Date
-                    </th>
-                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Bedtime
-                    </th>
-                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Wake Time
-                    </th>
-                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Duration
-                    </th>
-                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Quality
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="bg-white divide-y divide-gray-200">
-                  {sleepData.slice(-7).reverse().map(sleep => (
-                    <tr key={sleep.date}>
-                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-900">
-                        {format(parseISO(sleep.date), "EEE, MMM d")}
-                      </td>
-                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                        {sleep.inBedStart}
-                      </td>
-                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                        {sleep.inBedEnd}
-                      </td>
-                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                        {sleep.duration.toFixed(1)} hrs
-                      </td>
-                      <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">
-                        {sleep.quality !== undefined ? `${sleep.quality}%` : '-'}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          </div>
+          <SleepAnalysis sessions={sleepSessions} />
+        </div>
+      )}
+
+      {/* Blood Pressure */}
+      {showBloodPressure && bloodPressure && bloodPressure.readings.length > 0 && (
+        <div className="rounded-lg bg-white p-6 shadow">
+          <h3 className="mb-4 text-lg font-semibold">Blood Pressure</h3>
+          <BloodPressureAnalysis data={bloodPressure} />
         </div>
       )}
 
@@ -889,7 +606,7 @@ export function HealthDataVisualization({
           <div className="mb-4 flex items-center justify-between">
             <h3 className="text-lg font-semibold">Activity Calendar</h3>
             <div className="text-sm text-gray-500">
-              Showing {METRIC_DISPLAY_NAMES[selectedMetrics[0] ?? '']?.name ?? selectedMetrics[0] ?? 'Activity'}
+              Showing {selectedMetrics[0] ? getHealthType(selectedMetrics[0]).name : 'Activity'}
             </div>
           </div>
           <div className="grid grid-cols-7 gap-1">
@@ -1013,12 +730,12 @@ export function HealthDataVisualization({
                 }}
                 formatter={(value, name) => [
                   `${Number(value).toFixed(2)}`,
-                  METRIC_DISPLAY_NAMES[name as string]?.name ?? name,
+                  getHealthType(name as string).name,
                 ]}
               />
               <Legend
                 formatter={(value: string) =>
-                  METRIC_DISPLAY_NAMES[value]?.name ?? value
+                  getHealthType(value).name
                 }
               />
               {selectedMetrics.map((metric, index) => (
@@ -1057,7 +774,7 @@ export function HealthDataVisualization({
                   labelFormatter={(value: string) => format(parseISO(value), "PPP")}
                   formatter={(value, name) => [
                     `${Number(value).toFixed(2)}`,
-                    METRIC_DISPLAY_NAMES[name as string]?.name ?? name,
+                    getHealthType(name as string).name,
                   ]}
                 />
                 <Legend />
@@ -1094,13 +811,13 @@ export function HealthDataVisualization({
                     type="number" 
                     dataKey="x" 
                     name={firstCorrelation.xName ?? 'X Metric'} 
-                    unit={getMetricSummary.find(s => s?.type === firstCorrelation.xMetric)?.unit ?? ''}
+                    unit={metricSummaries.find(s => s.type === firstCorrelation.xMetric)?.unit ?? ''}
                   />
                   <YAxis 
                     type="number" 
                     dataKey="y" 
                     name={firstCorrelation.yName ?? 'Y Metric'}
-                    unit={getMetricSummary.find(s => s?.type === firstCorrelation.yMetric)?.unit ?? ''}
+                    unit={metricSummaries.find(s => s.type === firstCorrelation.yMetric)?.unit ?? ''}
                   />
                   <Tooltip 
                     cursor={{ strokeDasharray: '3 3' }}
@@ -1162,7 +879,7 @@ export function HealthDataVisualization({
             <ResponsiveContainer width="100%" height="100%">
               <RadarChart outerRadius={150} width={500} height={500} data={
                 selectedMetrics.map(metric => {
-                  const summary = getMetricSummary.find(s => s?.type === metric);
+                  const summary = metricSummaries.find(s => s.type === metric);
                   if (!summary) return null;
                   
                   // Calculate a normalized score (0-100) for this metric
@@ -1205,7 +922,7 @@ export function HealthDataVisualization({
                   }
                   
                   return {
-                    metric: METRIC_DISPLAY_NAMES[metric]?.name ?? metric,
+                    metric: getHealthType(metric).name,
                     value: normalizedValue,
                     fullMark: 100,
                   };
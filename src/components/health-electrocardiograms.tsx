@@ -0,0 +1,160 @@
+"use client";
+
+import { format } from "date-fns";
+import { HeartPulse, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { classificationColor, ecgDuration } from "~/lib/electrocardiogram";
+import { api } from "~/trpc/react";
+import { ElectrocardiogramTrace } from "./electrocardiogram-trace";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+function ClassificationBadge({ classification }: { classification: string }) {
+  const color = classificationColor(classification);
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium"
+      style={{ backgroundColor: `${color}1a`, color }}
+    >
+      <span
+        className="inline-block h-2 w-2 rounded-full"
+        style={{ backgroundColor: color }}
+      />
+      {classification}
+    </span>
+  );
+}
+
+export function HealthElectrocardiograms() {
+  const [classification, setClassification] = useState<string>("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: classifications } =
+    api.electrocardiogram.getClassifications.useQuery();
+
+  const { data: recordings, isLoading } =
+    api.electrocardiogram.getElectrocardiograms.useQuery({
+      classification: classification || undefined,
+    });
+
+  const { data: selected, isLoading: isLoadingRecording } =
+    api.electrocardiogram.getElectrocardiogram.useQuery(
+      { electrocardiogramId: selectedId ?? "" },
+      { enabled: !!selectedId },
+    );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!recordings || (recordings.length === 0 && !classification)) {
+    return (
+      <div className="py-12 text-center">
+        <HeartPulse className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-semibold text-gray-900">
+          No ECG recordings
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Upload an export.zip with an electrocardiograms folder to see your
+          recordings here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Recordings</CardTitle>
+          <select
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            value={classification}
+            onChange={(e) => {
+              setClassification(e.target.value);
+              setSelectedId(null);
+            }}
+          >
+            <option value="">All results</option>
+            {classifications?.map((item) => (
+              <option key={item.classification} value={item.classification}>
+                {item.classification} ({item.count})
+              </option>
+            ))}
+          </select>
+        </CardHeader>
+        <CardContent>
+          <ul className="max-h-[600px] divide-y divide-gray-200 overflow-y-auto">
+            {recordings.map((recording) => (
+              <li key={recording.id}>
+                <button
+                  className={`w-full px-2 py-3 text-left hover:bg-gray-50 ${
+                    recording.id === selectedId ? "bg-blue-50" : ""
+                  }`}
+                  onClick={() => setSelectedId(recording.id)}
+                >
+                  <p className="text-sm font-medium text-gray-900">
+                    {format(recording.recordedAt, "MMM d, yyyy h:mm a")}
+                  </p>
+                  <div className="mt-1">
+                    <ClassificationBadge
+                      classification={recording.classification}
+                    />
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>
+            {selected
+              ? format(selected.recordedAt, "EEEE, MMM d, yyyy h:mm a")
+              : "Recording"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!selectedId && (
+            <p className="text-sm text-gray-500">
+              Select a recording to see its trace.
+            </p>
+          )}
+          {selectedId && isLoadingRecording && (
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          )}
+          {selected && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                <ClassificationBadge classification={selected.classification} />
+                <span>
+                  {Math.round(
+                    ecgDuration(selected.voltages, selected.sampleRate),
+                  )}
+                  s at {selected.sampleRate} Hz
+                </span>
+                {selected.lead && <span>{selected.lead}</span>}
+                {selected.device && <span>{selected.device}</span>}
+              </div>
+              {selected.symptoms.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Symptoms: {selected.symptoms.join(", ")}
+                </p>
+              )}
+              <ElectrocardiogramTrace
+                voltages={selected.voltages}
+                sampleRate={selected.sampleRate}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { format } from "date-fns";
+import { Dumbbell, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { api } from "~/trpc/react";
+import type { RoutePoint, RouteSplit } from "~/types/health";
+import { WorkoutRouteMap } from "./workout-route-map";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+// "HKWorkoutActivityTypeHighIntensityIntervalTraining" -> "High Intensity Interval Training"
+const formatHealthKitName = (name: string) =>
+  name
+    .replace(
+      /^HK(WorkoutActivityType|WorkoutEventType|QuantityTypeIdentifier)/,
+      "",
+    )
+    .replace(/([a-z])([A-Z])/g, "$1 $2");
+
+const formatQuantity = (value?: number | null, unit?: string | null) =>
+  value === null || value === undefined
+    ? "—"
+    : `${Number(value.toFixed(2)).toLocaleString()}${unit ? ` ${unit}` : ""}`;
+
+export function HealthWorkouts() {
+  const [activityType, setActivityType] = useState<string>("");
+  const [selectedWorkoutId, setSelectedWorkoutId] = useState<string | null>(
+    null,
+  );
+
+  const { data: activityTypes } = api.workout.getActivityTypes.useQuery();
+
+  const { data: workouts, isLoading } = api.workout.getWorkouts.useQuery({
+    activityTypes: activityType ? [activityType] : undefined,
+    limit: 200,
+  });
+
+  const { data: selectedWorkout, isLoading: isLoadingWorkout } =
+    api.workout.getWorkout.useQuery(
+      { workoutId: selectedWorkoutId ?? "" },
+      { enabled: !!selectedWorkoutId },
+    );
+
+  // MetadataEntry key/value pairs, e.g. HKIndoorWorkout, HKElevationAscended
+  const metadata = selectedWorkout?.metadata as Record<string, string> | null;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (!workouts || (workouts.length === 0 && !activityType)) {
+    return (
+      <div className="py-12 text-center">
+        <Dumbbell className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-semibold text-gray-900">
+          No workouts
+        </h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Upload an Apple Health export that contains workouts to see them here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Workouts</CardTitle>
+          <select
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+            value={activityType}
+            onChange={(e) => {
+              setActivityType(e.target.value);
+              setSelectedWorkoutId(null);
+            }}
+          >
+            <option value="">All activities</option>
+            {activityTypes?.map((type) => (
+              <option key={type.activityType} value={type.activityType}>
+                {formatHealthKitName(type.activityType)} ({type.count})
+              </option>
+            ))}
+          </select>
+        </CardHeader>
+        <CardContent>
+          <ul className="max-h-[600px] divide-y divide-gray-200 overflow-y-auto">
+            {workouts.map((workout) => (
+              <li key={workout.id}>
+                <button
+                  className={`w-full px-2 py-3 text-left hover:bg-gray-50 ${
+                    workout.id === selectedWorkoutId ? "bg-blue-50" : ""
+                  }`}
+                  onClick={() => setSelectedWorkoutId(workout.id)}
+                >
+                  <div className="flex justify-between">
+                    <span className="text-sm font-medium text-gray-900">
+                      {formatHealthKitName(workout.activityType)}
+                    </span>
+                    <span className="text-sm text-gray-500">
+                      {format(workout.startDate, "MMM d, yyyy h:mm a")}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex gap-4 text-sm text-gray-500">
+                    <span>
+                      {formatQuantity(workout.duration, workout.durationUnit)}
+                    </span>
+                    {workout.totalDistance !== null && (
+                      <span>
+                        {formatQuantity(
+                          workout.totalDistance,
+                          workout.totalDistanceUnit,
+                        )}
+                      </span>
+                    )}
+                    {workout.totalEnergyBurned !== null && (
+                      <span>
+                        {formatQuantity(
+                          workout.totalEnergyBurned,
+                          workout.totalEnergyBurnedUnit,
+                        )}
+                      </span>
+                    )}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {selectedWorkout
+              ? formatHealthKitName(selectedWorkout.activityType)
+              : "Workout Details"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!selectedWorkoutId && (
+            <p className="text-sm text-gray-500">
+              Select a workout to see its statistics and events.
+            </p>
+          )}
+          {selectedWorkoutId && isLoadingWorkout && (
+            <Loader2 className="h-6 w-6 animate-spin text-blue-500" />
+          )}
+          {selectedWorkout && (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                {format(selectedWorkout.startDate, "MMM d, yyyy h:mm a")} –{" "}
+                {format(selectedWorkout.endDate, "h:mm a")}
+                {selectedWorkout.sourceName &&
+                  ` · ${selectedWorkout.sourceName}`}
+              </p>
+
+              {selectedWorkout.route && (
+                <WorkoutRouteMap
+                  points={
+                    selectedWorkout.route.points as unknown as RoutePoint[]
+                  }
+                  splits={
+                    selectedWorkout.route.splits as unknown as RouteSplit[]
+                  }
+                  distance={selectedWorkout.route.distance}
+                  elevationGain={selectedWorkout.route.elevationGain}
+                />
+              )}
+
+              {selectedWorkout.statistics.length > 0 && (
+                <div>
+                  <h4 className="mb-2 text-sm font-medium text-gray-900">
+                    Statistics
+                  </h4>
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500">
+                      <tr>
+                        <th className="py-1 font-medium">Metric</th>
+                        <th className="py-1 font-medium">Total</th>
+                        <th className="py-1 font-medium">Average</th>
+                        <th className="py-1 font-medium">Min / Max</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-gray-700">
+                      {selectedWorkout.statistics.map((statistic) => (
+                        <tr key={statistic.id}>
+                          <td className="py-1">
+                            {formatHealthKitName(statistic.type)}
+                          </td>
+                          <td className="py-1">
+                            {formatQuantity(statistic.sum, statistic.unit)}
+                          </td>
+                          <td className="py-1">
+                            {formatQuantity(statistic.average, statistic.unit)}
+                          </td>
+                          <td className="py-1">
+                            {statistic.minimum !== null &&
+                            statistic.maximum !== null
+                              ? `${formatQuantity(statistic.minimum)} / ${formatQuantity(statistic.maximum, statistic.unit)}`
+                              : "—"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {selectedWorkout.events.length > 0 && (
+                <div>
+                  <h4 className="mb-2 text-sm font-medium text-gray-900">
+                    Events
+                  </h4>
+                  <ul className="space-y-1 text-sm text-gray-700">
+                    {selectedWorkout.events.map((event) => (
+                      <li key={event.id} className="flex justify-between">
+                        <span>{formatHealthKitName(event.type)}</span>
+                        <span className="text-gray-500">
+                          {format(event.date, "h:mm:ss a")}
+                          {event.duration !== null &&
+                            ` · ${formatQuantity(event.duration, event.durationUnit)}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {metadata && Object.keys(metadata).length > 0 && (
+                <div>
+                  <h4 className="mb-2 text-sm font-medium text-gray-900">
+                    Details
+                  </h4>
+                  <dl className="grid grid-cols-2 gap-1 text-sm">
+                    {Object.entries(metadata).map(([key, value]) => (
+                      <div key={key} className="contents">
+                        <dt className="text-gray-500">
+                          {formatHealthKitName(key.replace(/^HK/, ""))}
+                        </dt>
+                        <dd className="text-gray-700">{value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
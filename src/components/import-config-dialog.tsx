@@ -0,0 +1,294 @@
+"use client";
+
+import { format, subMonths } from "date-fns";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { HEALTH_TYPES } from "~/lib/health-types";
+import { EMPTY_IMPORT_CONFIG } from "~/lib/import-config";
+import { api } from "~/trpc/react";
+import { METRIC_CATEGORIES, type ImportConfig } from "~/types/health";
+
+interface ImportConfigDialogProps {
+  config: ImportConfig;
+  onChange: (config: ImportConfig) => void;
+  disabled?: boolean;
+}
+
+const toggle = (items: string[], item: string) =>
+  items.includes(item) ? items.filter((i) => i !== item) : [...items, item];
+
+function CheckboxRow({
+  id,
+  label,
+  checked,
+  disabled,
+  onToggle,
+}: {
+  id: string;
+  label: string;
+  checked: boolean;
+  disabled?: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <Checkbox
+        id={id}
+        checked={checked}
+        disabled={disabled}
+        onCheckedChange={onToggle}
+      />
+      <Label htmlFor={id} className="text-sm font-normal">
+        {label}
+      </Label>
+    </div>
+  );
+}
+
+export function ImportConfigDialog({
+  config,
+  onChange,
+  disabled,
+}: ImportConfigDialogProps) {
+  const [open, setOpen] = useState(false);
+  // Edits apply when the dialog is confirmed
+  const [draft, setDraft] = useState(config);
+  const [customSource, setCustomSource] = useState("");
+
+  const { data: options } = api.health.getImportFilterOptions.useQuery(
+    undefined,
+    { enabled: open },
+  );
+
+  const sources = [...new Set([...(options?.sources ?? []), ...draft.sources])];
+
+  const addCustomSource = () => {
+    const source = customSource.trim();
+    if (source && !draft.sources.includes(source)) {
+      setDraft({ ...draft, sources: [...draft.sources, source] });
+    }
+    setCustomSource("");
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setDraft(config);
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          Choose what to import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import options</DialogTitle>
+          <DialogDescription>
+            Leave a section empty to import everything in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Date window */}
+          <section className="space-y-2">
+            <Label htmlFor="importStartDate">Date range</Label>
+            <div className="flex flex-wrap gap-2">
+              <Input
+                type="date"
+                id="importStartDate"
+                className="flex-1"
+                value={draft.startDate ?? ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, startDate: e.target.value || null })
+                }
+              />
+              <Input
+                type="date"
+                id="importEndDate"
+                className="flex-1"
+                value={draft.endDate ?? ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, endDate: e.target.value || null })
+                }
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft({
+                    ...draft,
+                    startDate: format(subMonths(new Date(), 3), "yyyy-MM-dd"),
+                    endDate: format(new Date(), "yyyy-MM-dd"),
+                  })
+                }
+              >
+                Last 3 Months
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft({ ...draft, startDate: null, endDate: null })
+                }
+              >
+                All Data
+              </Button>
+            </div>
+          </section>
+
+          {/* Categories and individual types */}
+          <section className="space-y-2">
+            <Label>Data types</Label>
+            <div className="space-y-2">
+              {Object.values(METRIC_CATEGORIES).map((category) => {
+                const wholeCategory = draft.categories.includes(category);
+                const types = HEALTH_TYPES.filter(
+                  (type) => type.category === category,
+                );
+
+                return (
+                  <div key={category} className="rounded-md border p-2">
+                    <CheckboxRow
+                      id={`category-${category}`}
+                      label={category}
+                      checked={wholeCategory}
+                      onToggle={() =>
+                        setDraft({
+                          ...draft,
+                          categories: toggle(draft.categories, category),
+                        })
+                      }
+                    />
+                    <details className="mt-1 pl-6">
+                      <summary className="cursor-pointer text-xs text-gray-500">
+                        {types.length} types
+                      </summary>
+                      <div className="mt-2 grid grid-cols-1 gap-1 sm:grid-cols-2">
+                        {types.map((type) => (
+                          <CheckboxRow
+                            key={type.identifier}
+                            id={type.identifier}
+                            label={type.name}
+                            checked={
+                              wholeCategory ||
+                              draft.types.includes(type.identifier)
+                            }
+                            disabled={wholeCategory}
+                            onToggle={() =>
+                              setDraft({
+                                ...draft,
+                                types: toggle(draft.types, type.identifier),
+                              })
+                            }
+                          />
+                        ))}
+                      </div>
+                    </details>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Sources */}
+          <section className="space-y-2">
+            <Label htmlFor="customSource">Sources</Label>
+            {sources.length > 0 ? (
+              <div className="grid grid-cols-1 gap-1 sm:grid-cols-2">
+                {sources.map((source) => (
+                  <CheckboxRow
+                    key={source}
+                    id={`source-${source}`}
+                    label={source}
+                    checked={draft.sources.includes(source)}
+                    onToggle={() =>
+                      setDraft({
+                        ...draft,
+                        sources: toggle(draft.sources, source),
+                      })
+                    }
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Apps and devices from earlier imports are listed here.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Input
+                id="customSource"
+                placeholder="Source name, e.g. Jane's Apple Watch"
+                value={customSource}
+                onChange={(e) => setCustomSource(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addCustomSource();
+                }}
+              />
+              <Button variant="outline" size="sm" onClick={addCustomSource}>
+                Add
+              </Button>
+            </div>
+          </section>
+
+          {/* Devices */}
+          <section className="space-y-2">
+            <Label>Devices</Label>
+            <div className="grid grid-cols-2 gap-1 sm:grid-cols-3">
+              {(options?.devices ?? []).map((device) => (
+                <CheckboxRow
+                  key={device}
+                  id={`device-${device}`}
+                  label={device}
+                  checked={draft.devices.includes(device)}
+                  onToggle={() =>
+                    setDraft({
+                      ...draft,
+                      devices: toggle(draft.devices, device),
+                    })
+                  }
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Choosing devices leaves out samples without one, such as manual
+              entries.
+            </p>
+          </section>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setDraft(EMPTY_IMPORT_CONFIG)}
+          >
+            Reset
+          </Button>
+          <Button
+            onClick={() => {
+              onChange(draft);
+              setOpen(false);
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { format, subDays } from "date-fns";
+import { useState } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { defaultComparisonMetric } from "~/lib/clinical-records";
+import { isCategoryType } from "~/lib/health-values";
+import { getHealthType } from "~/lib/health-types";
+import { api } from "~/trpc/react";
+import { HEALTH_DATA_TYPES } from "~/types/health";
+
+// Sampled and cumulative metrics; category types (sleep, mindfulness) have no value to plot
+const WEARABLE_METRICS = Object.values(HEALTH_DATA_TYPES).filter(
+  (type) => !isCategoryType(type),
+);
+
+/**
+ * A lab result over time next to a wearable metric, e.g. LDL cholesterol against resting heart
+ * rate. The wearable series is averaged (or summed) per week on its own axis.
+ */
+export function LabTrendChart() {
+  const [loincCode, setLoincCode] = useState<string | null>(null);
+  const [metric, setMetric] = useState<string | null>(null);
+
+  const { data: labCodes } = api.clinical.getLabCodes.useQuery();
+  const selectedCode = loincCode ?? labCodes?.[0]?.loincCode ?? null;
+  const selectedMetric =
+    metric ?? (selectedCode ? defaultComparisonMetric(selectedCode) : null);
+
+  const { data: results } = api.clinical.getLabResults.useQuery(
+    { loincCode: selectedCode ?? "" },
+    { enabled: !!selectedCode },
+  );
+
+  // Start the wearable series a little before the first result
+  const firstResult = results?.[0]?.effectiveAt;
+  const { data: wearable } = api.health.getAggregates.useQuery(
+    {
+      metrics: [selectedMetric ?? ""],
+      bucket: "week",
+      startDate: firstResult ? subDays(firstResult, 90) : undefined,
+    },
+    { enabled: !!selectedMetric && !!firstResult },
+  );
+
+  if (!labCodes || labCodes.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No lab results with LOINC codes have been imported yet.
+      </p>
+    );
+  }
+
+  const series = wearable?.[0];
+  const chartData = [
+    ...(results ?? []).map((result) => ({
+      time: result.effectiveAt.getTime(),
+      lab: result.value,
+    })),
+    ...(series?.points ?? []).map((point) => ({
+      time: point.start.getTime(),
+      wearable: point.value,
+    })),
+  ].sort((a, b) => a.time - b.time);
+
+  const latest = results?.[results.length - 1];
+  const labUnit = latest?.unit ?? "";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <select
+          className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          value={selectedCode ?? ""}
+          onChange={(e) => {
+            setLoincCode(e.target.value);
+            setMetric(null);
+          }}
+        >
+          {labCodes.map((code) => (
+            <option key={code.loincCode} value={code.loincCode}>
+              {code.name} ({code.count})
+            </option>
+          ))}
+        </select>
+        <span className="self-center text-sm text-gray-500">against</span>
+        <select
+          className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          value={selectedMetric ?? ""}
+          onChange={(e) => setMetric(e.target.value)}
+        >
+          {WEARABLE_METRICS.map((type) => (
+            <option key={type} value={type}>
+              {getHealthType(type).name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => format(value, "MMM yyyy")}
+            />
+            <YAxis yAxisId="lab" unit={` ${labUnit}`} width={90} />
+            <YAxis
+              yAxisId="wearable"
+              orientation="right"
+              unit={series?.unit ? ` ${series.unit}` : undefined}
+              width={90}
+            />
+            {latest &&
+              (latest.referenceLow !== null ||
+                latest.referenceHigh !== null) && (
+                <ReferenceArea
+                  yAxisId="lab"
+                  y1={latest.referenceLow ?? undefined}
+                  y2={latest.referenceHigh ?? undefined}
+                  fill="#22c55e"
+                  fillOpacity={0.08}
+                  ifOverflow="hidden"
+                />
+              )}
+            <Tooltip
+              labelFormatter={(value) => format(Number(value), "MMM d, yyyy")}
+            />
+            <Legend />
+            <Line
+              yAxisId="lab"
+              dataKey="lab"
+              name={latest?.name ?? "Lab result"}
+              stroke="#8b5cf6"
+              strokeWidth={2}
+              connectNulls
+            />
+            <Line
+              yAxisId="wearable"
+              dataKey="wearable"
+              name={
+                selectedMetric
+                  ? `${getHealthType(selectedMetric).name} (weekly)`
+                  : ""
+              }
+              stroke="#94a3b8"
+              dot={false}
+              connectNulls
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { useState } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { SLEEP_STAGES } from "~/lib/health-values";
+import type { SleepSession, SleepStageSegment } from "~/types/health";
+
+interface SleepAnalysisProps {
+  sessions: SleepSession[]; // newest first, from health.getSleepSessions
+}
+
+// Hypnogram rows from top to bottom; unstaged sleep is drawn on the Core row
+const STAGE_ROWS = [
+  { label: "Awake", stages: [SLEEP_STAGES.AWAKE], color: "#f97316" },
+  { label: "REM", stages: [SLEEP_STAGES.ASLEEP_REM], color: "#38bdf8" },
+  {
+    label: "Core",
+    stages: [SLEEP_STAGES.ASLEEP_CORE, SLEEP_STAGES.ASLEEP_UNSPECIFIED],
+    color: "#3b82f6",
+  },
+  { label: "Deep", stages: [SLEEP_STAGES.ASLEEP_DEEP], color: "#4338ca" },
+] as const;
+
+const WIDTH = 600;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 48;
+
+const formatMinutes = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+
+function Hypnogram({
+  segments,
+  start,
+  end,
+}: {
+  segments: SleepStageSegment[];
+  start: Date;
+  end: Date;
+}) {
+  const span = end.getTime() - start.getTime() || 1;
+  const x = (date: Date) =>
+    LABEL_WIDTH +
+    ((date.getTime() - start.getTime()) / span) * (WIDTH - LABEL_WIDTH);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${ROW_HEIGHT * STAGE_ROWS.length + 20}`}
+      className="w-full"
+      role="img"
+      aria-label="Hypnogram"
+    >
+      {STAGE_ROWS.map((row, i) => (
+        <g key={row.label}>
+          <text
+            x={0}
+            y={i * ROW_HEIGHT + ROW_HEIGHT / 2 + 4}
+            className="fill-gray-500 text-[11px]"
+          >
+            {row.label}
+          </text>
+          <line
+            x1={LABEL_WIDTH}
+            x2={WIDTH}
+            y1={(i + 1) * ROW_HEIGHT}
+            y2={(i + 1) * ROW_HEIGHT}
+            stroke="#e5e7eb"
+          />
+        </g>
+      ))}
+      {segments.map((segment, i) => {
+        const row = STAGE_ROWS.findIndex((r) =>
+          (r.stages as readonly number[]).includes(segment.stage),
+        );
+        if (row === -1) return null;
+
+        return (
+          <rect
+            key={i}
+            x={x(segment.start)}
+            y={row * ROW_HEIGHT + 4}
+            width={Math.max(1, x(segment.end) - x(segment.start))}
+            height={ROW_HEIGHT - 8}
+            rx={2}
+            fill={STAGE_ROWS[row]!.color}
+          />
+        );
+      })}
+      <text
+        x={LABEL_WIDTH}
+        y={ROW_HEIGHT * STAGE_ROWS.length + 16}
+        className="fill-gray-500 text-[11px]"
+      >
+        {format(start, "h:mm a")}
+      </text>
+      <text
+        x={WIDTH}
+        y={ROW_HEIGHT * STAGE_ROWS.length + 16}
+        textAnchor="end"
+        className="fill-gray-500 text-[11px]"
+      >
+        {format(end, "h:mm a")}
+      </text>
+    </svg>
+  );
+}
+
+export function SleepAnalysis({ sessions }: SleepAnalysisProps) {
+  const [selectedStart, setSelectedStart] = useState<number | null>(null);
+
+  const selected =
+    sessions.find((s) => s.start.getTime() === selectedStart) ?? sessions[0];
+
+  // Oldest to newest for the chart, in hours
+  const chartData = sessions
+    .slice(0, 14)
+    .reverse()
+    .map((session) => ({
+      date: session.wakeDate,
+      deep: session.deepMinutes / 60,
+      core: session.coreMinutes / 60,
+      rem: session.remMinutes / 60,
+      unspecified: session.unspecifiedMinutes / 60,
+      efficiency:
+        session.efficiency !== null
+          ? Math.round(session.efficiency * 100)
+          : undefined,
+    }));
+
+  return (
+    <div className="space-y-6">
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(value: string) =>
+                format(parseISO(value), "MM/dd")
+              }
+            />
+            <YAxis yAxisId="left" unit="h" />
+            <YAxis
+              yAxisId="right"
+              orientation="right"
+              unit="%"
+              domain={[0, 100]}
+            />
+            <Tooltip
+              labelFormatter={(value) =>
+                format(parseISO(value as string), "EEEE, MMM d, yyyy")
+              }
+              formatter={(value, name) =>
+                name === "Efficiency"
+                  ? [`${Number(value)}%`, name]
+                  : [formatMinutes(Number(value) * 60), name]
+              }
+            />
+            <Legend />
+            <Bar
+              yAxisId="left"
+              dataKey="deep"
+              stackId="sleep"
+              fill="#4338ca"
+              name="Deep"
+            />
+            <Bar
+              yAxisId="left"
+              dataKey="core"
+              stackId="sleep"
+              fill="#3b82f6"
+              name="Core"
+            />
+            <Bar
+              yAxisId="left"
+              dataKey="rem"
+              stackId="sleep"
+              fill="#38bdf8"
+              name="REM"
+            />
+            <Bar
+              yAxisId="left"
+              dataKey="unspecified"
+              stackId="sleep"
+              fill="#a5b4fc"
+              name="Asleep"
+            />
+            <Line
+              yAxisId="right"
+              type="monotone"
+              dataKey="efficiency"
+              stroke="#82ca9d"
+              name="Efficiency"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {selected && (
+        <div>
+          <h4 className="mb-2 text-sm font-medium text-gray-900">
+            Night ending {format(parseISO(selected.wakeDate), "EEE, MMM d")}
+            {selected.sourceName && (
+              <span className="font-normal text-gray-500">
+                {" "}
+                · {selected.sourceName}
+              </span>
+            )}
+          </h4>
+          <Hypnogram
+            segments={selected.hypnogram}
+            start={selected.start}
+            end={selected.end}
+          />
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-medium tracking-wider text-gray-500 uppercase">
+            <tr>
+              <th className="px-3 py-2">Night</th>
+              <th className="px-3 py-2">Bedtime</th>
+              <th className="px-3 py-2">Wake</th>
+              <th className="px-3 py-2">Asleep</th>
+              <th className="px-3 py-2">Efficiency</th>
+              <th className="px-3 py-2">Latency</th>
+              <th className="px-3 py-2">Awake After Onset</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white text-gray-600">
+            {sessions.slice(0, 14).map((session) => (
+              <tr
+                key={session.start.getTime()}
+                onClick={() => setSelectedStart(session.start.getTime())}
+                className={`cursor-pointer hover:bg-gray-50 ${
+                  session === selected ? "bg-indigo-50" : ""
+                }`}
+              >
+                <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                  {format(parseISO(session.wakeDate), "EEE, MMM d")}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {format(session.start, "h:mm a")}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {format(session.end, "h:mm a")}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {formatMinutes(session.asleepMinutes)}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {session.efficiency !== null
+                    ? `${Math.round(session.efficiency * 100)}%`
+                    : "-"}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {session.latencyMinutes !== null
+                    ? `${Math.round(session.latencyMinutes)}m`
+                    : "-"}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {Math.round(session.wasoMinutes)}m
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
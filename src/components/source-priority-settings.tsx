@@ -0,0 +1,120 @@
+"use client";
+
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { getHealthType } from "~/lib/health-types";
+import { api } from "~/trpc/react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+
+export function SourcePrioritySettings() {
+  const utils = api.useUtils();
+  const { data } = api.health.getSourcePriorities.useQuery();
+
+  const setPriority = api.health.setSourcePriority.useMutation({
+    onSuccess: () =>
+      Promise.all([
+        utils.health.getSourcePriorities.invalidate(),
+        // Server-side totals are de-overlapped by the same priorities
+        utils.health.getAggregates.invalidate(),
+        utils.health.getMetricSummaries.invalidate(),
+      ]),
+  });
+
+  if (!data?.metrics.length) return null;
+
+  const move = (type: string, sources: string[], from: number, to: number) => {
+    const reordered = [...sources];
+    const [moved] = reordered.splice(from, 1);
+    if (moved === undefined) return;
+    reordered.splice(to, 0, moved);
+    setPriority.mutate({ type, sources: reordered });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Data Sources</CardTitle>
+        <CardDescription>
+          When several devices record the same activity at the same time, only
+          the highest source in the list is counted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.metrics.map((metric) => {
+          const sourceNames = metric.sources.map((s) => s.sourceName);
+
+          return (
+            <div key={metric.type}>
+              <div className="mb-1 flex items-center justify-between">
+                <h4 className="text-sm font-medium text-gray-800">
+                  {getHealthType(metric.type).name}
+                </h4>
+                {metric.isCustom && (
+                  <button
+                    type="button"
+                    className="text-xs text-blue-600 hover:underline"
+                    disabled={setPriority.isPending}
+                    onClick={() =>
+                      setPriority.mutate({ type: metric.type, sources: [] })
+                    }
+                  >
+                    Reset to default
+                  </button>
+                )}
+              </div>
+              <ol className="divide-y divide-gray-100 rounded-md border border-gray-200">
+                {metric.sources.map((source, i) => (
+                  <li
+                    key={source.sourceName}
+                    className="flex items-center justify-between px-3 py-1.5 text-sm"
+                  >
+                    <span className="text-gray-700">
+                      {i + 1}. {source.sourceName || "Unknown source"}
+                      {source.deviceModel && (
+                        <span className="text-gray-400">
+                          {" "}
+                          ({source.deviceModel})
+                        </span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <span className="mr-2 text-xs text-gray-400">
+                        {source.count.toLocaleString()} records
+                      </span>
+                      <button
+                        type="button"
+                        aria-label="Move up"
+                        className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                        disabled={i === 0 || setPriority.isPending}
+                        onClick={() => move(metric.type, sourceNames, i, i - 1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        aria-label="Move down"
+                        className="rounded p-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                        disabled={
+                          i === metric.sources.length - 1 ||
+                          setPriority.isPending
+                        }
+                        onClick={() => move(metric.type, sourceNames, i, i + 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
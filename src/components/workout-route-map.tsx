@@ -0,0 +1,121 @@
+"use client";
+
+import type { RoutePoint, RouteSplit } from "~/types/health";
+
+interface WorkoutRouteMapProps {
+  points: RoutePoint[];
+  splits: RouteSplit[];
+  distance: number;
+  elevationGain: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 300;
+const PADDING = 12;
+// Enough to trace the route without rendering every one-second GPS fix
+const MAX_DRAWN_POINTS = 1000;
+
+const formatPace = (secondsPerKm: number) => {
+  const minutes = Math.floor(secondsPerKm / 60);
+  const seconds = Math.round(secondsPerKm % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")} /km`;
+};
+
+/**
+ * Project the route onto the SVG canvas. An equirectangular projection scaled by the cosine of
+ * the mid latitude is accurate enough at the size of a single workout.
+ */
+function projectRoute(points: RoutePoint[]) {
+  const step = Math.max(1, Math.ceil(points.length / MAX_DRAWN_POINTS));
+  const sampled = points.filter(
+    (_, i) => i % step === 0 || i === points.length - 1,
+  );
+
+  const lats = sampled.map((p) => p.lat);
+  const lons = sampled.map((p) => p.lon);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLon = Math.min(...lons);
+  const maxLon = Math.max(...lons);
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  const spanX = (maxLon - minLon) * lonScale || 1e-9;
+  const spanY = maxLat - minLat || 1e-9;
+  const scale = Math.min(
+    (WIDTH - PADDING * 2) / spanX,
+    (HEIGHT - PADDING * 2) / spanY,
+  );
+  // Center the shorter axis
+  const offsetX = (WIDTH - spanX * scale) / 2;
+  const offsetY = (HEIGHT - spanY * scale) / 2;
+
+  return sampled.map((p) => ({
+    x: offsetX + (p.lon - minLon) * lonScale * scale,
+    y: HEIGHT - (offsetY + (p.lat - minLat) * scale),
+  }));
+}
+
+export function WorkoutRouteMap({
+  points,
+  splits,
+  distance,
+  elevationGain,
+}: WorkoutRouteMapProps) {
+  if (points.length < 2) return null;
+
+  const projected = projectRoute(points);
+  const start = projected[0]!;
+  const end = projected[projected.length - 1]!;
+
+  return (
+    <div className="space-y-4">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full rounded-md border border-gray-200 bg-gray-50"
+        role="img"
+        aria-label="Workout route"
+      >
+        <polyline
+          points={projected.map(({ x, y }) => `${x},${y}`).join(" ")}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth={3}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        <circle cx={start.x} cy={start.y} r={5} fill="#22c55e" />
+        <circle cx={end.x} cy={end.y} r={5} fill="#ef4444" />
+      </svg>
+
+      <div className="flex gap-6 text-sm text-gray-600">
+        <span>{(distance / 1000).toFixed(2)} km</span>
+        <span>{Math.round(elevationGain)} m elevation gain</span>
+      </div>
+
+      {splits.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-500">
+            <tr>
+              <th className="py-1 font-medium">Km</th>
+              <th className="py-1 font-medium">Pace</th>
+              <th className="py-1 font-medium">Elevation</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-700">
+            {splits.map((split, i) => (
+              <tr key={i}>
+                <td className="py-1">
+                  {split.distance < 1000
+                    ? (i + split.distance / 1000).toFixed(2)
+                    : i + 1}
+                </td>
+                <td className="py-1">{formatPace(split.pace)}</td>
+                <td className="py-1">+{Math.round(split.elevationGain)} m</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
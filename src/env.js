@@ -8,7 +8,16 @@ export const env = createEnv({
    */
   server: {
     DATABASE_URL: z.string().url(),
-    OPENAI_API_KEY: z.string(),
+    OPENAI_API_KEY: z.string().optional(),
+    // Chat model; see src/server/llm-providers.ts
+    LLM_PROVIDER: z
+      .enum(["openai", "openai-compatible", "mock"])
+      .default("openai"),
+    LLM_MODEL: z.string().default("gpt-3.5-turbo"),
+    LLM_BASE_URL: z.string().url().optional(),
+    LLM_API_KEY: z.string().optional(),
+    LLM_TEMPERATURE: z.coerce.number().min(0).max(2).optional(),
+    LLM_MAX_TOKENS: z.coerce.number().int().positive().default(1500),
     CLERK_SECRET_KEY: z.string(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
@@ -31,6 +40,12 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_API_KEY: process.env.LLM_API_KEY,
+    LLM_TEMPERATURE: process.env.LLM_TEMPERATURE,
+    LLM_MAX_TOKENS: process.env.LLM_MAX_TOKENS,
     CLERK_SECRET_KEY: process.env.CLERK_SECRET_KEY,
     NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY:
       process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY,
@@ -0,0 +1,9 @@
+export async function register() {
+  // The import worker and upload sweep need Node APIs and a database connection; skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startImportWorker } = await import("~/server/import-queue");
+    const { startUploadSweeper } = await import("~/server/uploads");
+    startImportWorker();
+    startUploadSweeper();
+  }
+}
@@ -0,0 +1,32 @@
+import { CUMULATIVE_TYPES } from "~/lib/source-priority";
+
+export const AGGREGATE_BUCKETS = [
+  "hour",
+  "day",
+  "week",
+  "month",
+  "year",
+] as const;
+export type AggregateBucket = (typeof AGGREGATE_BUCKETS)[number];
+
+export const AGGREGATIONS = [
+  "sum",
+  "avg",
+  "min",
+  "max",
+  "count",
+  "p50",
+  "p90",
+  "p95",
+] as const;
+export type Aggregation = (typeof AGGREGATIONS)[number];
+
+export const PERCENTILES: Partial<Record<Aggregation, number>> = {
+  p50: 0.5,
+  p90: 0.9,
+  p95: 0.95,
+};
+
+// Totals for cumulative metrics (steps, energy), averages for sampled ones (heart rate, weight)
+export const defaultAggregation = (type: string): Aggregation =>
+  CUMULATIVE_TYPES.includes(type) ? "sum" : "avg";
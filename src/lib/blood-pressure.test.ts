@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { classifyBloodPressure } from "~/lib/blood-pressure";
+
+describe("classifyBloodPressure", () => {
+  it.each([
+    [119, 79, "normal"],
+    [120, 79, "elevated"],
+    [129, 79, "elevated"],
+    [130, 79, "stage1"],
+    [119, 80, "stage1"],
+    [139, 89, "stage1"],
+    [140, 89, "stage2"],
+    [139, 90, "stage2"],
+    [180, 120, "stage2"],
+    [181, 120, "crisis"],
+    [180, 121, "crisis"],
+  ])("puts %i/%i in %s", (systolic, diastolic, category) => {
+    expect(classifyBloodPressure(systolic, diastolic)).toBe(category);
+  });
+
+  it("uses the more severe category of the two values", () => {
+    // Elevated is systolic only, so a high diastolic skips straight to stage 1
+    expect(classifyBloodPressure(125, 85)).toBe("stage1");
+    expect(classifyBloodPressure(110, 95)).toBe("stage2");
+    expect(classifyBloodPressure(185, 70)).toBe("crisis");
+  });
+});
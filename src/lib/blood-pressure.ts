@@ -0,0 +1,102 @@
+import type { BloodPressureReading } from "~/types/health";
+
+export type BloodPressureCategory =
+  | "normal"
+  | "elevated"
+  | "stage1"
+  | "stage2"
+  | "crisis";
+
+// American Heart Association categories, most severe last. A reading falls in the most severe
+// category either of its values reaches.
+export const BLOOD_PRESSURE_CATEGORIES: Array<{
+  category: BloodPressureCategory;
+  label: string;
+  color: string;
+  minSystolic: number;
+  minDiastolic: number;
+}> = [
+  {
+    category: "normal",
+    label: "Normal",
+    color: "#22c55e",
+    minSystolic: 0,
+    minDiastolic: 0,
+  },
+  // Elevated is systolic only: 120-129 with a diastolic below 80
+  {
+    category: "elevated",
+    label: "Elevated",
+    color: "#eab308",
+    minSystolic: 120,
+    minDiastolic: Infinity,
+  },
+  {
+    category: "stage1",
+    label: "Hypertension Stage 1",
+    color: "#f97316",
+    minSystolic: 130,
+    minDiastolic: 80,
+  },
+  {
+    category: "stage2",
+    label: "Hypertension Stage 2",
+    color: "#ef4444",
+    minSystolic: 140,
+    minDiastolic: 90,
+  },
+  {
+    category: "crisis",
+    label: "Hypertensive Crisis",
+    color: "#991b1b",
+    minSystolic: 181,
+    minDiastolic: 121,
+  },
+];
+
+export function classifyBloodPressure(
+  systolic: number,
+  diastolic: number,
+): BloodPressureCategory {
+  const match = [...BLOOD_PRESSURE_CATEGORIES]
+    .reverse()
+    .find(
+      (band) => systolic >= band.minSystolic || diastolic >= band.minDiastolic,
+    );
+  return match?.category ?? "normal";
+}
+
+// Local hours counted as morning (4am-noon) and evening (6pm-midnight)
+const MORNING_HOURS = [4, 12] as const;
+const EVENING_HOURS = [18, 24] as const;
+
+export interface BloodPressureAverage {
+  systolic: number;
+  diastolic: number;
+  count: number;
+}
+
+function average(
+  readings: BloodPressureReading[],
+): BloodPressureAverage | null {
+  if (readings.length === 0) return null;
+
+  return {
+    systolic:
+      readings.reduce((total, r) => total + r.systolic, 0) / readings.length,
+    diastolic:
+      readings.reduce((total, r) => total + r.diastolic, 0) / readings.length,
+    count: readings.length,
+  };
+}
+
+// Morning readings tend to run higher; compare the two by local time of day
+export function averageByTimeOfDay(readings: BloodPressureReading[]) {
+  const within = ([from, to]: readonly [number, number]) =>
+    readings.filter((r) => r.localHour >= from && r.localHour < to);
+
+  return {
+    morning: average(within(MORNING_HOURS)),
+    evening: average(within(EVENING_HOURS)),
+  };
+}
@@ -0,0 +1,169 @@
+// Client side of the chunked upload protocol served by /api/upload.
+//
+// 1. POST /api/upload            { fileName, fileSize } -> { fileId, chunkSize, offset }
+// 2. PUT  /api/upload/:id?part=N  raw bytes of part N    -> { offset, complete }
+// 3. GET  /api/upload/:id                                -> { offset, complete }
+//
+// The server only ever acknowledges whole parts, so after a failure the client asks for the
+// acknowledged offset and carries on from there.
+
+export interface ChunkedUploadProgress {
+  bytesUploaded: number;
+  totalBytes: number;
+}
+
+interface UploadStatus {
+  fileId: string;
+  chunkSize: number;
+  offset: number;
+  complete?: boolean;
+}
+
+interface ChunkedUploadOptions {
+  onProgress?: (progress: ChunkedUploadProgress) => void;
+  onResume?: (offset: number) => void;
+  signal?: AbortSignal;
+}
+
+const MAX_RETRIES = 5;
+const RESUME_KEY_PREFIX = "health-upload:";
+
+// Identify the same file across page reloads so an interrupted upload can be resumed
+const getResumeKey = (file: File) =>
+  `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+class UploadRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "UploadRequestError";
+  }
+}
+
+async function fetchStatus(fileId: string): Promise<UploadStatus | null> {
+  const response = await fetch(`/api/upload/${fileId}`);
+  if (!response.ok) return null;
+  return (await response.json()) as UploadStatus;
+}
+
+async function startUpload(file: File): Promise<UploadStatus> {
+  const response = await fetch("/api/upload", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, fileSize: file.size }),
+  });
+
+  if (!response.ok) {
+    const error = (await response.json()) as { error?: string };
+    throw new Error(error.error ?? "Failed to upload file");
+  }
+
+  return (await response.json()) as UploadStatus;
+}
+
+// XMLHttpRequest rather than fetch, since only XHR reports upload progress per byte
+function sendPart(
+  fileId: string,
+  part: number,
+  blob: Blob,
+  onPartProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<{ offset: number; complete: boolean }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", `/api/upload/${fileId}?part=${part}`);
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+
+    xhr.upload.onprogress = (event) => onPartProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(
+          JSON.parse(xhr.responseText) as { offset: number; complete: boolean },
+        );
+      } else {
+        reject(
+          new UploadRequestError(`Upload part ${part} failed`, xhr.status),
+        );
+      }
+    };
+    xhr.onerror = () =>
+      reject(new UploadRequestError(`Upload part ${part} failed`, 0));
+    xhr.onabort = () =>
+      reject(new DOMException("Upload aborted", "AbortError"));
+
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(blob);
+  });
+}
+
+/**
+ * Upload a file in numbered parts, resuming a previous attempt for the same file when the server
+ * still has it. Resolves with the server-side file ID once every part has been acknowledged.
+ */
+export async function uploadFileInChunks(
+  file: File,
+  { onProgress, onResume, signal }: ChunkedUploadOptions = {},
+): Promise<string> {
+  const resumeKey = getResumeKey(file);
+  const previousFileId = window.localStorage.getItem(resumeKey);
+
+  let status = previousFileId ? await fetchStatus(previousFileId) : null;
+  if (status && status.offset > 0) {
+    onResume?.(status.offset);
+  }
+  status ??= await startUpload(file);
+  window.localStorage.setItem(resumeKey, status.fileId);
+
+  const { fileId, chunkSize } = status;
+  let offset = status.offset;
+  let complete = status.complete ?? false;
+  let retries = 0;
+
+  onProgress?.({ bytesUploaded: offset, totalBytes: file.size });
+
+  while (!complete && offset < file.size) {
+    const part = Math.floor(offset / chunkSize);
+    const partStart = part * chunkSize;
+    const blob = file.slice(partStart, partStart + chunkSize);
+
+    try {
+      const result = await sendPart(
+        fileId,
+        part,
+        blob,
+        (loaded) =>
+          onProgress?.({
+            bytesUploaded: Math.min(partStart + loaded, file.size),
+            totalBytes: file.size,
+          }),
+        signal,
+      );
+      offset = result.offset;
+      complete = result.complete;
+      retries = 0;
+    } catch (error) {
+      if (signal?.aborted || retries >= MAX_RETRIES) throw error;
+      if (error instanceof UploadRequestError && error.status === 404) {
+        window.localStorage.removeItem(resumeKey);
+        throw new Error("Upload expired on the server, please try again");
+      }
+
+      retries++;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** retries));
+
+      // Ask the server where to pick up again
+      const latest = await fetchStatus(fileId).catch(() => null);
+      if (latest) {
+        offset = latest.offset;
+        complete = latest.complete ?? false;
+      }
+    }
+
+    onProgress?.({ bytesUploaded: offset, totalBytes: file.size });
+  }
+
+  window.localStorage.removeItem(resumeKey);
+  return fileId;
+}
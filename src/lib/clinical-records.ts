@@ -0,0 +1,47 @@
+import type { ClinicalRecordKind } from "@prisma/client";
+import { HEALTH_DATA_TYPES } from "~/types/health";
+
+// LOINC as FHIR names it, and as the HL7 OID CDA documents use
+export const LOINC_SYSTEM = "http://loinc.org";
+export const LOINC_OID = "2.16.840.1.113883.6.1";
+
+export const CLINICAL_RECORD_KIND_LABELS: Record<ClinicalRecordKind, string> = {
+  OBSERVATION: "Lab Results",
+  CONDITION: "Conditions",
+  MEDICATION: "Medications",
+  IMMUNIZATION: "Immunizations",
+  ALLERGY: "Allergies",
+};
+
+// Common panels, each with the wearable metrics its results are usually read against
+export const LAB_PANELS = [
+  {
+    name: "Lipid panel",
+    loincCodes: ["2093-3", "2085-9", "13457-7", "18262-6", "2089-1", "2571-8"],
+    compareWith: [
+      HEALTH_DATA_TYPES.RESTING_HEART_RATE,
+      HEALTH_DATA_TYPES.BODY_MASS,
+    ],
+  },
+  {
+    name: "Glucose",
+    loincCodes: ["4548-4", "17856-6", "2345-7", "1558-6"],
+    compareWith: [HEALTH_DATA_TYPES.BODY_MASS, HEALTH_DATA_TYPES.STEP_COUNT],
+  },
+  {
+    name: "Thyroid",
+    loincCodes: ["3016-3", "3024-7"],
+    compareWith: [
+      HEALTH_DATA_TYPES.RESTING_HEART_RATE,
+      HEALTH_DATA_TYPES.BODY_MASS,
+    ],
+  },
+] as const;
+
+// Wearable metric to plot next to a lab result; resting heart rate when no panel lists it
+export function defaultComparisonMetric(loincCode: string): string {
+  const panel = LAB_PANELS.find((p) =>
+    (p.loincCodes as readonly string[]).includes(loincCode),
+  );
+  return panel?.compareWith[0] ?? HEALTH_DATA_TYPES.RESTING_HEART_RATE;
+}
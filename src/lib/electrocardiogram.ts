@@ -0,0 +1,57 @@
+import { ECG_CLASSIFICATIONS } from "~/types/health";
+
+// Standard ECG paper: 25 mm per second across, 10 mm per millivolt up
+export const PAPER_SPEED_MM_PER_S = 25;
+export const GAIN_MM_PER_MV = 10;
+// Each strip shows 10 seconds, +/-2 mV around the baseline
+export const STRIP_SECONDS = 10;
+export const STRIP_HEIGHT_MM = 4 * GAIN_MM_PER_MV;
+
+const CLASSIFICATION_COLORS: Record<string, string> = {
+  [ECG_CLASSIFICATIONS.SINUS_RHYTHM]: "#22c55e",
+  [ECG_CLASSIFICATIONS.ATRIAL_FIBRILLATION]: "#ef4444",
+  [ECG_CLASSIFICATIONS.INCONCLUSIVE]: "#eab308",
+};
+
+// Other results (High/Low Heart Rate, Poor Recording) show in gray
+export const classificationColor = (classification: string) =>
+  CLASSIFICATION_COLORS[classification] ?? "#6b7280";
+
+export interface EcgStrip {
+  startSecond: number;
+  widthMm: number;
+  path: string; // SVG path in millimetres, baseline at STRIP_HEIGHT_MM / 2
+}
+
+/**
+ * Lay a recording out as 10-second strips in paper millimetres, so an SVG drawn with a
+ * millimetre viewBox shows it at 25 mm/s and 10 mm/mV. Voltages are in microvolts.
+ */
+export function ecgStrips(voltages: number[], sampleRate: number): EcgStrip[] {
+  const samplesPerStrip = Math.round(sampleRate * STRIP_SECONDS);
+  const baseline = STRIP_HEIGHT_MM / 2;
+  const strips: EcgStrip[] = [];
+
+  for (let start = 0; start < voltages.length; start += samplesPerStrip) {
+    const samples = voltages.slice(start, start + samplesPerStrip);
+    const path = samples
+      .map((microvolts, i) => {
+        const x = (i / sampleRate) * PAPER_SPEED_MM_PER_S;
+        const y = baseline - (microvolts / 1000) * GAIN_MM_PER_MV;
+        return `${i === 0 ? "M" : "L"}${x.toFixed(2)} ${y.toFixed(2)}`;
+      })
+      .join("");
+
+    strips.push({
+      startSecond: start / sampleRate,
+      widthMm: (samples.length / sampleRate) * PAPER_SPEED_MM_PER_S,
+      path,
+    });
+  }
+
+  return strips;
+}
+
+// Recording length in seconds
+export const ecgDuration = (voltages: number[], sampleRate: number) =>
+  voltages.length / sampleRate;
@@ -1,5 +1,9 @@
 import xml2js from "xml2js";
-import type { ParsedHealthData } from "~/types/health";
+import type { ParsedHealthData, ParsedWorkout } from "~/types/health";
+
+interface MetadataEntryElement {
+  $: { key: string; value: string };
+}
 
 export interface AppleHealthExport {
   HealthData: {
@@ -15,6 +19,7 @@ export interface AppleHealthExport {
         endDate: string;
         value: string;
       };
+      MetadataEntry?: MetadataEntryElement[];
     }>;
     Workout?: Array<{
       $: {
@@ -27,22 +32,55 @@ export interface AppleHealthExport {
         totalEnergyBurnedUnit?: string;
         sourceName: string;
         sourceVersion?: string;
+        device?: string;
         creationDate: string;
         startDate: string;
         endDate: string;
       };
+      MetadataEntry?: MetadataEntryElement[];
+      WorkoutStatistics?: Array<{
+        $: {
+          type: string;
+          startDate: string;
+          endDate: string;
+          average?: string;
+          minimum?: string;
+          maximum?: string;
+          sum?: string;
+          unit?: string;
+        };
+      }>;
+      WorkoutEvent?: Array<{
+        $: {
+          type: string;
+          date: string;
+          duration?: string;
+          durationUnit?: string;
+        };
+        MetadataEntry?: MetadataEntryElement[];
+      }>;
+      WorkoutRoute?: Array<{
+        FileReference?: Array<{ $: { path: string } }>;
+      }>;
     }>;
   };
 }
 
 export class HealthDataParser {
-  static async parseXMLFile(file: File): Promise<ParsedHealthData[]> {
+  static async parseXMLFile(
+    file: File,
+  ): Promise<{ records: ParsedHealthData[]; workouts: ParsedWorkout[] }> {
     try {
       const xmlText = await file.text();
       const parser = new xml2js.Parser();
-      const result = await parser.parseStringPromise(xmlText);
+      const result = (await parser.parseStringPromise(
+        xmlText,
+      )) as AppleHealthExport;
 
-      return this.extractHealthRecords(result as AppleHealthExport);
+      return {
+        records: this.extractHealthRecords(result),
+        workouts: this.extractWorkouts(result),
+      };
     } catch (error) {
       console.error("Error parsing XML file:", error);
       throw new Error(
@@ -69,68 +107,66 @@ export class HealthDataParser {
           endDate: attrs.endDate,
           sourceName: attrs.sourceName,
           sourceVersion: attrs.sourceVersion,
+          device: attrs.device,
+          metadata: this.toMetadata(record.MetadataEntry),
         });
       }
     }
 
-    // Extract workout data
-    if (data.HealthData?.Workout) {
-      for (const workout of data.HealthData.Workout) {
-        const attrs = workout.$;
+    return records;
+  }
 
-        // Add workout as activity record
-        records.push({
-          type: "HKWorkout",
-          value: attrs.workoutActivityType,
-          unit: "workout",
-          startDate: attrs.startDate,
-          endDate: attrs.endDate,
-          sourceName: attrs.sourceName,
-          sourceVersion: attrs.sourceVersion,
-        });
+  private static toMetadata(
+    entries?: MetadataEntryElement[],
+  ): Record<string, string> {
+    return Object.fromEntries(
+      (entries ?? []).map((entry) => [entry.$.key, entry.$.value]),
+    );
+  }
 
-        // Add workout duration
-        if (attrs.duration) {
-          records.push({
-            type: "HKWorkoutDuration",
-            value: attrs.duration,
-            unit: attrs.durationUnit || "min",
-            startDate: attrs.startDate,
-            endDate: attrs.endDate,
-            sourceName: attrs.sourceName,
-            sourceVersion: attrs.sourceVersion,
-          });
-        }
-
-        // Add total distance if available
-        if (attrs.totalDistance) {
-          records.push({
-            type: "HKWorkoutTotalDistance",
-            value: attrs.totalDistance,
-            unit: attrs.totalDistanceUnit || "km",
-            startDate: attrs.startDate,
-            endDate: attrs.endDate,
-            sourceName: attrs.sourceName,
-            sourceVersion: attrs.sourceVersion,
-          });
-        }
-
-        // Add total energy burned if available
-        if (attrs.totalEnergyBurned) {
-          records.push({
-            type: "HKWorkoutTotalEnergyBurned",
-            value: attrs.totalEnergyBurned,
-            unit: attrs.totalEnergyBurnedUnit || "kcal",
-            startDate: attrs.startDate,
-            endDate: attrs.endDate,
-            sourceName: attrs.sourceName,
-            sourceVersion: attrs.sourceVersion,
-          });
-        }
-      }
-    }
+  private static extractWorkouts(data: AppleHealthExport): ParsedWorkout[] {
+    const toNumber = (value?: string) => {
+      const number = value === undefined ? NaN : parseFloat(value);
+      return Number.isFinite(number) ? number : undefined;
+    };
 
-    return records;
+    return (data.HealthData?.Workout ?? []).map((workout) => {
+      const attrs = workout.$;
+
+      return {
+        activityType: attrs.workoutActivityType,
+        duration: toNumber(attrs.duration),
+        durationUnit: attrs.durationUnit,
+        totalDistance: toNumber(attrs.totalDistance),
+        totalDistanceUnit: attrs.totalDistanceUnit,
+        totalEnergyBurned: toNumber(attrs.totalEnergyBurned),
+        totalEnergyBurnedUnit: attrs.totalEnergyBurnedUnit,
+        startDate: attrs.startDate,
+        endDate: attrs.endDate,
+        sourceName: attrs.sourceName,
+        sourceVersion: attrs.sourceVersion,
+        device: attrs.device,
+        metadata: this.toMetadata(workout.MetadataEntry),
+        routeFile: workout.WorkoutRoute?.[0]?.FileReference?.[0]?.$.path,
+        statistics: (workout.WorkoutStatistics ?? []).map(({ $: stat }) => ({
+          type: stat.type,
+          startDate: stat.startDate,
+          endDate: stat.endDate,
+          average: toNumber(stat.average),
+          minimum: toNumber(stat.minimum),
+          maximum: toNumber(stat.maximum),
+          sum: toNumber(stat.sum),
+          unit: stat.unit,
+        })),
+        events: (workout.WorkoutEvent ?? []).map((event) => ({
+          type: event.$.type,
+          date: event.$.date,
+          duration: toNumber(event.$.duration),
+          durationUnit: event.$.durationUnit,
+          metadata: this.toMetadata(event.MetadataEntry),
+        })),
+      };
+    });
   }
 
   static validateHealthData(records: ParsedHealthData[]): {
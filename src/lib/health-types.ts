@@ -0,0 +1,794 @@
+import { METRIC_CATEGORIES, type MetricCategory } from "~/types/health";
+
+/**
+ * How a type's samples combine over time: cumulative quantities are summed (steps, energy),
+ * discrete ones are sampled and averaged (heart rate, weight), and category types record a state
+ * over an interval (sleep stages, stand hours).
+ */
+export type HealthTypeAggregation = "cumulative" | "discrete" | "category";
+
+export interface HealthTypeDefinition {
+  identifier: string; // e.g. "HKQuantityTypeIdentifierStepCount"
+  name: string;
+  category: MetricCategory;
+  unit: string | null; // canonical unit quantities are stored in; null for category types
+  imperialUnit?: string; // shown instead of `unit` to imperial users
+  aggregation: HealthTypeAggregation;
+  range?: [number, number]; // plausible values in `unit`, inclusive
+}
+
+const {
+  ACTIVITY,
+  MOBILITY,
+  BODY,
+  VITALS,
+  SLEEP,
+  NUTRITION,
+  HEARING,
+  MINDFULNESS,
+  OTHER,
+} = METRIC_CATEGORIES;
+
+// HealthKit's type catalogue. Types missing here are still imported; see getHealthType.
+export const HEALTH_TYPES: HealthTypeDefinition[] = [
+  // Activity
+  {
+    identifier: "HKQuantityTypeIdentifierStepCount",
+    name: "Steps",
+    category: ACTIVITY,
+    unit: "count",
+    aggregation: "cumulative",
+    range: [0, 100_000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDistanceWalkingRunning",
+    name: "Walking + Running Distance",
+    category: ACTIVITY,
+    unit: "km",
+    imperialUnit: "mi",
+    aggregation: "cumulative",
+    range: [0, 500],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDistanceCycling",
+    name: "Cycling Distance",
+    category: ACTIVITY,
+    unit: "km",
+    imperialUnit: "mi",
+    aggregation: "cumulative",
+    range: [0, 1000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDistanceSwimming",
+    name: "Swimming Distance",
+    category: ACTIVITY,
+    unit: "m",
+    imperialUnit: "yd",
+    aggregation: "cumulative",
+    range: [0, 50_000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDistanceWheelchair",
+    name: "Wheelchair Distance",
+    category: ACTIVITY,
+    unit: "km",
+    imperialUnit: "mi",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDistanceDownhillSnowSports",
+    name: "Downhill Snow Sports Distance",
+    category: ACTIVITY,
+    unit: "km",
+    imperialUnit: "mi",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierPushCount",
+    name: "Wheelchair Pushes",
+    category: ACTIVITY,
+    unit: "count",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierSwimmingStrokeCount",
+    name: "Swimming Strokes",
+    category: ACTIVITY,
+    unit: "count",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierActiveEnergyBurned",
+    name: "Active Energy",
+    category: ACTIVITY,
+    unit: "kcal",
+    aggregation: "cumulative",
+    range: [0, 20_000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBasalEnergyBurned",
+    name: "Resting Energy",
+    category: ACTIVITY,
+    unit: "kcal",
+    aggregation: "cumulative",
+    range: [0, 20_000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierFlightsClimbed",
+    name: "Flights Climbed",
+    category: ACTIVITY,
+    unit: "count",
+    aggregation: "cumulative",
+    range: [0, 1000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAppleExerciseTime",
+    name: "Exercise Minutes",
+    category: ACTIVITY,
+    unit: "min",
+    aggregation: "cumulative",
+    range: [0, 1440],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAppleStandTime",
+    name: "Stand Minutes",
+    category: ACTIVITY,
+    unit: "min",
+    aggregation: "cumulative",
+    range: [0, 1440],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAppleMoveTime",
+    name: "Move Minutes",
+    category: ACTIVITY,
+    unit: "min",
+    aggregation: "cumulative",
+    range: [0, 1440],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAppleStandHours",
+    name: "Stand Hours",
+    category: ACTIVITY,
+    unit: "count",
+    aggregation: "cumulative",
+    range: [0, 24],
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierAppleStandHour",
+    name: "Stand Hour",
+    category: ACTIVITY,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierTimeInDaylight",
+    name: "Time in Daylight",
+    category: ACTIVITY,
+    unit: "min",
+    aggregation: "cumulative",
+    range: [0, 1440],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierNikeFuel",
+    name: "NikeFuel",
+    category: ACTIVITY,
+    unit: "count",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierPhysicalEffort",
+    name: "Physical Effort",
+    category: ACTIVITY,
+    unit: "kcal/hr·kg",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRunningSpeed",
+    name: "Running Speed",
+    category: ACTIVITY,
+    unit: "km/hr",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRunningPower",
+    name: "Running Power",
+    category: ACTIVITY,
+    unit: "W",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRunningStrideLength",
+    name: "Running Stride Length",
+    category: ACTIVITY,
+    unit: "m",
+    imperialUnit: "ft",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRunningVerticalOscillation",
+    name: "Vertical Oscillation",
+    category: ACTIVITY,
+    unit: "cm",
+    imperialUnit: "in",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRunningGroundContactTime",
+    name: "Ground Contact Time",
+    category: ACTIVITY,
+    unit: "ms",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierCyclingSpeed",
+    name: "Cycling Speed",
+    category: ACTIVITY,
+    unit: "km/hr",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierCyclingPower",
+    name: "Cycling Power",
+    category: ACTIVITY,
+    unit: "W",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierCyclingCadence",
+    name: "Cycling Cadence",
+    category: ACTIVITY,
+    unit: "count/min",
+    aggregation: "discrete",
+  },
+
+  // Mobility
+  {
+    identifier: "HKQuantityTypeIdentifierWalkingSpeed",
+    name: "Walking Speed",
+    category: MOBILITY,
+    unit: "km/hr",
+    aggregation: "discrete",
+    range: [0, 20],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierWalkingStepLength",
+    name: "Walking Step Length",
+    category: MOBILITY,
+    unit: "cm",
+    imperialUnit: "in",
+    aggregation: "discrete",
+    range: [0, 250],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierWalkingAsymmetryPercentage",
+    name: "Walking Asymmetry",
+    category: MOBILITY,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierWalkingDoubleSupportPercentage",
+    name: "Double Support Time",
+    category: MOBILITY,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAppleWalkingSteadiness",
+    name: "Walking Steadiness",
+    category: MOBILITY,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierStairAscentSpeed",
+    name: "Stair Speed: Up",
+    category: MOBILITY,
+    unit: "m/s",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierStairDescentSpeed",
+    name: "Stair Speed: Down",
+    category: MOBILITY,
+    unit: "m/s",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierSixMinuteWalkTestDistance",
+    name: "Six-Minute Walk",
+    category: MOBILITY,
+    unit: "m",
+    imperialUnit: "yd",
+    aggregation: "discrete",
+    range: [0, 1500],
+  },
+
+  // Vitals
+  {
+    identifier: "HKQuantityTypeIdentifierHeartRate",
+    name: "Heart Rate",
+    category: VITALS,
+    unit: "count/min",
+    aggregation: "discrete",
+    range: [20, 300],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRestingHeartRate",
+    name: "Resting Heart Rate",
+    category: VITALS,
+    unit: "count/min",
+    aggregation: "discrete",
+    range: [20, 250],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierWalkingHeartRateAverage",
+    name: "Walking Heart Rate Average",
+    category: VITALS,
+    unit: "count/min",
+    aggregation: "discrete",
+    range: [20, 300],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierHeartRateVariabilitySDNN",
+    name: "Heart Rate Variability",
+    category: VITALS,
+    unit: "ms",
+    aggregation: "discrete",
+    range: [0, 500],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierHeartRateRecoveryOneMinute",
+    name: "Cardio Recovery",
+    category: VITALS,
+    unit: "count/min",
+    aggregation: "discrete",
+    range: [0, 200],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierVO2Max",
+    name: "Cardio Fitness (VO2 max)",
+    category: VITALS,
+    unit: "mL/min·kg",
+    aggregation: "discrete",
+    range: [5, 100],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAtrialFibrillationBurden",
+    name: "AFib History",
+    category: VITALS,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBloodPressureSystolic",
+    name: "Blood Pressure (Systolic)",
+    category: VITALS,
+    unit: "mmHg",
+    aggregation: "discrete",
+    range: [40, 300],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBloodPressureDiastolic",
+    name: "Blood Pressure (Diastolic)",
+    category: VITALS,
+    unit: "mmHg",
+    aggregation: "discrete",
+    range: [20, 200],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierRespiratoryRate",
+    name: "Respiratory Rate",
+    category: VITALS,
+    unit: "count/min",
+    aggregation: "discrete",
+    range: [0, 100],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierOxygenSaturation",
+    name: "Oxygen Saturation",
+    category: VITALS,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0.5, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBodyTemperature",
+    name: "Body Temperature",
+    category: VITALS,
+    unit: "degC",
+    imperialUnit: "degF",
+    aggregation: "discrete",
+    range: [25, 45],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierAppleSleepingWristTemperature",
+    name: "Wrist Temperature",
+    category: VITALS,
+    unit: "degC",
+    imperialUnit: "degF",
+    aggregation: "discrete",
+    range: [20, 45],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBloodGlucose",
+    name: "Blood Glucose",
+    category: VITALS,
+    unit: "mg/dL",
+    aggregation: "discrete",
+    range: [10, 1000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierPeripheralPerfusionIndex",
+    name: "Perfusion Index",
+    category: VITALS,
+    unit: "%",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierHighHeartRateEvent",
+    name: "High Heart Rate Notification",
+    category: VITALS,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierLowHeartRateEvent",
+    name: "Low Heart Rate Notification",
+    category: VITALS,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierIrregularHeartRhythmEvent",
+    name: "Irregular Rhythm Notification",
+    category: VITALS,
+    unit: null,
+    aggregation: "category",
+  },
+
+  // Body measurements
+  {
+    identifier: "HKQuantityTypeIdentifierBodyMass",
+    name: "Weight",
+    category: BODY,
+    unit: "kg",
+    imperialUnit: "lb",
+    aggregation: "discrete",
+    range: [1, 650],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierHeight",
+    name: "Height",
+    category: BODY,
+    unit: "cm",
+    imperialUnit: "in",
+    aggregation: "discrete",
+    range: [30, 275],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBodyMassIndex",
+    name: "BMI",
+    category: BODY,
+    unit: "count",
+    aggregation: "discrete",
+    range: [5, 150],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBodyFatPercentage",
+    name: "Body Fat Percentage",
+    category: BODY,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierLeanBodyMass",
+    name: "Lean Body Mass",
+    category: BODY,
+    unit: "kg",
+    imperialUnit: "lb",
+    aggregation: "discrete",
+    range: [1, 400],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierWaistCircumference",
+    name: "Waist Circumference",
+    category: BODY,
+    unit: "cm",
+    imperialUnit: "in",
+    aggregation: "discrete",
+    range: [20, 300],
+  },
+
+  // Nutrition
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryEnergyConsumed",
+    name: "Dietary Energy",
+    category: NUTRITION,
+    unit: "kcal",
+    aggregation: "cumulative",
+    range: [0, 20_000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryWater",
+    name: "Water",
+    category: NUTRITION,
+    unit: "mL",
+    imperialUnit: "fl_oz_us",
+    aggregation: "cumulative",
+    range: [0, 20_000],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryProtein",
+    name: "Protein",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryCarbohydrates",
+    name: "Carbohydrates",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryFatTotal",
+    name: "Total Fat",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryFatSaturated",
+    name: "Saturated Fat",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryFatMonounsaturated",
+    name: "Monounsaturated Fat",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryFatPolyunsaturated",
+    name: "Polyunsaturated Fat",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryFiber",
+    name: "Fiber",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietarySugar",
+    name: "Sugar",
+    category: NUTRITION,
+    unit: "g",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryCholesterol",
+    name: "Cholesterol",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietarySodium",
+    name: "Sodium",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryPotassium",
+    name: "Potassium",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryCalcium",
+    name: "Calcium",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryIron",
+    name: "Iron",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryVitaminC",
+    name: "Vitamin C",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryVitaminD",
+    name: "Vitamin D",
+    category: NUTRITION,
+    unit: "mcg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierDietaryCaffeine",
+    name: "Caffeine",
+    category: NUTRITION,
+    unit: "mg",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierNumberOfAlcoholicBeverages",
+    name: "Alcoholic Beverages",
+    category: NUTRITION,
+    unit: "count",
+    aggregation: "cumulative",
+  },
+
+  // Sleep, hearing and mindfulness
+  {
+    identifier: "HKCategoryTypeIdentifierSleepAnalysis",
+    name: "Sleep",
+    category: SLEEP,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierEnvironmentalAudioExposure",
+    name: "Environmental Noise Exposure",
+    category: HEARING,
+    unit: "dBASPL",
+    aggregation: "discrete",
+    range: [0, 200],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierHeadphoneAudioExposure",
+    name: "Headphone Audio Exposure",
+    category: HEARING,
+    unit: "dBASPL",
+    aggregation: "discrete",
+    range: [0, 200],
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierAudioExposureEvent",
+    name: "Noise Notification",
+    category: HEARING,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierHeadphoneAudioExposureEvent",
+    name: "Headphone Notification",
+    category: HEARING,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierMindfulSession",
+    name: "Mindful Minutes",
+    category: MINDFULNESS,
+    unit: null,
+    aggregation: "category",
+  },
+
+  // Other
+  {
+    identifier: "HKQuantityTypeIdentifierNumberOfTimesFallen",
+    name: "Number of Times Fallen",
+    category: OTHER,
+    unit: "count",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierUVExposure",
+    name: "UV Index",
+    category: OTHER,
+    unit: "count",
+    aggregation: "discrete",
+    range: [0, 20],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierInhalerUsage",
+    name: "Inhaler Usage",
+    category: OTHER,
+    unit: "count",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierInsulinDelivery",
+    name: "Insulin Delivery",
+    category: OTHER,
+    unit: "IU",
+    aggregation: "cumulative",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierBloodAlcoholContent",
+    name: "Blood Alcohol Content",
+    category: OTHER,
+    unit: "%",
+    aggregation: "discrete",
+    range: [0, 1],
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierUnderwaterDepth",
+    name: "Underwater Depth",
+    category: OTHER,
+    unit: "m",
+    imperialUnit: "ft",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKQuantityTypeIdentifierWaterTemperature",
+    name: "Water Temperature",
+    category: OTHER,
+    unit: "degC",
+    imperialUnit: "degF",
+    aggregation: "discrete",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierHandwashingEvent",
+    name: "Handwashing",
+    category: OTHER,
+    unit: null,
+    aggregation: "category",
+  },
+  {
+    identifier: "HKCategoryTypeIdentifierToothbrushingEvent",
+    name: "Toothbrushing",
+    category: OTHER,
+    unit: null,
+    aggregation: "category",
+  },
+];
+
+const BY_IDENTIFIER = new Map(
+  HEALTH_TYPES.map((type) => [type.identifier, type]),
+);
+
+// "HKQuantityTypeIdentifierDietaryVitaminB6" -> "Dietary Vitamin B6"
+const nameFromIdentifier = (identifier: string) =>
+  identifier
+    .replace(/^HK\w*?TypeIdentifier/, "")
+    .replace(/([a-z])([A-Z0-9])/g, "$1 $2");
+
+/**
+ * The registry entry for a type. Types HealthKit added after this list was written get a
+ * definition derived from the identifier, so they are imported and listed like any other.
+ */
+export function getHealthType(identifier: string): HealthTypeDefinition {
+  return (
+    BY_IDENTIFIER.get(identifier) ?? {
+      identifier,
+      name: nameFromIdentifier(identifier),
+      category: OTHER,
+      unit: null,
+      aggregation: identifier.startsWith("HKCategoryTypeIdentifier")
+        ? "category"
+        : "discrete",
+    }
+  );
+}
+
+// Whether a canonical quantity is within the type's plausible range; types without one accept anything
+export function isPlausibleValue(identifier: string, quantity: number) {
+  const range = BY_IDENTIFIER.get(identifier)?.range;
+  return !range || (quantity >= range[0] && quantity <= range[1]);
+}
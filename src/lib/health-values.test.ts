@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { parseRecordValue, SLEEP_STAGES } from "~/lib/health-values";
+
+const SLEEP_ANALYSIS = "HKCategoryTypeIdentifierSleepAnalysis";
+
+describe("category values", () => {
+  it.each([
+    ["HKCategoryValueSleepAnalysisInBed", SLEEP_STAGES.IN_BED],
+    ["HKCategoryValueSleepAnalysisAsleep", SLEEP_STAGES.ASLEEP_UNSPECIFIED],
+    [
+      "HKCategoryValueSleepAnalysisAsleepUnspecified",
+      SLEEP_STAGES.ASLEEP_UNSPECIFIED,
+    ],
+    ["HKCategoryValueSleepAnalysisAwake", SLEEP_STAGES.AWAKE],
+    ["HKCategoryValueSleepAnalysisAsleepCore", SLEEP_STAGES.ASLEEP_CORE],
+    ["HKCategoryValueSleepAnalysisAsleepDeep", SLEEP_STAGES.ASLEEP_DEEP],
+    ["HKCategoryValueSleepAnalysisAsleepREM", SLEEP_STAGES.ASLEEP_REM],
+  ])("stores %s as sleep stage %i", (value, stage) => {
+    expect(parseRecordValue(SLEEP_ANALYSIS, value)).toEqual({
+      quantity: null,
+      categoryValue: stage,
+      unit: null,
+    });
+  });
+
+  it("maps the identifiers of other category types", () => {
+    expect(
+      parseRecordValue(
+        "HKCategoryTypeIdentifierAppleStandHour",
+        "HKCategoryValueAppleStandHourIdle",
+      ).categoryValue,
+    ).toBe(1);
+    // Symptom types aren't listed in health-types, but are categories all the same
+    expect(
+      parseRecordValue(
+        "HKCategoryTypeIdentifierHeadache",
+        "HKCategoryValueSeverityModerate",
+      ).categoryValue,
+    ).toBe(3);
+  });
+
+  it("keeps a raw numeric value", () => {
+    expect(parseRecordValue(SLEEP_ANALYSIS, "4").categoryValue).toBe(4);
+  });
+
+  it("stores no value for an identifier it doesn't know", () => {
+    expect(
+      parseRecordValue(SLEEP_ANALYSIS, "HKCategoryValueSleepAnalysisNapping"),
+    ).toEqual({ quantity: null, categoryValue: null, unit: null });
+  });
+
+  it("drops the unit of a category sample", () => {
+    expect(
+      parseRecordValue(
+        "HKCategoryTypeIdentifierHighHeartRateEvent",
+        "HKCategoryValueNotApplicable",
+        "count/min",
+      ),
+    ).toEqual({ quantity: null, categoryValue: 0, unit: null });
+  });
+});
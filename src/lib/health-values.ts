@@ -0,0 +1,99 @@
+import { getHealthType, isPlausibleValue } from "~/lib/health-types";
+import { toCanonicalUnit } from "~/lib/units";
+
+// HKCategoryValue* identifiers mapped to the raw values HealthKit stores for them
+export const CATEGORY_VALUES: Record<string, number> = {
+  HKCategoryValueNotApplicable: 0,
+
+  // HKCategoryValueSleepAnalysis
+  HKCategoryValueSleepAnalysisInBed: 0,
+  HKCategoryValueSleepAnalysisAsleep: 1, // pre-iOS 16 exports
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 1,
+  HKCategoryValueSleepAnalysisAwake: 2,
+  HKCategoryValueSleepAnalysisAsleepCore: 3,
+  HKCategoryValueSleepAnalysisAsleepDeep: 4,
+  HKCategoryValueSleepAnalysisAsleepREM: 5,
+
+  // HKCategoryValueAppleStandHour
+  HKCategoryValueAppleStandHourStood: 0,
+  HKCategoryValueAppleStandHourIdle: 1,
+
+  // HKCategoryValueSeverity, used by symptom types
+  HKCategoryValueSeverityUnspecified: 0,
+  HKCategoryValueSeverityNotPresent: 1,
+  HKCategoryValueSeverityMild: 2,
+  HKCategoryValueSeverityModerate: 3,
+  HKCategoryValueSeveritySevere: 4,
+
+  // HKCategoryValuePresence
+  HKCategoryValuePresencePresent: 0,
+  HKCategoryValuePresenceNotPresent: 1,
+};
+
+export const SLEEP_STAGES = {
+  IN_BED: 0,
+  ASLEEP_UNSPECIFIED: 1,
+  AWAKE: 2,
+  ASLEEP_CORE: 3,
+  ASLEEP_DEEP: 4,
+  ASLEEP_REM: 5,
+} as const;
+
+// Every stage that counts towards time asleep
+export const ASLEEP_STAGES: readonly number[] = [
+  SLEEP_STAGES.ASLEEP_UNSPECIFIED,
+  SLEEP_STAGES.ASLEEP_CORE,
+  SLEEP_STAGES.ASLEEP_DEEP,
+  SLEEP_STAGES.ASLEEP_REM,
+];
+
+export const isCategoryType = (type: string) =>
+  getHealthType(type).aggregation === "category";
+
+export interface TypedRecordValue {
+  quantity: number | null;
+  categoryValue: number | null;
+  unit: string | null;
+}
+
+/**
+ * Split an exported value into the typed columns: a number in its type's canonical unit for
+ * quantity types, the HealthKit raw value for category types. Category samples are unitless, so
+ * their unit is dropped. Quantities outside the type's plausible range (a 0 kg weigh-in, a
+ * 900 bpm glitch), or in a unit that can't be converted, keep only their raw value, so they stay
+ * out of charts and rollups.
+ */
+export function parseRecordValue(
+  type: string,
+  value: string,
+  unit?: string | null,
+): TypedRecordValue {
+  if (isCategoryType(type)) {
+    const known = CATEGORY_VALUES[value];
+    const numeric = Number.parseInt(value, 10);
+
+    return {
+      quantity: null,
+      categoryValue: known ?? (Number.isFinite(numeric) ? numeric : null),
+      unit: null,
+    };
+  }
+
+  const quantity = Number(value);
+  const normalizedUnit = unit?.trim() ?? null;
+  if (value.trim() === "" || !Number.isFinite(quantity)) {
+    return { quantity: null, categoryValue: null, unit: normalizedUnit };
+  }
+
+  const canonical = toCanonicalUnit(type, quantity, normalizedUnit);
+  const plausible =
+    canonical.quantity !== null &&
+    (canonical.unit !== getHealthType(type).unit ||
+      isPlausibleValue(type, canonical.quantity));
+
+  return {
+    quantity: plausible ? canonical.quantity : null,
+    categoryValue: null,
+    unit: canonical.unit,
+  };
+}
@@ -0,0 +1,63 @@
+import { format, parseISO } from "date-fns";
+import { getHealthType } from "~/lib/health-types";
+import type { ImportConfig } from "~/types/health";
+
+// Imports everything in the export
+export const EMPTY_IMPORT_CONFIG: ImportConfig = {
+  startDate: null,
+  endDate: null,
+  categories: [],
+  types: [],
+  sources: [],
+  devices: [],
+};
+
+/**
+ * Whether a local yyyy-MM-dd day falls in the import's date window. Dates are compared as
+ * exported, so the server's own zone never shifts a day.
+ */
+export function isDayInImportWindow(
+  config: ImportConfig | null | undefined,
+  day: string,
+) {
+  return (
+    (!config?.startDate || day >= config.startDate) &&
+    (!config?.endDate || day <= config.endDate)
+  );
+}
+
+const formatDay = (day: string) => format(parseISO(day), "MMM d, yyyy");
+
+const list = (items: string[], limit = 3) =>
+  items.length > limit
+    ? `${items.slice(0, limit).join(", ")} and ${items.length - limit} more`
+    : items.join(", ");
+
+/**
+ * One line per filter an import applied, e.g. ["Since Jan 1, 2024", "Sleep, Vitals"]; empty
+ * when it imported everything.
+ */
+export function describeImportConfig(config: ImportConfig | null): string[] {
+  if (!config) return [];
+
+  const lines: string[] = [];
+  if (config.startDate && config.endDate) {
+    lines.push(
+      `${formatDay(config.startDate)} to ${formatDay(config.endDate)}`,
+    );
+  } else if (config.startDate) {
+    lines.push(`Since ${formatDay(config.startDate)}`);
+  } else if (config.endDate) {
+    lines.push(`Until ${formatDay(config.endDate)}`);
+  }
+
+  const selected = [
+    ...config.categories,
+    ...config.types.map((type) => getHealthType(type).name),
+  ];
+  if (selected.length > 0) lines.push(list(selected));
+  if (config.sources.length > 0) lines.push(`From ${list(config.sources)}`);
+  if (config.devices.length > 0) lines.push(`On ${list(config.devices)}`);
+
+  return lines;
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { SLEEP_STAGES } from "~/lib/health-values";
+import { buildSleepSessions, type SleepSample } from "~/lib/sleep";
+
+const sample = (
+  stage: number,
+  start: string,
+  end: string,
+  sourceName = "Apple Watch",
+  utcOffset = 0,
+): SleepSample => ({
+  stage,
+  startDate: new Date(start),
+  endDate: new Date(end),
+  sourceName,
+  utcOffset,
+});
+
+describe("buildSleepSessions", () => {
+  it("keeps samples up to 90 minutes apart in one session", () => {
+    const sessions = buildSleepSessions([
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-01T23:00:00Z",
+        "2024-03-02T01:00:00Z",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-02T02:30:00Z",
+        "2024-03-02T06:00:00Z",
+      ),
+    ]);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]!.asleepMinutes).toBe(330);
+  });
+
+  it("starts a new session after a longer gap", () => {
+    const sessions = buildSleepSessions([
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-01T23:00:00Z",
+        "2024-03-02T01:00:00Z",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-02T02:31:00Z",
+        "2024-03-02T06:00:00Z",
+      ),
+    ]);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions.map((session) => session.asleepMinutes)).toEqual([
+      120, 209,
+    ]);
+  });
+
+  it("takes stages from the most detailed source when sources overlap", () => {
+    const [session] = buildSleepSessions([
+      sample(
+        SLEEP_STAGES.IN_BED,
+        "2024-03-01T22:30:00Z",
+        "2024-03-02T06:30:00Z",
+        "iPhone",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_UNSPECIFIED,
+        "2024-03-01T23:00:00Z",
+        "2024-03-02T06:00:00Z",
+        "iPhone",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-01T23:00:00Z",
+        "2024-03-02T01:00:00Z",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_DEEP,
+        "2024-03-02T01:00:00Z",
+        "2024-03-02T02:00:00Z",
+      ),
+      sample(
+        SLEEP_STAGES.AWAKE,
+        "2024-03-02T02:00:00Z",
+        "2024-03-02T02:15:00Z",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_REM,
+        "2024-03-02T02:15:00Z",
+        "2024-03-02T06:00:00Z",
+      ),
+    ]);
+
+    expect(session!.sourceName).toBe("Apple Watch");
+    // The phone's overlapping "asleep" isn't counted on top of the watch's stages
+    expect(session!.asleepMinutes).toBe(405);
+    expect(session!.coreMinutes).toBe(120);
+    expect(session!.deepMinutes).toBe(60);
+    expect(session!.remMinutes).toBe(225);
+    expect(session!.unspecifiedMinutes).toBe(0);
+    expect(session!.inBedMinutes).toBe(480);
+    expect(session!.latencyMinutes).toBe(30);
+    expect(session!.wasoMinutes).toBe(15);
+  });
+
+  it("trims overlap between samples of the same source", () => {
+    const [session] = buildSleepSessions([
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-01T23:00:00Z",
+        "2024-03-02T01:00:00Z",
+      ),
+      sample(
+        SLEEP_STAGES.ASLEEP_DEEP,
+        "2024-03-02T00:30:00Z",
+        "2024-03-02T02:00:00Z",
+      ),
+    ]);
+
+    expect(session!.hypnogram).toEqual([
+      {
+        stage: SLEEP_STAGES.ASLEEP_CORE,
+        start: new Date("2024-03-01T23:00:00Z"),
+        end: new Date("2024-03-02T01:00:00Z"),
+      },
+      {
+        stage: SLEEP_STAGES.ASLEEP_DEEP,
+        start: new Date("2024-03-02T01:00:00Z"),
+        end: new Date("2024-03-02T02:00:00Z"),
+      },
+    ]);
+    expect(session!.asleepMinutes).toBe(180);
+  });
+
+  it("files a night that crosses midnight under the local day of waking", () => {
+    // 22:00-06:00 at UTC-5 runs from 03:00 to 11:00 UTC the next day
+    const samples = [
+      sample(
+        SLEEP_STAGES.ASLEEP_CORE,
+        "2024-03-02T03:00:00Z",
+        "2024-03-02T11:00:00Z",
+        "Apple Watch",
+        -300,
+      ),
+    ];
+
+    expect(buildSleepSessions(samples)[0]!.wakeDate).toBe("2024-03-02");
+    // A home zone far enough east moves the wake-up to the next local day
+    expect(buildSleepSessions(samples, "Pacific/Kiritimati")[0]!.wakeDate).toBe(
+      "2024-03-03",
+    );
+  });
+
+  it("returns no sessions without samples", () => {
+    expect(buildSleepSessions([])).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { ASLEEP_STAGES, SLEEP_STAGES } from "~/lib/health-values";
+import { localDateString } from "~/lib/time-zones";
+import type { SleepSession, SleepStageSegment } from "~/types/health";
+
+// A SleepAnalysis record with its category value
+export interface SleepSample {
+  startDate: Date;
+  endDate: Date;
+  stage: number;
+  sourceName: string | null;
+  timeZone?: string | null;
+  utcOffset?: number | null;
+}
+
+// Samples further apart than this belong to separate sessions (a nap, the next night)
+const SESSION_GAP_MS = 90 * 60 * 1000;
+
+const DETAILED_STAGES: readonly number[] = [
+  SLEEP_STAGES.ASLEEP_CORE,
+  SLEEP_STAGES.ASLEEP_DEEP,
+  SLEEP_STAGES.ASLEEP_REM,
+];
+
+const minutes = (ms: number) => ms / 60_000;
+const duration = (segment: { start: Date; end: Date }) =>
+  segment.end.getTime() - segment.start.getTime();
+
+// Total length of the union of the intervals
+function coveredMs(intervals: Array<{ start: Date; end: Date }>) {
+  const sorted = [...intervals].sort(
+    (a, b) => a.start.getTime() - b.start.getTime(),
+  );
+
+  let total = 0;
+  let cursor = -Infinity;
+  for (const { start, end } of sorted) {
+    const from = Math.max(start.getTime(), cursor);
+    if (end.getTime() > from) total += end.getTime() - from;
+    cursor = Math.max(cursor, end.getTime());
+  }
+  return total;
+}
+
+/**
+ * Stage samples often come from several sources at once (the watch's stages, a phone's
+ * "asleep"). Pick the source with the most stage detail, then the most time recorded.
+ */
+function pickStageSource(samples: SleepSample[]) {
+  const scores = new Map<string, { detailed: number; total: number }>();
+  for (const sample of samples) {
+    const key = sample.sourceName ?? "";
+    const score = scores.get(key) ?? { detailed: 0, total: 0 };
+    const ms = sample.endDate.getTime() - sample.startDate.getTime();
+    if (DETAILED_STAGES.includes(sample.stage)) score.detailed += ms;
+    score.total += ms;
+    scores.set(key, score);
+  }
+
+  let best: string | null = null;
+  let bestScore = { detailed: -1, total: -1 };
+  for (const [source, score] of scores) {
+    if (
+      score.detailed > bestScore.detailed ||
+      (score.detailed === bestScore.detailed && score.total > bestScore.total)
+    ) {
+      best = source;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Build the hypnogram of one source, trimming any overlap between its own samples
+function toHypnogram(samples: SleepSample[]): SleepStageSegment[] {
+  const segments: SleepStageSegment[] = [];
+
+  for (const sample of [...samples].sort(
+    (a, b) => a.startDate.getTime() - b.startDate.getTime(),
+  )) {
+    const previous = segments[segments.length - 1];
+    const start =
+      previous && previous.end > sample.startDate
+        ? previous.end
+        : sample.startDate;
+    if (sample.endDate <= start) continue;
+
+    segments.push({ stage: sample.stage, start, end: sample.endDate });
+  }
+  return segments;
+}
+
+function summarizeSession(
+  samples: SleepSample[],
+  homeTimeZone: string | null,
+): SleepSession {
+  const inBed = samples.filter((s) => s.stage === SLEEP_STAGES.IN_BED);
+  const staged = samples.filter((s) => s.stage !== SLEEP_STAGES.IN_BED);
+
+  const stageSource = pickStageSource(staged);
+  const hypnogram = toHypnogram(
+    staged.filter((s) => (s.sourceName ?? "") === stageSource),
+  );
+
+  const stageMinutes = (stages: readonly number[]) =>
+    minutes(
+      hypnogram
+        .filter((segment) => stages.includes(segment.stage))
+        .reduce((total, segment) => total + duration(segment), 0),
+    );
+
+  const asleep = hypnogram.filter((s) => ASLEEP_STAGES.includes(s.stage));
+  const firstAsleep = asleep[0];
+  const lastAsleep = asleep[asleep.length - 1];
+
+  const bounds = [...inBed, ...staged];
+  const start = new Date(Math.min(...bounds.map((s) => s.startDate.getTime())));
+  const end = new Date(Math.max(...bounds.map((s) => s.endDate.getTime())));
+
+  // Without an InBed sample, the stage samples stand in for time in bed
+  const inBedMinutes = minutes(
+    inBed.length > 0
+      ? coveredMs(inBed.map((s) => ({ start: s.startDate, end: s.endDate })))
+      : coveredMs(hypnogram),
+  );
+  const asleepMinutes = stageMinutes(ASLEEP_STAGES);
+  const bedtime =
+    inBed.length > 0
+      ? new Date(Math.min(...inBed.map((s) => s.startDate.getTime())))
+      : hypnogram[0]?.start;
+
+  // The last sample decides which day the night belongs to
+  const last = samples.reduce((a, b) => (b.endDate > a.endDate ? b : a));
+
+  return {
+    wakeDate: localDateString(
+      end,
+      homeTimeZone ? { timeZone: homeTimeZone } : last,
+    ),
+    start,
+    end,
+    sourceName: stageSource !== "" ? stageSource : null,
+    inBedMinutes,
+    asleepMinutes,
+    awakeMinutes: stageMinutes([SLEEP_STAGES.AWAKE]),
+    coreMinutes: stageMinutes([SLEEP_STAGES.ASLEEP_CORE]),
+    deepMinutes: stageMinutes([SLEEP_STAGES.ASLEEP_DEEP]),
+    remMinutes: stageMinutes([SLEEP_STAGES.ASLEEP_REM]),
+    unspecifiedMinutes: stageMinutes([SLEEP_STAGES.ASLEEP_UNSPECIFIED]),
+    efficiency:
+      inBedMinutes > 0 && asleep.length > 0
+        ? Math.min(1, asleepMinutes / inBedMinutes)
+        : null,
+    latencyMinutes:
+      bedtime && firstAsleep
+        ? Math.max(0, minutes(firstAsleep.start.getTime() - bedtime.getTime()))
+        : null,
+    wasoMinutes:
+      firstAsleep && lastAsleep
+        ? minutes(
+            hypnogram
+              .filter(
+                (s) =>
+                  s.stage === SLEEP_STAGES.AWAKE &&
+                  s.start >= firstAsleep.start &&
+                  s.end <= lastAsleep.end,
+              )
+              .reduce((total, segment) => total + duration(segment), 0),
+          )
+        : 0,
+    hypnogram,
+  };
+}
+
+/**
+ * Stitch SleepAnalysis samples into sessions. Samples join the current session until a gap of
+ * more than 90 minutes; each session is then attributed to the local day the sleeper woke up on,
+ * so a night never splits across two dates.
+ */
+export function buildSleepSessions(
+  samples: SleepSample[],
+  homeTimeZone: string | null = null,
+): SleepSession[] {
+  const sorted = [...samples].sort(
+    (a, b) => a.startDate.getTime() - b.startDate.getTime(),
+  );
+
+  const groups: SleepSample[][] = [];
+  let current: SleepSample[] = [];
+  let currentEnd = -Infinity;
+
+  for (const sample of sorted) {
+    if (
+      current.length > 0 &&
+      sample.startDate.getTime() - currentEnd > SESSION_GAP_MS
+    ) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(sample);
+    currentEnd = Math.max(currentEnd, sample.endDate.getTime());
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group) => summarizeSession(group, homeTimeZone));
+}
@@ -0,0 +1,41 @@
+import { HEALTH_TYPES } from "~/lib/health-types";
+
+// Metrics that are summed over time, so the same minute counted by two devices inflates totals
+export const CUMULATIVE_TYPES: readonly string[] = HEALTH_TYPES.filter(
+  (type) => type.aggregation === "cumulative",
+).map((type) => type.identifier);
+
+// Like the Health app, prefer the watch over the phone, and both over third-party apps
+export const DEFAULT_DEVICE_PRIORITY = ["Watch", "iPhone"];
+
+// Per metric type, source names from highest to lowest priority
+export type SourcePriorities = Record<string, string[]>;
+
+interface SourceInfo {
+  sourceName: string;
+  deviceModel?: string | null;
+}
+
+/**
+ * Order the sources of one metric: the user's list first, then the remaining sources by device
+ * (watch, phone, everything else) and name.
+ */
+export function rankSources<T extends SourceInfo>(
+  sources: T[],
+  priority: string[] = [],
+): T[] {
+  const rank = (source: T) => {
+    const listed = priority.indexOf(source.sourceName);
+    if (listed !== -1) return listed;
+
+    const device = DEFAULT_DEVICE_PRIORITY.indexOf(source.deviceModel ?? "");
+    return (
+      priority.length +
+      (device === -1 ? DEFAULT_DEVICE_PRIORITY.length : device)
+    );
+  };
+
+  return [...sources].sort(
+    (a, b) => rank(a) - rank(b) || a.sourceName.localeCompare(b.sourceName),
+  );
+}
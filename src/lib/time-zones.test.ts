@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { endOfLocalDay, startOfLocalDay } from "~/lib/time-zones";
+
+const bounds = (day: string, timeZone?: string | null) => [
+  startOfLocalDay(day, timeZone).toISOString(),
+  endOfLocalDay(day, timeZone).toISOString(),
+];
+
+describe("local day bounds", () => {
+  it("uses UTC without a time zone", () => {
+    expect(bounds("2024-03-01", null)).toEqual([
+      "2024-03-01T00:00:00.000Z",
+      "2024-03-01T23:59:59.999Z",
+    ]);
+  });
+
+  it("resolves the day in the given zone", () => {
+    expect(bounds("2024-03-01", "Europe/Berlin")).toEqual([
+      "2024-02-29T23:00:00.000Z",
+      "2024-03-01T22:59:59.999Z",
+    ]);
+    expect(bounds("2024-03-01", "Asia/Kolkata")).toEqual([
+      "2024-02-29T18:30:00.000Z",
+      "2024-03-01T18:29:59.999Z",
+    ]);
+  });
+
+  it("spans 23 or 25 hours on days the clocks change", () => {
+    expect(bounds("2024-03-10", "America/New_York")).toEqual([
+      "2024-03-10T05:00:00.000Z",
+      "2024-03-11T03:59:59.999Z",
+    ]);
+    expect(bounds("2024-11-03", "America/New_York")).toEqual([
+      "2024-11-03T04:00:00.000Z",
+      "2024-11-04T04:59:59.999Z",
+    ]);
+  });
+
+  it("starts the day after the gap where clocks skip midnight", () => {
+    // Santiago moved from 00:00 straight to 01:00 on 2024-09-08
+    expect(
+      startOfLocalDay("2024-09-08", "America/Santiago").toISOString(),
+    ).toBe("2024-09-08T04:00:00.000Z");
+    expect(endOfLocalDay("2024-09-07", "America/Santiago").toISOString()).toBe(
+      "2024-09-08T03:59:59.999Z",
+    );
+  });
+});
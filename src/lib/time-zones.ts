@@ -0,0 +1,105 @@
+/**
+ * Minutes east of UTC from the offset Apple appends to every date, e.g. -300 for
+ * "2024-01-01 08:00:00 -0500". Null when the date carries no offset.
+ */
+export function parseUtcOffset(date: string): number | null {
+  const match = /([+-])(\d{2}):?(\d{2})$/.exec(date.trim());
+  if (!match) return null;
+
+  const [, sign, hours, minutes] = match;
+  const offset = Number(hours) * 60 + Number(minutes);
+  return sign === "-" ? -offset : offset;
+}
+
+// IANA zone names such as "Europe/Berlin"; rejects abbreviations the database can't resolve
+export function isValidTimeZone(timeZone: string | undefined): boolean {
+  if (!timeZone?.includes("/")) return timeZone === "UTC";
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local yyyy-MM-dd of an instant, in `timeZone` when given, else shifted by `utcOffset`
+ * minutes, else in UTC.
+ */
+export function localDateString(
+  date: Date,
+  zone: { timeZone?: string | null; utcOffset?: number | null },
+): string {
+  if (zone.timeZone) {
+    // en-CA formats dates as yyyy-MM-dd
+    return new Intl.DateTimeFormat("en-CA", { timeZone: zone.timeZone }).format(
+      date,
+    );
+  }
+
+  const shifted = new Date(date.getTime() + (zone.utcOffset ?? 0) * 60_000);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Local hour of day (0-23) of an instant, resolved the same way as localDateString
+export function localHour(
+  date: Date,
+  zone: { timeZone?: string | null; utcOffset?: number | null },
+): number {
+  if (zone.timeZone) {
+    return Number(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: zone.timeZone,
+        hour: "numeric",
+        hourCycle: "h23",
+      }).format(date),
+    );
+  }
+
+  return new Date(
+    date.getTime() + (zone.utcOffset ?? 0) * 60_000,
+  ).getUTCHours();
+}
+
+// Minutes east of UTC of `timeZone` at an instant
+function zoneOffset(date: Date, timeZone: string): number {
+  const name = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "longOffset",
+  })
+    .formatToParts(date)
+    .find((part) => part.type === "timeZoneName")?.value;
+
+  // "GMT-05:00", or plain "GMT" for UTC
+  return parseUtcOffset(name ?? "") ?? 0;
+}
+
+/**
+ * The instant a local yyyy-MM-dd day starts in `timeZone`, or in UTC without one. The inverse
+ * of localDateString.
+ */
+export function startOfLocalDay(day: string, timeZone?: string | null): Date {
+  const midnight = new Date(`${day}T00:00:00Z`);
+  if (!timeZone) return midnight;
+
+  // The zone's offset at UTC midnight may differ from its offset at local midnight across a
+  // DST change, so correct with the offset at the first guess
+  const shift = (instant: Date) =>
+    new Date(midnight.getTime() - zoneOffset(instant, timeZone) * 60_000);
+  const guess = shift(midnight);
+  const start = shift(guess);
+
+  // Where clocks skip midnight, the day starts at the end of the gap
+  return localDateString(start, { timeZone }) === day ? start : guess;
+}
+
+// The last millisecond of a local yyyy-MM-dd day, resolved the same way as startOfLocalDay
+export function endOfLocalDay(day: string, timeZone?: string | null): Date {
+  const next = new Date(`${day}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+
+  return new Date(
+    startOfLocalDay(next.toISOString().slice(0, 10), timeZone).getTime() - 1,
+  );
+}
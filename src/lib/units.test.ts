@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseRecordValue } from "~/lib/health-values";
+import { toCanonicalUnit } from "~/lib/units";
+
+const BLOOD_GLUCOSE = "HKQuantityTypeIdentifierBloodGlucose";
+
+describe("blood glucose units", () => {
+  it("converts HealthKit's mmol/L unit to mg/dL", () => {
+    const { quantity, unit } = toCanonicalUnit(
+      BLOOD_GLUCOSE,
+      5.5,
+      "mmol<180.1558800000541>/L",
+    );
+    expect(unit).toBe("mg/dL");
+    expect(quantity).toBeCloseTo(99.0858, 4);
+  });
+
+  it("converts plain mmol/L to mg/dL", () => {
+    const { quantity, unit } = toCanonicalUnit(BLOOD_GLUCOSE, 7, "mmol/L");
+    expect(unit).toBe("mg/dL");
+    expect(quantity).toBeCloseTo(126.1092, 4);
+  });
+
+  it("keeps mg/dL as exported", () => {
+    expect(toCanonicalUnit(BLOOD_GLUCOSE, 104, "mg/dL")).toEqual({
+      quantity: 104,
+      unit: "mg/dL",
+    });
+  });
+
+  it("stores mmol/L readings in mg/dL on import", () => {
+    expect(
+      parseRecordValue(BLOOD_GLUCOSE, "6.1", "mmol<180.1558800000541>/L"),
+    ).toEqual({
+      quantity: expect.closeTo(109.895, 3) as number,
+      categoryValue: null,
+      unit: "mg/dL",
+    });
+  });
+
+  it("rejects units it can't convert, keeping only the raw value", () => {
+    expect(toCanonicalUnit(BLOOD_GLUCOSE, 5.5, "g/L")).toEqual({
+      quantity: null,
+      unit: "g/L",
+    });
+    expect(parseRecordValue(BLOOD_GLUCOSE, "5.5", "g/L")).toEqual({
+      quantity: null,
+      categoryValue: null,
+      unit: "g/L",
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { HEALTH_TYPES } from "~/lib/health-types";
+
+export type UnitSystem = "METRIC" | "IMPERIAL";
+
+// Factors to a base unit per dimension (meters, kilograms, liters, kilocalories)
+const LENGTH_UNITS: Record<string, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  km: 1000,
+  in: 0.0254,
+  ft: 0.3048,
+  yd: 0.9144,
+  mi: 1609.344,
+};
+
+const MASS_UNITS: Record<string, number> = {
+  mcg: 0.000000001,
+  mg: 0.000001,
+  g: 0.001,
+  kg: 1,
+  oz: 0.028349523125,
+  lb: 0.45359237,
+  st: 6.35029318,
+};
+
+const VOLUME_UNITS: Record<string, number> = {
+  mL: 0.001,
+  L: 1,
+  fl_oz_us: 0.0295735295625,
+  fl_oz_imp: 0.0284130625,
+  cup_us: 0.2365882365,
+};
+
+const ENERGY_UNITS: Record<string, number> = {
+  cal: 0.001,
+  kcal: 1,
+  Cal: 1, // food calorie, the unit US exports use
+  J: 1 / 4184,
+  kJ: 1 / 4.184,
+};
+
+const TEMPERATURE_UNITS = ["degC", "degF"];
+
+// Factors to mg/dL. HealthKit writes mmol/L with the molar mass of glucose in brackets.
+const BLOOD_GLUCOSE_UNITS: Record<string, number> = {
+  "mg/dL": 1,
+  "mmol<180.1558800000541>/L": 18.0156,
+  "mmol/L": 18.0156,
+};
+
+interface UnitDimension {
+  units: string[];
+  convert: (value: number, from: string, to: string) => number;
+}
+
+const byFactor = (factors: Record<string, number>): UnitDimension => ({
+  units: Object.keys(factors),
+  convert: (value, from, to) => (value * factors[from]!) / factors[to]!,
+});
+
+const LENGTH = byFactor(LENGTH_UNITS);
+const MASS = byFactor(MASS_UNITS);
+const VOLUME = byFactor(VOLUME_UNITS);
+const ENERGY = byFactor(ENERGY_UNITS);
+const BLOOD_GLUCOSE = byFactor(BLOOD_GLUCOSE_UNITS);
+const TEMPERATURE: UnitDimension = {
+  units: TEMPERATURE_UNITS,
+  convert: (value, from, to) => {
+    if (from === to) return value;
+    return from === "degF" ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+  },
+};
+
+interface UnitRule {
+  dimension: UnitDimension;
+  metric: string; // canonical unit records are stored in
+  imperial: string;
+}
+
+const DIMENSIONS = [LENGTH, MASS, VOLUME, ENERGY, TEMPERATURE, BLOOD_GLUCOSE];
+
+// Types whose exports mix units across locales, from each registry type's canonical unit
+export const UNIT_RULES: Record<string, UnitRule> = Object.fromEntries(
+  HEALTH_TYPES.flatMap(({ identifier, unit, imperialUnit }) => {
+    const dimension = DIMENSIONS.find((d) => unit && d.units.includes(unit));
+    return dimension && unit
+      ? [
+          [
+            identifier,
+            { dimension, metric: unit, imperial: imperialUnit ?? unit },
+          ],
+        ]
+      : [];
+  }),
+);
+
+/**
+ * Convert a quantity to the canonical (metric) unit for its type. Types without a rule, and
+ * quantities without a unit, are returned unchanged. A unit the rule doesn't know can't be
+ * converted, so its quantity is rejected (null) and only the raw value is kept.
+ */
+export function toCanonicalUnit(
+  type: string,
+  quantity: number,
+  unit: string | null,
+): { quantity: number | null; unit: string | null } {
+  const rule = UNIT_RULES[type];
+  if (!rule || !unit) {
+    return { quantity, unit };
+  }
+  if (!rule.dimension.units.includes(unit)) {
+    return { quantity: null, unit };
+  }
+
+  return {
+    quantity: rule.dimension.convert(quantity, unit, rule.metric),
+    unit: rule.metric,
+  };
+}
+
+// Convert a canonical quantity to the unit the user's preferred system shows for its type
+export function toDisplayUnit(
+  type: string,
+  quantity: number,
+  unit: string | null,
+  system: UnitSystem,
+): { quantity: number; unit: string | null } {
+  const rule = UNIT_RULES[type];
+  if (unit !== rule?.metric) return { quantity, unit };
+
+  const target = system === "IMPERIAL" ? rule.imperial : rule.metric;
+  return {
+    quantity: rule.dimension.convert(quantity, rule.metric, target),
+    unit: target,
+  };
+}
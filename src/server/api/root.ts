@@ -1,6 +1,9 @@
 import { chatRouter } from "~/server/api/routers/chat";
+import { clinicalRouter } from "~/server/api/routers/clinical";
+import { electrocardiogramRouter } from "~/server/api/routers/electrocardiogram";
 import { healthRouter } from "~/server/api/routers/health";
 import { postRouter } from "~/server/api/routers/post";
+import { workoutRouter } from "~/server/api/routers/workout";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -12,6 +15,9 @@ export const appRouter = createTRPCRouter({
   post: postRouter,
   health: healthRouter,
   chat: chatRouter,
+  workout: workoutRouter,
+  electrocardiogram: electrocardiogramRouter,
+  clinical: clinicalRouter,
 });
 
 // export type definition of API
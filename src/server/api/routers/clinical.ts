@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+export const clinicalRouter = createTRPCRouter({
+  // List clinical records of one kind, newest first, without the exported resource
+  getClinicalRecords: protectedProcedure
+    .input(
+      z.object({
+        kind: z.enum([
+          "OBSERVATION",
+          "CONDITION",
+          "MEDICATION",
+          "IMMUNIZATION",
+          "ALLERGY",
+        ]),
+        limit: z.number().min(1).max(1000).default(200),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.clinicalRecord.findMany({
+        where: { userId: ctx.user.id, kind: input.kind },
+        orderBy: { date: { sort: "desc", nulls: "last" } },
+        take: input.limit,
+        select: {
+          id: true,
+          kind: true,
+          format: true,
+          name: true,
+          code: true,
+          status: true,
+          date: true,
+          details: true,
+        },
+      });
+    }),
+
+  // Count records per kind
+  getClinicalRecordCounts: protectedProcedure.query(async ({ ctx }) => {
+    const result = await ctx.db.clinicalRecord.groupBy({
+      by: ["kind"],
+      where: { userId: ctx.user.id },
+      _count: {
+        kind: true,
+      },
+    });
+
+    return result.map((item) => ({
+      kind: item.kind,
+      count: item._count.kind,
+    }));
+  }),
+
+  // Get the LOINC codes the user has lab results for
+  getLabCodes: protectedProcedure.query(async ({ ctx }) => {
+    const result = await ctx.db.labResult.groupBy({
+      by: ["loincCode"],
+      where: { userId: ctx.user.id },
+      _count: { loincCode: true },
+      _max: { name: true, effectiveAt: true },
+    });
+
+    return result
+      .map((item) => ({
+        loincCode: item.loincCode,
+        name: item._max.name ?? item.loincCode,
+        count: item._count.loincCode,
+        latest: item._max.effectiveAt,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }),
+
+  // Results of one LOINC code, oldest first
+  getLabResults: protectedProcedure
+    .input(z.object({ loincCode: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.labResult.findMany({
+        where: { userId: ctx.user.id, loincCode: input.loincCode },
+        orderBy: { effectiveAt: "asc" },
+      });
+    }),
+});
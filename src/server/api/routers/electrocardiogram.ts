@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+export const electrocardiogramRouter = createTRPCRouter({
+  // List ECG recordings, newest first, without their samples
+  getElectrocardiograms: protectedProcedure
+    .input(
+      z.object({
+        classification: z.string().optional(),
+        limit: z.number().min(1).max(1000).default(200),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.electrocardiogram.findMany({
+        where: {
+          userId: ctx.user.id,
+          ...(input.classification && {
+            classification: input.classification,
+          }),
+        },
+        orderBy: { recordedAt: "desc" },
+        take: input.limit,
+        select: {
+          id: true,
+          recordedAt: true,
+          classification: true,
+          symptoms: true,
+          sampleRate: true,
+          lead: true,
+          device: true,
+        },
+      });
+    }),
+
+  // Get a single recording with its voltage samples
+  getElectrocardiogram: protectedProcedure
+    .input(z.object({ electrocardiogramId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const electrocardiogram = await ctx.db.electrocardiogram.findFirst({
+        where: {
+          id: input.electrocardiogramId,
+          userId: ctx.user.id,
+        },
+      });
+
+      if (!electrocardiogram) {
+        throw new Error("Electrocardiogram not found or unauthorized");
+      }
+
+      return electrocardiogram;
+    }),
+
+  // Get the classifications the user has recordings for
+  getClassifications: protectedProcedure.query(async ({ ctx }) => {
+    const result = await ctx.db.electrocardiogram.groupBy({
+      by: ["classification"],
+      where: { userId: ctx.user.id },
+      _count: {
+        classification: true,
+      },
+    });
+
+    return result.map((item) => ({
+      classification: item.classification,
+      count: item._count.classification,
+    }));
+  }),
+});
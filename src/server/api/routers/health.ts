@@ -1,126 +1,316 @@
+import { subDays } from "date-fns";
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { AGGREGATE_BUCKETS, AGGREGATIONS } from "~/lib/aggregation";
+import { averageByTimeOfDay } from "~/lib/blood-pressure";
+import {
+  CUMULATIVE_TYPES,
+  DEFAULT_DEVICE_PRIORITY,
+  rankSources,
+  type SourcePriorities,
+} from "~/lib/source-priority";
+import { buildSleepSessions } from "~/lib/sleep";
+import { isValidTimeZone, localHour } from "~/lib/time-zones";
+import { toDisplayUnit } from "~/lib/units";
+import {
+  refreshDailySummaries,
+  SUMMARY_VERSION,
+  uploadDateRange,
+} from "~/server/daily-summaries";
+import {
+  queryAggregates,
+  queryMetricSummaries,
+} from "~/server/health-aggregates";
+import { releaseExistingRecords } from "~/server/health-import";
+import { queueSummaryRebuild } from "~/server/import-queue";
+import { removeUploadedFile } from "~/server/uploads";
+import {
+  CORRELATION_TYPES,
+  HEALTH_DATA_TYPES,
+  type BloodPressureReading,
+  type ExportArtifacts,
+  type ImportProgress,
+  type ImportSummary,
+} from "~/types/health";
 
 export const healthRouter = createTRPCRouter({
-  // Upload and store health data
-  uploadHealthData: protectedProcedure
+  // Records are ingested by import jobs queued from /api/parse-xml
+
+  // Get user's health records
+  getHealthRecords: protectedProcedure
     .input(
       z.object({
-        fileName: z.string(),
-        fileSize: z.number(),
-        healthRecords: z.array(
-          z.object({
-            type: z.string(),
-            value: z.string(),
-            unit: z.string().optional(),
-            startDate: z.string(),
-            endDate: z.string(),
-            sourceName: z.string().optional(),
-            sourceVersion: z.string().optional(),
-          }),
-        ),
+        types: z.array(z.string()).optional(),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+        limit: z.number().min(1).max(10000).default(1000),
       }),
     )
-    .mutation(async ({ ctx, input }) => {
-      // Ensure user exists in our database (upsert from Clerk user data)
-      await ctx.db.user.upsert({
-        where: { id: ctx.user.id },
-        update: {
-          name: ctx.user.fullName,
-          email: ctx.user.emailAddresses[0]?.emailAddress,
-          image: ctx.user.imageUrl,
-        },
-        create: {
-          id: ctx.user.id,
-          name: ctx.user.fullName,
-          email: ctx.user.emailAddresses[0]?.emailAddress,
-          image: ctx.user.imageUrl,
-        },
+    .query(async ({ ctx, input }) => {
+      const where = {
+        userId: ctx.user.id,
+        ...(input.types && { type: { in: input.types } }),
+        ...(input.startDate && { startDate: { gte: input.startDate } }),
+        ...(input.endDate && { endDate: { lte: input.endDate } }),
+      };
+
+      const [records, user] = await Promise.all([
+        ctx.db.healthRecord.findMany({
+          where,
+          orderBy: { startDate: "desc" },
+          take: input.limit,
+        }),
+        ctx.db.user.findUnique({
+          where: { id: ctx.user.id },
+          select: { unitSystem: true },
+        }),
+      ]);
+
+      // Quantities are stored in metric units; present them in the user's system
+      const unitSystem = user?.unitSystem ?? "METRIC";
+      return records.map((record) =>
+        record.quantity === null
+          ? record
+          : {
+              ...record,
+              ...toDisplayUnit(
+                record.type,
+                record.quantity,
+                record.unit,
+                unitSystem,
+              ),
+            },
+      );
+    }),
+
+  // Time-bucketed aggregates computed in Postgres, for charts over the full history
+  getAggregates: protectedProcedure
+    .input(
+      z.object({
+        metrics: z.array(z.string()).min(1).max(20),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+        bucket: z.enum(AGGREGATE_BUCKETS).default("day"),
+        // Omit to sum cumulative metrics and average the rest
+        aggregation: z.enum(AGGREGATIONS).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const [series, user] = await Promise.all([
+        queryAggregates({ userId: ctx.user.id, ...input }),
+        ctx.db.user.findUnique({
+          where: { id: ctx.user.id },
+          select: { unitSystem: true },
+        }),
+      ]);
+
+      const unitSystem = user?.unitSystem ?? "METRIC";
+      return series.map((metric) => {
+        if (metric.aggregation === "count") return metric;
+
+        const unit = toDisplayUnit(
+          metric.type,
+          0,
+          metric.unit,
+          unitSystem,
+        ).unit;
+        return {
+          ...metric,
+          unit,
+          points: metric.points.map((point) => ({
+            ...point,
+            value: toDisplayUnit(
+              metric.type,
+              point.value,
+              metric.unit,
+              unitSystem,
+            ).quantity,
+          })),
+        };
       });
+    }),
 
-      // Create upload record
-      const upload = await ctx.db.healthDataUpload.create({
-        data: {
-          fileName: input.fileName,
-          fileSize: input.fileSize,
-          status: "PROCESSING",
+  // Average, range and latest value per metric from the daily rollups, for the summary cards
+  getMetricSummaries: protectedProcedure
+    .input(
+      z.object({
+        metrics: z.array(z.string()).min(1).max(20),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const [summaries, user] = await Promise.all([
+        queryMetricSummaries({ userId: ctx.user.id, ...input }),
+        ctx.db.user.findUnique({
+          where: { id: ctx.user.id },
+          select: { unitSystem: true },
+        }),
+      ]);
+
+      const unitSystem = user?.unitSystem ?? "METRIC";
+      return summaries.map((summary) => {
+        const display = (value: number) =>
+          toDisplayUnit(summary.type, value, summary.unit, unitSystem);
+
+        return {
+          ...summary,
+          unit: display(0).unit,
+          average: display(summary.average).quantity,
+          min: display(summary.min).quantity,
+          max: display(summary.max).quantity,
+          latest: display(summary.latest).quantity,
+        };
+      });
+    }),
+
+  // Records per type from the daily rollups, over the full history or the given range
+  getDataTypeCounts: protectedProcedure
+    .input(
+      z.object({
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const types = await ctx.db.dailyMetricSummary.groupBy({
+        by: ["type"],
+        where: {
           userId: ctx.user.id,
+          date: { gte: input.startDate, lte: input.endDate },
         },
+        _sum: { count: true },
       });
 
-      // Create health records in batches to avoid overwhelming the database
-      const batchSize = 1000;
-      const batches = [];
-
-      for (let i = 0; i < input.healthRecords.length; i += batchSize) {
-        const batch = input.healthRecords.slice(i, i + batchSize);
-        batches.push(batch);
-      }
+      return types.map((type) => ({
+        type: type.type,
+        count: type._sum.count ?? 0,
+      }));
+    }),
 
-      try {
-        for (const batch of batches) {
-          await ctx.db.healthRecord.createMany({
-            data: batch.map((record) => ({
-              type: record.type,
-              value: record.value,
-              unit: record.unit,
-              startDate: new Date(record.startDate),
-              endDate: new Date(record.endDate),
-              uploadId: upload.id,
+  // Nights of sleep stitched from SleepAnalysis samples, newest first
+  getSleepSessions: protectedProcedure
+    .input(
+      z.object({
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const latest =
+        input.endDate ??
+        (
+          await ctx.db.healthRecord.findFirst({
+            where: {
               userId: ctx.user.id,
-            })),
-          });
-        }
-
-        // Mark upload as completed
-        await ctx.db.healthDataUpload.update({
-          where: { id: upload.id },
-          data: {
-            status: "COMPLETED",
-            processedAt: new Date(),
+              type: HEALTH_DATA_TYPES.SLEEP_ANALYSIS,
+            },
+            orderBy: { endDate: "desc" },
+            select: { endDate: true },
+          })
+        )?.endDate;
+      if (!latest) return [];
+
+      // Default to the last 30 nights with data
+      const from = input.startDate ?? subDays(latest, 30);
+
+      const [records, user] = await Promise.all([
+        ctx.db.healthRecord.findMany({
+          where: {
+            userId: ctx.user.id,
+            type: HEALTH_DATA_TYPES.SLEEP_ANALYSIS,
+            categoryValue: { not: null },
+            // Reach back far enough to catch the start of the first night
+            startDate: { gte: subDays(from, 1), lte: latest },
           },
-        });
+          orderBy: { startDate: "asc" },
+          select: {
+            startDate: true,
+            endDate: true,
+            categoryValue: true,
+            sourceName: true,
+            timeZone: true,
+            utcOffset: true,
+          },
+        }),
+        ctx.db.user.findUnique({
+          where: { id: ctx.user.id },
+          select: { homeTimeZone: true },
+        }),
+      ]);
 
-        return {
-          success: true,
-          uploadId: upload.id,
-          recordsCreated: input.healthRecords.length,
-        };
-      } catch (dbError) {
-        console.error("Database error:", dbError);
-        // Mark upload as failed
-        await ctx.db.healthDataUpload.update({
-          where: { id: upload.id },
-          data: { status: "FAILED" },
-        });
+      const sessions = buildSleepSessions(
+        records.map((record) => ({ ...record, stage: record.categoryValue! })),
+        user?.homeTimeZone,
+      );
 
-        throw new Error("Failed to store health data");
-      }
+      return sessions
+        .filter((session) => session.end >= from && session.end <= latest)
+        .reverse();
     }),
 
-  // Get user's health records
-  getHealthRecords: protectedProcedure
+  // Paired blood pressure readings, with morning and evening averages
+  getBloodPressure: protectedProcedure
     .input(
       z.object({
-        types: z.array(z.string()).optional(),
         startDate: z.date().optional(),
         endDate: z.date().optional(),
-        limit: z.number().min(1).max(10000).default(1000),
       }),
     )
     .query(async ({ ctx, input }) => {
-      const where = {
-        userId: ctx.user.id,
-        ...(input.types && { type: { in: input.types } }),
-        ...(input.startDate && { startDate: { gte: input.startDate } }),
-        ...(input.endDate && { endDate: { lte: input.endDate } }),
-      };
+      const [correlations, user] = await Promise.all([
+        ctx.db.healthCorrelation.findMany({
+          where: {
+            userId: ctx.user.id,
+            type: CORRELATION_TYPES.BLOOD_PRESSURE,
+            startDate: { gte: input.startDate, lte: input.endDate },
+          },
+          orderBy: { startDate: "asc" },
+          select: {
+            id: true,
+            startDate: true,
+            sourceName: true,
+            records: {
+              select: {
+                type: true,
+                quantity: true,
+                timeZone: true,
+                utcOffset: true,
+              },
+            },
+          },
+        }),
+        ctx.db.user.findUnique({
+          where: { id: ctx.user.id },
+          select: { homeTimeZone: true },
+        }),
+      ]);
 
-      return ctx.db.healthRecord.findMany({
-        where,
-        orderBy: { startDate: "desc" },
-        take: input.limit,
-      });
+      const readings: BloodPressureReading[] = [];
+      for (const correlation of correlations) {
+        const systolic = correlation.records.find(
+          (r) => r.type === HEALTH_DATA_TYPES.BLOOD_PRESSURE_SYSTOLIC,
+        );
+        const diastolic = correlation.records.find(
+          (r) => r.type === HEALTH_DATA_TYPES.BLOOD_PRESSURE_DIASTOLIC,
+        );
+        // A reading is only plotted with both halves
+        if (systolic?.quantity == null || diastolic?.quantity == null) continue;
+
+        readings.push({
+          id: correlation.id,
+          date: correlation.startDate,
+          localHour: localHour(
+            correlation.startDate,
+            user?.homeTimeZone ? { timeZone: user.homeTimeZone } : systolic,
+          ),
+          systolic: systolic.quantity,
+          diastolic: diastolic.quantity,
+          sourceName: correlation.sourceName,
+        });
+      }
+
+      return { readings, byTimeOfDay: averageByTimeOfDay(readings) };
     }),
 
   // Get health data uploads
@@ -132,63 +322,257 @@ export const healthRouter = createTRPCRouter({
         _count: {
           select: { healthRecords: true },
         },
+        importJob: { select: { id: true, status: true } },
       },
     });
   }),
 
-  // Get health data summary
-  getHealthSummary: protectedProcedure.query(async ({ ctx }) => {
-    const records = await ctx.db.healthRecord.findMany({
-      where: { userId: ctx.user.id },
-      select: {
-        type: true,
-        startDate: true,
-        endDate: true,
-      },
-    });
+  // Status of a background import, polled by the upload screen
+  getImportJob: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const job = await ctx.db.importJob.findFirst({
+        where: { id: input.jobId, userId: ctx.user.id },
+        include: { upload: { select: { fileName: true, artifacts: true } } },
+      });
 
-    if (records.length === 0) {
-      return null;
-    }
+      if (!job) {
+        throw new Error("Import job not found or unauthorized");
+      }
 
-    // Calculate summary statistics
-    const dataTypes: Record<string, number> = {};
-    let earliestDate = new Date();
-    let latestDate = new Date(0);
+      return {
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: job.error,
+        runAfter: job.runAfter,
+        uploadId: job.uploadId,
+        fileName: job.upload.fileName,
+        artifacts: job.upload.artifacts as ExportArtifacts | null,
+        progress: job.progress as ImportProgress | null,
+        result: job.result as ImportSummary | null,
+      };
+    }),
 
-    for (const record of records) {
-      dataTypes[record.type] = (dataTypes[record.type] ?? 0) + 1;
+  // Get health data summary, from the daily rollups
+  getHealthSummary: protectedProcedure.query(async ({ ctx }) => {
+    const [types, range] = await Promise.all([
+      ctx.db.dailyMetricSummary.groupBy({
+        by: ["type"],
+        where: { userId: ctx.user.id },
+        _sum: { count: true },
+      }),
+      ctx.db.dailyMetricSummary.aggregate({
+        where: { userId: ctx.user.id },
+        _min: { date: true },
+        _max: { date: true },
+      }),
+    ]);
 
-      if (record.startDate < earliestDate) earliestDate = record.startDate;
-      if (record.endDate > latestDate) latestDate = record.endDate;
+    if (types.length === 0 || !range._min.date || !range._max.date) {
+      return null;
     }
 
+    const dataTypes: Record<string, number> = Object.fromEntries(
+      types.map((type) => [type.type, type._sum.count ?? 0]),
+    );
+
     return {
-      totalRecords: records.length,
+      totalRecords: Object.values(dataTypes).reduce((a, b) => a + b, 0),
       dateRange: {
-        start: earliestDate,
-        end: latestDate,
+        start: range._min.date,
+        end: range._max.date,
       },
       dataTypes,
     };
   }),
 
-  // Get available data types for the user
+  // Get available data types for the user, counted from the daily rollups
   getAvailableDataTypes: protectedProcedure.query(async ({ ctx }) => {
-    const result = await ctx.db.healthRecord.groupBy({
+    const result = await ctx.db.dailyMetricSummary.groupBy({
       by: ["type"],
       where: { userId: ctx.user.id },
-      _count: {
-        type: true,
-      },
+      _sum: { count: true },
     });
 
     return result.map((item) => ({
       type: item.type,
-      count: item._count.type,
+      count: item._sum.count ?? 0,
     }));
   }),
 
+  // Sources and device models seen in earlier imports, offered as import filters
+  getImportFilterOptions: protectedProcedure.query(async ({ ctx }) => {
+    const [sources, devices] = await Promise.all([
+      ctx.db.healthRecord.groupBy({
+        by: ["sourceName"],
+        where: { userId: ctx.user.id, sourceName: { not: null } },
+      }),
+      ctx.db.healthRecord.groupBy({
+        by: ["deviceModel"],
+        where: { userId: ctx.user.id, deviceModel: { not: null } },
+      }),
+    ]);
+
+    return {
+      sources: sources.map((s) => s.sourceName!).sort(),
+      // Offer the watch and phone even before the first import
+      devices: [
+        ...new Set([
+          ...DEFAULT_DEVICE_PRIORITY,
+          ...devices.map((d) => d.deviceModel!).sort(),
+        ]),
+      ],
+    };
+  }),
+
+  // Sources of each cumulative metric in the order used to de-overlap them
+  getSourcePriorities: protectedProcedure.query(async ({ ctx }) => {
+    const [sources, overrides] = await Promise.all([
+      ctx.db.healthRecord.groupBy({
+        by: ["type", "sourceName", "deviceModel"],
+        where: { userId: ctx.user.id, type: { in: [...CUMULATIVE_TYPES] } },
+        _count: { _all: true },
+      }),
+      ctx.db.sourcePriority.findMany({ where: { userId: ctx.user.id } }),
+    ]);
+
+    const priorities: SourcePriorities = Object.fromEntries(
+      overrides.map((override) => [override.type, override.sources]),
+    );
+
+    const metrics = CUMULATIVE_TYPES.map((type) => {
+      // One entry per source, even if its device model changed over time
+      const bySource = new Map<
+        string,
+        { sourceName: string; deviceModel: string | null; count: number }
+      >();
+      for (const source of sources.filter((s) => s.type === type)) {
+        const sourceName = source.sourceName ?? "";
+        const entry = bySource.get(sourceName) ?? {
+          sourceName,
+          deviceModel: null,
+          count: 0,
+        };
+        entry.deviceModel ??= source.deviceModel;
+        entry.count += source._count._all;
+        bySource.set(sourceName, entry);
+      }
+
+      return {
+        type,
+        isCustom: !!priorities[type],
+        sources: rankSources([...bySource.values()], priorities[type]),
+      };
+    }).filter((metric) => metric.sources.length > 1);
+
+    return { priorities, metrics };
+  }),
+
+  // Save the user's source order for a metric; an empty list restores the default
+  setSourcePriority: protectedProcedure
+    .input(
+      z.object({
+        type: z.string(),
+        sources: z.array(z.string()),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.sources.length === 0) {
+        await ctx.db.sourcePriority.deleteMany({
+          where: { userId: ctx.user.id, type: input.type },
+        });
+        await queueSummaryRebuild(ctx.user.id);
+        return { success: true };
+      }
+
+      await ctx.db.sourcePriority.upsert({
+        where: { userId_type: { userId: ctx.user.id, type: input.type } },
+        update: { sources: input.sources },
+        create: {
+          userId: ctx.user.id,
+          type: input.type,
+          sources: input.sources,
+        },
+      });
+
+      // De-overlapped sums change across the user's whole history
+      await queueSummaryRebuild(ctx.user.id);
+
+      return { success: true };
+    }),
+
+  // Get the user's preferred measurement system
+  getUnitSystem: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.user.id },
+      select: { unitSystem: true },
+    });
+
+    return user?.unitSystem ?? "METRIC";
+  }),
+
+  // Switch between metric and imperial units
+  setUnitSystem: protectedProcedure
+    .input(z.object({ unitSystem: z.enum(["METRIC", "IMPERIAL"]) }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.user.upsert({
+        where: { id: ctx.user.id },
+        update: { unitSystem: input.unitSystem },
+        create: {
+          id: ctx.user.id,
+          name: ctx.user.fullName,
+          email: ctx.user.emailAddresses[0]?.emailAddress,
+          image: ctx.user.imageUrl,
+          unitSystem: input.unitSystem,
+          summaryVersion: SUMMARY_VERSION,
+        },
+      });
+
+      return { success: true };
+    }),
+
+  // Get the zone used for day boundaries; null means each record's own zone
+  getHomeTimeZone: protectedProcedure.query(async ({ ctx }) => {
+    const user = await ctx.db.user.findUnique({
+      where: { id: ctx.user.id },
+      select: { homeTimeZone: true },
+    });
+
+    return user?.homeTimeZone ?? null;
+  }),
+
+  // Pin day boundaries to one zone, or pass null to use where each sample was recorded
+  setHomeTimeZone: protectedProcedure
+    .input(
+      z.object({
+        timeZone: z
+          .string()
+          .refine(isValidTimeZone, "Unknown time zone")
+          .nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.user.upsert({
+        where: { id: ctx.user.id },
+        update: { homeTimeZone: input.timeZone },
+        create: {
+          id: ctx.user.id,
+          name: ctx.user.fullName,
+          email: ctx.user.emailAddresses[0]?.emailAddress,
+          image: ctx.user.imageUrl,
+          homeTimeZone: input.timeZone,
+          summaryVersion: SUMMARY_VERSION,
+        },
+      });
+
+      // Daily rollups are keyed by local day; every day of the user's history moves
+      await queueSummaryRebuild(ctx.user.id);
+
+      return { success: true };
+    }),
+
   // Delete upload and associated records
   deleteUpload: protectedProcedure
     .input(z.object({ uploadId: z.string() }))
@@ -205,10 +589,27 @@ export const healthRouter = createTRPCRouter({
         throw new Error("Upload not found or unauthorized");
       }
 
-      // Delete records and upload (cascading delete will handle records)
-      await ctx.db.healthDataUpload.delete({
-        where: { id: input.uploadId },
-      });
+      const range = await uploadDateRange(upload.id);
+
+      // Delete records and upload (cascading delete will handle records). Records a later
+      // upload also contained were moved to it when its import completed, so they are kept;
+      // those this upload's own import had yet to take over stay where they are.
+      await ctx.db.$transaction([
+        ...releaseExistingRecords(upload.id),
+        ctx.db.healthDataUpload.delete({
+          where: { id: input.uploadId },
+        }),
+      ]);
+
+      // Rebuild the rollups of the days that lost records
+      if (range) {
+        await refreshDailySummaries(ctx.user.id, range);
+      }
+
+      // Remove the retained export.zip, if any
+      if (upload.sourceFileId) {
+        await removeUploadedFile(upload.sourceFileId, "zip");
+      }
 
       return { success: true };
     }),
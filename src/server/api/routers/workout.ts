@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+export const workoutRouter = createTRPCRouter({
+  // List workouts, newest first, optionally filtered by activity type and date
+  getWorkouts: protectedProcedure
+    .input(
+      z.object({
+        activityTypes: z.array(z.string()).optional(),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+        limit: z.number().min(1).max(1000).default(100),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const where = {
+        userId: ctx.user.id,
+        ...(input.activityTypes && {
+          activityType: { in: input.activityTypes },
+        }),
+        ...(input.startDate && { startDate: { gte: input.startDate } }),
+        ...(input.endDate && { endDate: { lte: input.endDate } }),
+      };
+
+      return ctx.db.workout.findMany({
+        where,
+        orderBy: { startDate: "desc" },
+        take: input.limit,
+        include: {
+          _count: {
+            select: { statistics: true, events: true },
+          },
+        },
+      });
+    }),
+
+  // Get a single workout with its statistics, events and GPS route
+  getWorkout: protectedProcedure
+    .input(z.object({ workoutId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const workout = await ctx.db.workout.findFirst({
+        where: {
+          id: input.workoutId,
+          userId: ctx.user.id,
+        },
+        include: {
+          statistics: { orderBy: { type: "asc" } },
+          events: { orderBy: { date: "asc" } },
+          route: true,
+        },
+      });
+
+      if (!workout) {
+        throw new Error("Workout not found or unauthorized");
+      }
+
+      return workout;
+    }),
+
+  // Get the activity types the user has workouts for
+  getActivityTypes: protectedProcedure.query(async ({ ctx }) => {
+    const result = await ctx.db.workout.groupBy({
+      by: ["activityType"],
+      where: { userId: ctx.user.id },
+      _count: {
+        activityType: true,
+      },
+    });
+
+    return result.map((item) => ({
+      activityType: item.activityType,
+      count: item._count.activityType,
+    }));
+  }),
+});
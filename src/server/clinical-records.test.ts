@@ -0,0 +1,223 @@
+import { Readable } from "stream";
+import { describe, expect, it, vi } from "vitest";
+import { LOINC_OID, LOINC_SYSTEM } from "~/lib/clinical-records";
+import { parseCdaDocument, parseFhirJson } from "~/server/clinical-records";
+
+vi.mock("~/server/db", () => ({ db: {} }));
+
+const glucose = {
+  resourceType: "Observation",
+  id: "glucose-1",
+  status: "final",
+  code: {
+    coding: [
+      { system: "urn:oid:1.2.3", code: "GLU" },
+      { system: LOINC_SYSTEM, code: "2345-7", display: "Glucose" },
+    ],
+    text: "Glucose, serum",
+  },
+  valueQuantity: { value: 105, unit: "mg/dL" },
+  referenceRange: [
+    { low: { value: 70, unit: "mg/dL" }, high: { value: 99, unit: "mg/dL" } },
+  ],
+  interpretation: [{ coding: [{ code: "H", display: "High" }] }],
+  effectiveDateTime: "2024-03-01T08:30:00-05:00",
+};
+
+describe("parseFhirJson", () => {
+  it("reads a lab observation with its LOINC coding", () => {
+    const [record] = parseFhirJson(JSON.stringify(glucose));
+
+    expect(record).toMatchObject({
+      kind: "OBSERVATION",
+      format: "FHIR",
+      name: "Glucose, serum",
+      code: "2345-7",
+      codeSystem: LOINC_SYSTEM,
+      status: "final",
+      date: "2024-03-01T08:30:00-05:00",
+      details: {
+        value: "105 mg/dL",
+        referenceRange: "70 mg/dL–99 mg/dL",
+        interpretation: "High",
+      },
+      key: "Observation/glucose-1",
+      lab: {
+        loincCode: "2345-7",
+        name: "Glucose, serum",
+        value: 105,
+        unit: "mg/dL",
+        referenceLow: 70,
+        referenceHigh: 99,
+        interpretation: "H",
+      },
+    });
+  });
+
+  it("reads the supported resources of a bundle and skips the rest", () => {
+    const records = parseFhirJson(
+      JSON.stringify({
+        resourceType: "Bundle",
+        entry: [
+          { resource: glucose },
+          { resource: { resourceType: "Patient", id: "me" } },
+          {
+            resource: {
+              resourceType: "MedicationStatement",
+              id: "med-1",
+              status: "active",
+              medicationReference: { display: "Metformin 500 mg" },
+              dosage: [{ text: "Twice daily" }],
+              dateAsserted: "2024-01-15",
+            },
+          },
+          {
+            resource: {
+              resourceType: "AllergyIntolerance",
+              clinicalStatus: { coding: [{ code: "active" }] },
+              code: { text: "Penicillin" },
+              criticality: "high",
+              reaction: [
+                {
+                  manifestation: [{ text: "Hives" }, { text: "Wheezing" }],
+                },
+              ],
+            },
+          },
+          {},
+        ],
+      }),
+    );
+
+    expect(records.map((record) => record.kind)).toEqual([
+      "OBSERVATION",
+      "MEDICATION",
+      "ALLERGY",
+    ]);
+    expect(records[1]).toMatchObject({
+      name: "Metformin 500 mg",
+      date: "2024-01-15",
+      details: { dosage: "Twice daily" },
+      lab: null,
+    });
+    expect(records[2]).toMatchObject({
+      status: "active",
+      details: { criticality: "high", reaction: "Hives, Wheezing" },
+    });
+    // Without an id the content identifies the resource
+    expect(records[2]!.key).toContain('"Penicillin"');
+  });
+
+  it("keeps a non-numeric observation without a lab result", () => {
+    const [record] = parseFhirJson(
+      JSON.stringify({
+        ...glucose,
+        valueQuantity: undefined,
+        valueString: "Negative",
+      }),
+    );
+
+    expect(record!.details.value).toBe("Negative");
+    expect(record!.lab).toBe(null);
+  });
+
+  it("throws on malformed JSON", () => {
+    expect(() => parseFhirJson('{"resourceType": "Observation"')).toThrow(
+      SyntaxError,
+    );
+  });
+});
+
+const cdaObservation = ({
+  effectiveTime = "20240301083000-0500",
+  value = '<value xsi:type="PQ" value="105" unit="mg/dL"/>',
+  type = "",
+} = {}) => `
+  <entry><organizer><component><observation classCode="OBS" moodCode="EVN">
+    <code code="2345-7" codeSystem="${LOINC_OID}" displayName="Glucose"/>
+    ${type ? `<text><type>${type}</type></text>` : ""}
+    <statusCode code="completed"/>
+    <effectiveTime><low value="${effectiveTime}"/></effectiveTime>
+    ${value}
+    <interpretationCode code="H"/>
+    <referenceRange><observationRange><value xsi:type="IVL_PQ">
+      <low value="70" unit="mg/dL"/><high value="99" unit="mg/dL"/>
+    </value></observationRange></referenceRange>
+  </observation></component></organizer></entry>`;
+
+const cda = (...observations: string[]) =>
+  Readable.from([
+    `<?xml version="1.0"?>\n<ClinicalDocument xmlns="urn:hl7-org:v3"><component><structuredBody>` +
+      `<component><section>${observations.join("")}</section></component>` +
+      `</structuredBody></component></ClinicalDocument>`,
+  ]);
+
+describe("parseCdaDocument", () => {
+  it("reads a provider's lab result", async () => {
+    const [record] = await parseCdaDocument(cda(cdaObservation()));
+
+    expect(record).toMatchObject({
+      kind: "OBSERVATION",
+      format: "CDA",
+      name: "Glucose",
+      code: "2345-7",
+      codeSystem: LOINC_SYSTEM,
+      status: "completed",
+      date: "2024-03-01T08:30:00-05:00",
+      details: { value: "105 mg/dL", interpretation: "H" },
+      key: "2345-7|20240301083000-0500|105|mg/dL",
+      lab: {
+        loincCode: "2345-7",
+        name: "Glucose",
+        value: 105,
+        unit: "mg/dL",
+        referenceLow: 70,
+        referenceHigh: 99,
+        interpretation: "H",
+      },
+    });
+  });
+
+  it("skips the HealthKit samples the document repeats", async () => {
+    const records = await parseCdaDocument(
+      cda(
+        cdaObservation({ type: "HKQuantityTypeIdentifierBloodGlucose" }),
+        cdaObservation({ effectiveTime: "20240302083000-0500" }),
+      ),
+    );
+
+    expect(records.map((record) => record.date)).toEqual([
+      "2024-03-02T08:30:00-05:00",
+    ]);
+  });
+
+  it("keeps a text result without a lab result", async () => {
+    const [record] = await parseCdaDocument(
+      cda(cdaObservation({ value: '<value xsi:type="ST">Negative</value>' })),
+    );
+
+    expect(record!.details.value).toBe("Negative");
+    expect(record!.lab).toBe(null);
+  });
+
+  it.each([
+    ["20240301", "2024-03-01"],
+    ["202403010830", "2024-03-01T08:30:00Z"],
+    ["20240301083015", "2024-03-01T08:30:15Z"],
+    ["20240301083015.123+0530", "2024-03-01T08:30:15+05:30"],
+    ["20240301083000-05", "2024-03-01T08:30:00-05:00"],
+    ["2024-03-01", null],
+  ])("converts the HL7 timestamp %s", async (effectiveTime, date) => {
+    const [record] = await parseCdaDocument(
+      cda(cdaObservation({ effectiveTime })),
+    );
+
+    expect(record!.date).toBe(date);
+  });
+
+  it("rejects a truncated document", async () => {
+    await expect(
+      parseCdaDocument(Readable.from(["<ClinicalDocument><component><!--"])),
+    ).rejects.toThrow(/Unexpected end/);
+  });
+});
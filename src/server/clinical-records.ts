@@ -0,0 +1,551 @@
+import "server-only";
+
+import { createHash } from "crypto";
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import type { ClinicalRecordKind, Prisma } from "@prisma/client";
+import sax from "sax";
+import { LOINC_OID, LOINC_SYSTEM } from "~/lib/clinical-records";
+import { isDayInImportWindow } from "~/lib/import-config";
+import { db } from "~/server/db";
+import { readEntryText, type ExportArchive } from "~/server/export-archive";
+import type {
+  ImportConfig,
+  ParsedClinicalRecord,
+  ParsedLabResult,
+} from "~/types/health";
+
+const RECORD_BATCH_SIZE = 500;
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Quantity {
+  value?: number;
+  unit?: string;
+  code?: string;
+}
+
+interface ReferenceRange {
+  low?: Quantity;
+  high?: Quantity;
+  text?: string;
+}
+
+// The FHIR R4 fields read from the supported resources
+interface FhirResource {
+  resourceType?: string;
+  id?: string;
+  status?: string;
+  code?: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueCodeableConcept?: CodeableConcept;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string };
+  issued?: string;
+  referenceRange?: ReferenceRange[];
+  interpretation?: CodeableConcept[];
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+  onsetDateTime?: string;
+  abatementDateTime?: string;
+  recordedDate?: string;
+  medicationCodeableConcept?: CodeableConcept;
+  medicationReference?: { display?: string };
+  dosage?: Array<{ text?: string }>;
+  dateAsserted?: string;
+  vaccineCode?: CodeableConcept;
+  occurrenceDateTime?: string;
+  criticality?: string;
+  reaction?: Array<{ manifestation?: CodeableConcept[]; severity?: string }>;
+  entry?: Array<{ resource?: FhirResource }>;
+}
+
+const FHIR_KINDS: Record<string, ClinicalRecordKind> = {
+  Observation: "OBSERVATION",
+  Condition: "CONDITION",
+  MedicationStatement: "MEDICATION",
+  MedicationRequest: "MEDICATION",
+  Immunization: "IMMUNIZATION",
+  AllergyIntolerance: "ALLERGY",
+};
+
+const conceptText = (concept?: CodeableConcept) =>
+  concept?.text ??
+  concept?.coding?.find((coding) => coding.display)?.display ??
+  concept?.coding?.[0]?.code;
+
+// Prefer the LOINC coding, since that is what lab results are plotted by
+const primaryCoding = (concept?: CodeableConcept) =>
+  concept?.coding?.find((coding) => coding.system === LOINC_SYSTEM) ??
+  concept?.coding?.[0];
+
+const formatQuantity = (quantity: Quantity) =>
+  [quantity.value, quantity.unit ?? quantity.code].filter(Boolean).join(" ");
+
+const formatRange = (range?: ReferenceRange) =>
+  range?.text ??
+  (range?.low || range?.high
+    ? `${formatQuantity(range.low ?? {})}–${formatQuantity(range.high ?? {})}`
+    : undefined);
+
+// Drop empty values so `details` only holds what the resource actually had
+function compact(details: Record<string, string | undefined>) {
+  return Object.fromEntries(
+    Object.entries(details).filter(
+      (entry): entry is [string, string] => !!entry[1],
+    ),
+  );
+}
+
+function observationLab(
+  resource: FhirResource,
+  name: string,
+): ParsedLabResult | null {
+  const coding = resource.code?.coding?.find(
+    (c) => c.system === LOINC_SYSTEM && c.code,
+  );
+  const value = resource.valueQuantity?.value;
+  if (!coding?.code || typeof value !== "number") return null;
+
+  const range = resource.referenceRange?.[0];
+  return {
+    loincCode: coding.code,
+    name,
+    value,
+    unit: resource.valueQuantity?.unit ?? resource.valueQuantity?.code ?? null,
+    referenceLow: range?.low?.value ?? null,
+    referenceHigh: range?.high?.value ?? null,
+    interpretation: resource.interpretation?.[0]?.coding?.[0]?.code ?? null,
+  };
+}
+
+function parseFhirResource(
+  resource: FhirResource,
+): ParsedClinicalRecord | null {
+  const kind = FHIR_KINDS[resource.resourceType ?? ""];
+  if (!kind) return null;
+
+  const concept =
+    resource.code ?? resource.medicationCodeableConcept ?? resource.vaccineCode;
+  const coding = primaryCoding(concept);
+  const name =
+    conceptText(concept) ??
+    resource.medicationReference?.display ??
+    resource.resourceType!;
+
+  const base = {
+    kind,
+    format: "FHIR" as const,
+    name,
+    code: coding?.code ?? null,
+    codeSystem: coding?.system ?? null,
+    resource: resource as Record<string, unknown>,
+    // Without an id, the resource's content is what identifies it
+    key: resource.id
+      ? `${resource.resourceType}/${resource.id}`
+      : JSON.stringify(resource),
+    lab: null,
+  };
+
+  switch (kind) {
+    case "OBSERVATION":
+      return {
+        ...base,
+        status: resource.status ?? null,
+        date:
+          resource.effectiveDateTime ??
+          resource.effectivePeriod?.start ??
+          resource.issued ??
+          null,
+        details: compact({
+          value: resource.valueQuantity
+            ? formatQuantity(resource.valueQuantity)
+            : (resource.valueString ??
+              conceptText(resource.valueCodeableConcept)),
+          referenceRange: formatRange(resource.referenceRange?.[0]),
+          interpretation: conceptText(resource.interpretation?.[0]),
+        }),
+        lab: observationLab(resource, name),
+      };
+    case "CONDITION":
+      return {
+        ...base,
+        status: primaryCoding(resource.clinicalStatus)?.code ?? null,
+        date: resource.onsetDateTime ?? resource.recordedDate ?? null,
+        details: compact({
+          verification: primaryCoding(resource.verificationStatus)?.code,
+          resolved: resource.abatementDateTime,
+        }),
+      };
+    case "MEDICATION":
+      return {
+        ...base,
+        status: resource.status ?? null,
+        date:
+          resource.effectiveDateTime ??
+          resource.effectivePeriod?.start ??
+          resource.dateAsserted ??
+          null,
+        details: compact({ dosage: resource.dosage?.[0]?.text }),
+      };
+    case "IMMUNIZATION":
+      return {
+        ...base,
+        status: resource.status ?? null,
+        date: resource.occurrenceDateTime ?? null,
+        details: {},
+      };
+    case "ALLERGY":
+      return {
+        ...base,
+        status: primaryCoding(resource.clinicalStatus)?.code ?? null,
+        date: resource.onsetDateTime ?? resource.recordedDate ?? null,
+        details: compact({
+          criticality: resource.criticality,
+          reaction: resource.reaction
+            ?.flatMap((r) => r.manifestation ?? [])
+            .map(conceptText)
+            .filter(Boolean)
+            .join(", "),
+        }),
+      };
+  }
+}
+
+/**
+ * Read a clinical-records/*.json file. Each holds one FHIR R4 resource, or a Bundle of them;
+ * resources other than Observation, Condition, MedicationStatement/Request, Immunization and
+ * AllergyIntolerance are skipped.
+ */
+export function parseFhirJson(text: string): ParsedClinicalRecord[] {
+  const json = JSON.parse(text) as FhirResource;
+  const resources =
+    json.resourceType === "Bundle"
+      ? (json.entry ?? []).flatMap((entry) =>
+          entry.resource ? [entry.resource] : [],
+        )
+      : [json];
+
+  return resources.flatMap((resource) => parseFhirResource(resource) ?? []);
+}
+
+// HL7 timestamps, e.g. "20240101083000-0500", as ISO 8601
+function hl7ToIso(value: string): string | null {
+  const match =
+    /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?(?:\.\d+)?([+-]\d{2})?(\d{2})?$/.exec(
+      value.trim(),
+    );
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, offsetHours, offsetMinutes] =
+    match;
+  if (!hour) return `${year}-${month}-${day}`;
+
+  const offset = offsetHours ? `${offsetHours}:${offsetMinutes ?? "00"}` : "Z";
+  return `${year}-${month}-${day}T${hour}:${minute}:${second ?? "00"}${offset}`;
+}
+
+interface CdaObservation {
+  code?: Record<string, string | undefined>;
+  status?: string;
+  effectiveTime?: string;
+  value?: Record<string, string | undefined>;
+  valueText?: string;
+  interpretation?: string;
+  referenceLow?: string;
+  referenceHigh?: string;
+  // Set for the HealthKit samples Apple writes into the document, already read from export.xml
+  healthKitType?: string;
+}
+
+function cdaRecord(observation: CdaObservation): ParsedClinicalRecord | null {
+  const { code = {}, value = {} } = observation;
+  const name = code.displayname ?? code.code;
+  if (!name || observation.healthKitType) return null;
+
+  const date = observation.effectiveTime
+    ? hl7ToIso(observation.effectiveTime)
+    : null;
+  const quantity = value["xsi:type"] === "PQ" ? Number(value.value) : NaN;
+  const isLoinc = code.codesystem === LOINC_OID && !!code.code;
+
+  const lab: ParsedLabResult | null =
+    isLoinc && Number.isFinite(quantity)
+      ? {
+          loincCode: code.code!,
+          name,
+          value: quantity,
+          unit: value.unit ?? null,
+          referenceLow: observation.referenceLow
+            ? Number(observation.referenceLow)
+            : null,
+          referenceHigh: observation.referenceHigh
+            ? Number(observation.referenceHigh)
+            : null,
+          interpretation: observation.interpretation ?? null,
+        }
+      : null;
+
+  const displayValue = Number.isFinite(quantity)
+    ? [value.value, value.unit].filter(Boolean).join(" ")
+    : (value.displayname ?? observation.valueText);
+
+  return {
+    kind: "OBSERVATION",
+    format: "CDA",
+    name,
+    code: code.code ?? null,
+    codeSystem: isLoinc ? LOINC_SYSTEM : (code.codesystem ?? null),
+    status: observation.status ?? null,
+    date,
+    details: compact({
+      value: displayValue,
+      interpretation: observation.interpretation,
+    }),
+    resource: { ...observation },
+    key: [code.code, observation.effectiveTime, value.value, value.unit].join(
+      "|",
+    ),
+    lab,
+  };
+}
+
+/**
+ * Read the <observation> entries of export_cda.xml. The document also repeats every HealthKit
+ * sample as an observation; those are recognized by their <type> and skipped, leaving the
+ * results that came from providers.
+ */
+export async function parseCdaDocument(
+  stream: Readable,
+): Promise<ParsedClinicalRecord[]> {
+  const records: ParsedClinicalRecord[] = [];
+  const parser = sax.parser(false, { lowercase: true, trim: true });
+
+  // Open element names, and the observations among them with their depth
+  const path: string[] = [];
+  const observations: Array<{ depth: number; data: CdaObservation }> = [];
+
+  // Path of the current element below the innermost observation, e.g. "effectivetime/low"
+  const relativePath = () => {
+    const current = observations[observations.length - 1];
+    return current ? path.slice(current.depth + 1).join("/") : null;
+  };
+
+  parser.onopentag = (node) => {
+    const attrs = node.attributes as Record<string, string | undefined>;
+
+    if (node.name === "observation") {
+      observations.push({ depth: path.length, data: {} });
+      path.push(node.name);
+      return;
+    }
+    path.push(node.name);
+
+    const observation = observations[observations.length - 1]?.data;
+    if (!observation) return;
+
+    switch (relativePath()) {
+      case "code":
+        observation.code = attrs;
+        break;
+      case "statuscode":
+        observation.status = attrs.code;
+        break;
+      case "effectivetime":
+      case "effectivetime/low":
+        observation.effectiveTime ??= attrs.value;
+        break;
+      case "value":
+        observation.value = attrs;
+        break;
+      case "interpretationcode":
+        observation.interpretation = attrs.code;
+        break;
+      case "referencerange/observationrange/value/low":
+        observation.referenceLow = attrs.value;
+        break;
+      case "referencerange/observationrange/value/high":
+        observation.referenceHigh = attrs.value;
+        break;
+    }
+  };
+
+  parser.ontext = (text) => {
+    const observation = observations[observations.length - 1]?.data;
+    if (!observation) return;
+
+    const at = relativePath();
+    if (at === "text/type") observation.healthKitType = text;
+    else if (at === "value") observation.valueText = text;
+  };
+
+  parser.onclosetag = (name) => {
+    path.pop();
+    if (name === "observation") {
+      const observation = observations.pop();
+      const record = observation && cdaRecord(observation.data);
+      if (record) records.push(record);
+    }
+  };
+
+  parser.onerror = (err) => {
+    throw err;
+  };
+
+  const decoder = new StringDecoder("utf8");
+  for await (const chunk of stream) {
+    parser.write(decoder.write(chunk as Buffer));
+  }
+  parser.write(decoder.end());
+  parser.close();
+
+  return records;
+}
+
+const fingerprintOf = (record: ParsedClinicalRecord) =>
+  createHash("md5").update(`${record.format}|${record.key}`).digest("hex");
+
+async function writeClinicalRecords(
+  records: Array<ParsedClinicalRecord & { filePath: string }>,
+  { userId, uploadId }: { userId: string; uploadId: string },
+) {
+  let inserted = 0;
+
+  for (let i = 0; i < records.length; i += RECORD_BATCH_SIZE) {
+    const batch = records
+      .slice(i, i + RECORD_BATCH_SIZE)
+      .map((record) => ({ ...record, fingerprint: fingerprintOf(record) }));
+
+    const { count } = await db.clinicalRecord.createMany({
+      data: batch.map((record) => ({
+        kind: record.kind,
+        format: record.format,
+        name: record.name,
+        code: record.code,
+        codeSystem: record.codeSystem,
+        status: record.status,
+        date: record.date ? new Date(record.date) : null,
+        details: record.details,
+        resource: record.resource as Prisma.InputJsonObject,
+        filePath: record.filePath,
+        fingerprint: record.fingerprint,
+        uploadId,
+        userId,
+      })),
+      skipDuplicates: true,
+    });
+    inserted += count;
+
+    // Records stored by an earlier upload move to this one, the newest that contains them, once
+    // the import completes
+    if (count < batch.length) {
+      await db.clinicalRecord.updateMany({
+        where: {
+          userId,
+          fingerprint: { in: batch.map((record) => record.fingerprint) },
+          uploadId: { not: uploadId },
+        },
+        data: { pendingUploadId: uploadId },
+      });
+    }
+
+    // Lab values hang off the stored record, whichever upload first brought it in
+    const labs = new Map(
+      batch.flatMap((record) =>
+        record.lab && record.date
+          ? [[record.fingerprint, { ...record.lab, date: record.date }]]
+          : [],
+      ),
+    );
+    if (labs.size === 0) continue;
+
+    const stored = await db.clinicalRecord.findMany({
+      where: { userId, fingerprint: { in: [...labs.keys()] } },
+      select: { id: true, fingerprint: true },
+    });
+    await db.labResult.createMany({
+      data: stored.map(({ id, fingerprint }) => {
+        const { date, ...lab } = labs.get(fingerprint)!;
+        return {
+          ...lab,
+          effectiveAt: new Date(date),
+          clinicalRecordId: id,
+          userId,
+        };
+      }),
+      skipDuplicates: true,
+    });
+  }
+
+  return inserted;
+}
+
+/**
+ * Store the clinical records of an export.zip: FHIR resources from clinical-records/ and
+ * provider observations from export_cda.xml. Records the user already has are skipped and move to
+ * this upload once the import completes; of the import options only the date window applies.
+ * Returns the number of records stored.
+ */
+export async function importClinicalRecords(
+  archive: ExportArchive,
+  {
+    userId,
+    uploadId,
+    config,
+  }: { userId: string; uploadId: string; config?: ImportConfig },
+) {
+  const records: Array<ParsedClinicalRecord & { filePath: string }> = [];
+
+  for (const entry of archive.artifacts.clinicalRecords) {
+    try {
+      const text = await readEntryText(await archive.openEntry(entry));
+      records.push(
+        ...parseFhirJson(text).map((record) => ({
+          ...record,
+          filePath: entry,
+        })),
+      );
+    } catch (error) {
+      // One malformed file shouldn't fail the whole import
+      console.warn(`Skipping clinical record ${entry}:`, error);
+    }
+  }
+
+  const { cdaXml } = archive.artifacts;
+  if (cdaXml) {
+    try {
+      const parsed = await parseCdaDocument(await archive.openEntry(cdaXml));
+      records.push(
+        ...parsed.map((record) => ({ ...record, filePath: cdaXml })),
+      );
+    } catch (error) {
+      // Neither should a malformed CDA document
+      console.warn(`Skipping clinical document ${cdaXml}:`, error);
+    }
+  }
+
+  // Unreadable dates are dropped rather than the record; undated records ignore the window
+  const dated = records.map((record) =>
+    record.date && Number.isNaN(new Date(record.date).getTime())
+      ? { ...record, date: null }
+      : record,
+  );
+
+  return writeClinicalRecords(
+    dated.filter(
+      (record) =>
+        !record.date || isDayInImportWindow(config, record.date.slice(0, 10)),
+    ),
+    { userId, uploadId },
+  );
+}
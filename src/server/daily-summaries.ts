@@ -0,0 +1,138 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+import { db } from "~/server/db";
+import {
+  dedupedQuantity,
+  localStartDate,
+  sourceOverlapJoin,
+  userJoin,
+} from "~/server/health-aggregates";
+
+// Bump when the rollup SQL changes; users with older rollups are rebuilt by the import worker
+export const SUMMARY_VERSION = 1;
+
+export interface SummaryRange {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Recompute the user's DailyMetricSummary rows for every day touched by `range`. Days are
+ * rebuilt from all of the user's records, not just one upload's, so overlap between sources and
+ * days emptied by a deleted upload come out right. Summaries are keyed by local day, which can
+ * be a day either side of the UTC dates in `range`.
+ */
+export async function refreshDailySummaries(
+  userId: string,
+  range: SummaryRange,
+  types?: string[],
+) {
+  const typeFilter = (column: Prisma.Sql) =>
+    types ? Prisma.sql`AND ${column} IN (${Prisma.join(types)})` : Prisma.empty;
+
+  const firstDay = Prisma.sql`(${range.from}::date - 1)`;
+  const lastDay = Prisma.sql`(${range.to}::date + 1)`;
+
+  await db.$transaction([
+    // Refreshes of one user (an import job and a request, say) would otherwise both insert the
+    // days the other just deleted and hit the (userId, type, date) unique index
+    db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}))`,
+    db.$executeRaw`
+      DELETE FROM "DailyMetricSummary"
+      WHERE "userId" = ${userId}
+        AND "date" BETWEEN ${firstDay} AND ${lastDay}
+        ${typeFilter(Prisma.sql`"type"`)}
+    `,
+    db.$executeRaw`
+      INSERT INTO "DailyMetricSummary"
+        ("id", "userId", "type", "date", "sum", "count", "min", "max", "avg", "p50", "p90", "unit", "updatedAt")
+      SELECT gen_random_uuid()::text, r."userId", r."type", (${localStartDate})::date,
+        SUM(${dedupedQuantity}),
+        COUNT(*)::int,
+        MIN(r."quantity"),
+        MAX(r."quantity"),
+        AVG(r."quantity"),
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY r."quantity"),
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY r."quantity"),
+        MAX(r."unit"),
+        now()
+      FROM "HealthRecord" r
+      ${userJoin}
+      ${sourceOverlapJoin}
+      WHERE r."userId" = ${userId}
+        AND r."startDate" >= ${firstDay} - 1
+        AND r."startDate" < ${lastDay} + 2
+        AND (${localStartDate})::date BETWEEN ${firstDay} AND ${lastDay}
+        ${typeFilter(Prisma.sql`r."type"`)}
+      GROUP BY 2, 3, 4
+    `,
+  ]);
+}
+
+// First and last record dates of an upload, or null if it has no records
+export async function uploadDateRange(
+  uploadId: string,
+): Promise<SummaryRange | null> {
+  const { _min, _max } = await db.healthRecord.aggregate({
+    where: { uploadId },
+    _min: { startDate: true },
+    _max: { startDate: true },
+  });
+
+  return _min.startDate && _max.startDate
+    ? { from: _min.startDate, to: _max.startDate }
+    : null;
+}
+
+// Rebuild all of the user's summaries, e.g. once they were marked outdated
+export async function rebuildDailySummaries(userId: string) {
+  const { _min, _max } = await db.healthRecord.aggregate({
+    where: { userId },
+    _min: { startDate: true },
+    _max: { startDate: true },
+  });
+
+  if (_min.startDate && _max.startDate) {
+    await refreshDailySummaries(userId, {
+      from: _min.startDate,
+      to: _max.startDate,
+    });
+  }
+}
+
+/**
+ * Have the user's rollups rebuilt by the import worker. Any version below SUMMARY_VERSION is
+ * outdated; it is lowered rather than reset so a rebuild already under way can tell the user was
+ * marked again and leaves them for the next one.
+ */
+export async function markSummariesOutdated(userId: string) {
+  await db.user.update({
+    where: { id: userId },
+    data: { summaryVersion: { decrement: 1 } },
+  });
+}
+
+/**
+ * Rebuild the rollups of every user whose summaries predate SUMMARY_VERSION or were marked
+ * outdated, so a change to the rollup SQL reaches existing data without repeating that SQL in a
+ * migration.
+ */
+export async function rebuildOutdatedSummaries() {
+  const users = await db.user.findMany({
+    where: { summaryVersion: { lt: SUMMARY_VERSION } },
+    select: { id: true, summaryVersion: true },
+  });
+
+  for (const user of users) {
+    await rebuildDailySummaries(user.id);
+    await db.user.updateMany({
+      where: { id: user.id, summaryVersion: user.summaryVersion },
+      data: { summaryVersion: SUMMARY_VERSION },
+    });
+  }
+
+  if (users.length > 0) {
+    console.log(`Rebuilt daily summaries for ${users.length} user(s)`);
+  }
+}
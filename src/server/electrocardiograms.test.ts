@@ -0,0 +1,106 @@
+import { Readable } from "stream";
+import { describe, expect, it, vi } from "vitest";
+import { parseElectrocardiogram } from "~/server/electrocardiograms";
+
+vi.mock("~/server/db", () => ({ db: {} }));
+
+const HEADER = [
+  'Name,"Appleseed, Jane"',
+  'Date of Birth,"Jan 1, 1980"',
+  "Recorded Date,2024-03-01 09:15:22 -0800",
+  "Classification,Sinus Rhythm",
+  "Symptoms,Dizziness,Chest tightness",
+  "Software Version,2",
+  'Device,"Watch6,2"',
+  "Sample Rate,512 hertz",
+  "Lead,Lead I",
+];
+
+const csv = (lines: string[], lineEnding = "\n") =>
+  Readable.from([Buffer.from(lines.join(lineEnding))]);
+
+describe("parseElectrocardiogram", () => {
+  it("reads the header and the samples", async () => {
+    const ecg = await parseElectrocardiogram(
+      csv([...HEADER, "Unit,µV", "", "", "-12.5", "0", "301.25"]),
+    );
+
+    expect(ecg).toEqual({
+      recordedDate: "2024-03-01 09:15:22 -0800",
+      classification: "Sinus Rhythm",
+      symptoms: ["Dizziness", "Chest tightness"],
+      sampleRate: 512,
+      lead: "Lead I",
+      unit: "µV",
+      softwareVersion: "2",
+      device: "Watch6,2",
+      voltages: [-12.5, 0, 301.25],
+    });
+  });
+
+  it("stores millivolt samples in microvolts", async () => {
+    const ecg = await parseElectrocardiogram(
+      csv([...HEADER, "Unit,mV", "", "-0.0125", "0.30125"]),
+    );
+
+    expect(ecg!.unit).toBe("mV");
+    expect(ecg!.voltages).toEqual([-12.5, 301.25]);
+  });
+
+  it("accepts decimal commas, a byte order mark and Windows line endings", async () => {
+    const ecg = await parseElectrocardiogram(
+      csv(
+        [
+          "\uFEFFRecorded Date,2024-03-01 09:15:22 -0800",
+          "Sample Rate,512 hertz",
+          "",
+          "-12,5",
+          "301,25",
+        ],
+        "\r\n",
+      ),
+    );
+
+    expect(ecg!.recordedDate).toBe("2024-03-01 09:15:22 -0800");
+    expect(ecg!.voltages).toEqual([-12.5, 301.25]);
+  });
+
+  it("defaults a missing classification and symptoms", async () => {
+    const ecg = await parseElectrocardiogram(
+      csv([
+        "Recorded Date,2024-03-01 09:15:22 -0800",
+        "Classification,",
+        "Symptoms,",
+        "Sample Rate,512 hertz",
+        "",
+        "1",
+      ]),
+    );
+
+    expect(ecg).toMatchObject({
+      classification: "Unclassified",
+      symptoms: [],
+      lead: null,
+      unit: "µV",
+    });
+  });
+
+  it.each([
+    ["a recorded date", HEADER.filter((line) => !line.startsWith("Recorded"))],
+    [
+      "a valid recorded date",
+      HEADER.map((line) =>
+        line.startsWith("Recorded") ? "Recorded Date,yesterday" : line,
+      ),
+    ],
+    ["a sample rate", HEADER.filter((line) => !line.startsWith("Sample"))],
+  ])("returns null without %s", async (_, header) => {
+    expect(await parseElectrocardiogram(csv([...header, "", "1", "2"]))).toBe(
+      null,
+    );
+  });
+
+  it("returns null without samples", async () => {
+    expect(await parseElectrocardiogram(csv(HEADER))).toBe(null);
+  });
+});
@@ -0,0 +1,154 @@
+import "server-only";
+
+import type { Readable } from "stream";
+import { isDayInImportWindow } from "~/lib/import-config";
+import { parseUtcOffset } from "~/lib/time-zones";
+import { db } from "~/server/db";
+import { readEntryText, type ExportArchive } from "~/server/export-archive";
+import type { ImportConfig, ParsedElectrocardiogram } from "~/types/health";
+
+// Split one CSV line into fields; quoted fields may contain commas and "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Read an ECG app recording. The file starts with "Key,Value" header lines (Name, Recorded Date,
+ * Classification, Symptoms, Sample Rate, Lead, Unit...) followed by one voltage sample per
+ * line. Returns null for files without a date, sample rate or samples.
+ */
+export async function parseElectrocardiogram(
+  stream: Readable,
+): Promise<ParsedElectrocardiogram | null> {
+  const header = new Map<string, string[]>();
+  const voltages: number[] = [];
+
+  const text = (await readEntryText(stream)).replace(/^\uFEFF/, "");
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    // Samples are bare numbers; some locales write a decimal comma
+    const sample = Number(line.trim().replace(",", "."));
+    if (Number.isFinite(sample)) {
+      voltages.push(sample);
+      continue;
+    }
+
+    const [key, ...values] = splitCsvLine(line);
+    if (key) header.set(key, values);
+  }
+
+  const value = (key: string) => {
+    const first = header.get(key)?.[0];
+    return first !== undefined && first !== "" ? first : null;
+  };
+  const recordedDate = value("Recorded Date");
+  const sampleRate = parseFloat(value("Sample Rate") ?? "");
+  if (
+    !recordedDate ||
+    Number.isNaN(new Date(recordedDate).getTime()) ||
+    !(sampleRate > 0) ||
+    voltages.length === 0
+  ) {
+    return null;
+  }
+
+  // Store microvolts whichever unit the export used
+  const unit = value("Unit") ?? "µV";
+  const scale = unit === "mV" ? 1000 : unit === "V" ? 1000000 : 1;
+
+  return {
+    recordedDate,
+    classification: value("Classification") ?? "Unclassified",
+    symptoms: (header.get("Symptoms") ?? []).filter(Boolean),
+    sampleRate,
+    lead: value("Lead"),
+    unit,
+    softwareVersion: value("Software Version"),
+    device: value("Device"),
+    voltages: scale === 1 ? voltages : voltages.map((v) => v * scale),
+  };
+}
+
+/**
+ * Store the ECG recordings of an export.zip. Recordings the user already has (same recording
+ * time) are skipped and move to this upload once the import completes; of the import options only
+ * the date window applies. Returns the number of recordings stored.
+ */
+export async function importElectrocardiograms(
+  archive: ExportArchive,
+  {
+    userId,
+    uploadId,
+    config,
+  }: { userId: string; uploadId: string; config?: ImportConfig },
+) {
+  let imported = 0;
+
+  for (const entry of archive.artifacts.electrocardiograms) {
+    const ecg = await parseElectrocardiogram(await archive.openEntry(entry));
+    if (!ecg) continue;
+
+    if (!isDayInImportWindow(config, ecg.recordedDate.slice(0, 10))) continue;
+
+    const { count } = await db.electrocardiogram.createMany({
+      data: {
+        recordedAt: new Date(ecg.recordedDate),
+        utcOffset: parseUtcOffset(ecg.recordedDate),
+        classification: ecg.classification,
+        symptoms: ecg.symptoms,
+        sampleRate: ecg.sampleRate,
+        lead: ecg.lead,
+        unit: ecg.unit,
+        voltages: ecg.voltages,
+        softwareVersion: ecg.softwareVersion,
+        device: ecg.device,
+        filePath: entry,
+        uploadId,
+        userId,
+      },
+      skipDuplicates: true,
+    });
+    imported += count;
+
+    // Already stored: it moves to this upload, the newest that contains it, once the import completes
+    if (count === 0) {
+      await db.electrocardiogram.updateMany({
+        where: {
+          userId,
+          recordedAt: new Date(ecg.recordedDate),
+          uploadId: { not: uploadId },
+        },
+        data: { pendingUploadId: uploadId },
+      });
+    }
+  }
+
+  return imported;
+}
@@ -0,0 +1,129 @@
+import "server-only";
+
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import yauzl, { type Entry, type ZipFile } from "yauzl";
+import type { ExportArtifacts } from "~/types/health";
+
+// Paths inside export.zip, matched regardless of the top-level folder name
+const ARTIFACT_PATTERNS = {
+  exportXml: /(^|\/)export\.xml$/,
+  cdaXml: /(^|\/)export_cda\.xml$/,
+  workoutRoutes: /(^|\/)workout-routes\/[^/]+\.gpx$/,
+  electrocardiograms: /(^|\/)electrocardiograms\/[^/]+\.csv$/,
+  clinicalRecords: /(^|\/)clinical-records\/[^/]+\.json$/,
+} as const;
+
+export interface ExportArchive {
+  artifacts: ExportArtifacts;
+  getEntrySize: (name: string) => number;
+  openEntry: (name: string) => Promise<Readable>;
+  close: () => void;
+}
+
+function openZip(zipPath: string) {
+  return new Promise<ZipFile>((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zip) => {
+      if (err) reject(err);
+      else resolve(zip);
+    });
+  });
+}
+
+// Walk the central directory only; no entry is decompressed here
+function readEntries(zip: ZipFile) {
+  return new Promise<Map<string, Entry>>((resolve, reject) => {
+    const entries = new Map<string, Entry>();
+
+    zip.on("entry", (entry: Entry) => {
+      if (
+        !entry.fileName.endsWith("/") &&
+        !entry.fileName.startsWith("__MACOSX/")
+      ) {
+        entries.set(entry.fileName, entry);
+      }
+      zip.readEntry();
+    });
+    zip.on("end", () => resolve(entries));
+    zip.on("error", reject);
+
+    zip.readEntry();
+  });
+}
+
+function classifyEntries(names: string[]): ExportArtifacts {
+  const artifacts: ExportArtifacts = {
+    exportXml: null,
+    cdaXml: null,
+    workoutRoutes: [],
+    electrocardiograms: [],
+    clinicalRecords: [],
+  };
+
+  for (const name of names) {
+    if (ARTIFACT_PATTERNS.exportXml.test(name)) {
+      // Prefer the shallowest export.xml if the archive was re-zipped with extra nesting
+      if (!artifacts.exportXml || name.length < artifacts.exportXml.length) {
+        artifacts.exportXml = name;
+      }
+    } else if (ARTIFACT_PATTERNS.cdaXml.test(name)) {
+      artifacts.cdaXml = name;
+    } else if (ARTIFACT_PATTERNS.workoutRoutes.test(name)) {
+      artifacts.workoutRoutes.push(name);
+    } else if (ARTIFACT_PATTERNS.electrocardiograms.test(name)) {
+      artifacts.electrocardiograms.push(name);
+    } else if (ARTIFACT_PATTERNS.clinicalRecords.test(name)) {
+      artifacts.clinicalRecords.push(name);
+    }
+  }
+
+  return artifacts;
+}
+
+// Whole contents of a small entry, such as an ECG CSV or a FHIR JSON file
+export async function readEntryText(stream: Readable) {
+  const decoder = new StringDecoder("utf8");
+  let text = "";
+  for await (const chunk of stream) {
+    text += decoder.write(chunk as Buffer);
+  }
+  return text + decoder.end();
+}
+
+/**
+ * Open an Apple Health export.zip for streaming. Entries are decompressed on demand, so a
+ * multi-gigabyte export.xml can be fed straight into the SAX parser without unpacking the
+ * archive to disk.
+ */
+export async function openExportArchive(
+  zipPath: string,
+): Promise<ExportArchive> {
+  const zip = await openZip(zipPath);
+
+  try {
+    const entries = await readEntries(zip);
+    const artifacts = classifyEntries([...entries.keys()]);
+
+    const getEntry = (name: string) => {
+      const entry = entries.get(name);
+      if (!entry) throw new Error(`${name} not found in archive`);
+      return entry;
+    };
+
+    return {
+      artifacts,
+      getEntrySize: (name) => getEntry(name).uncompressedSize,
+      openEntry: (name) =>
+        new Promise<Readable>((resolve, reject) => {
+          zip.openReadStream(getEntry(name), (err, stream) => {
+            if (err) reject(err);
+            else resolve(stream);
+          });
+        }),
+      close: () => zip.close(),
+    };
+  } catch (error) {
+    zip.close();
+    throw error;
+  }
+}
@@ -0,0 +1,338 @@
+import "server-only";
+
+import { Prisma } from "@prisma/client";
+import {
+  PERCENTILES,
+  defaultAggregation,
+  type AggregateBucket,
+  type Aggregation,
+} from "~/lib/aggregation";
+import {
+  CUMULATIVE_TYPES,
+  DEFAULT_DEVICE_PRIORITY,
+} from "~/lib/source-priority";
+import { db } from "~/server/db";
+
+export interface AggregateQuery {
+  userId: string;
+  metrics: string[];
+  bucket: AggregateBucket;
+  aggregation?: Aggregation; // defaults per type, see defaultAggregation
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface AggregateSeries {
+  type: string;
+  aggregation: Aggregation;
+  unit: string | null;
+  points: Array<{ start: Date; value: number; samples: number }>;
+}
+
+export interface MetricSummary {
+  type: string;
+  unit: string | null;
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  latest: number;
+}
+
+interface AggregateRow {
+  type: string;
+  start: Date;
+  value: number | null;
+  samples: number;
+  unit: string | null;
+}
+
+function aggregateExpression(aggregation: Aggregation) {
+  switch (aggregation) {
+    case "sum":
+      return Prisma.sql`SUM(r."quantity")`;
+    case "avg":
+      return Prisma.sql`AVG(r."quantity")`;
+    case "min":
+      return Prisma.sql`MIN(r."quantity")`;
+    case "max":
+      return Prisma.sql`MAX(r."quantity")`;
+    case "count":
+      return Prisma.sql`COUNT(*)`;
+    default:
+      return Prisma.sql`percentile_cont(${PERCENTILES[aggregation]!}::double precision) WITHIN GROUP (ORDER BY r."quantity")`;
+  }
+}
+
+function recordFilter(
+  query: AggregateQuery,
+  types: string[],
+  aggregation: Aggregation,
+) {
+  return Prisma.sql`
+    r."userId" = ${query.userId}
+    AND r."type" IN (${Prisma.join(types)})
+    ${aggregation === "count" ? Prisma.empty : Prisma.sql`AND r."quantity" IS NOT NULL`}
+    ${query.startDate ? Prisma.sql`AND r."startDate" >= ${query.startDate}` : Prisma.empty}
+    ${query.endDate ? Prisma.sql`AND r."startDate" <= ${query.endDate}` : Prisma.empty}
+  `;
+}
+
+// Rank of a record's source, mirroring rankSources: the user's list, then watch, phone, others
+function sourceRank(alias: string) {
+  const record = Prisma.raw(alias);
+  return Prisma.sql`COALESCE(
+    array_position(p."sources", ${record}."sourceName") - 1,
+    COALESCE(cardinality(p."sources"), 0) + COALESCE(
+      array_position(ARRAY[${Prisma.join(DEFAULT_DEVICE_PRIORITY)}]::text[], ${record}."deviceModel") - 1,
+      ${DEFAULT_DEVICE_PRIORITY.length}
+    )
+  )`;
+}
+
+/**
+ * Wall-clock time a record (alias r) was taken, for day/week/month boundaries: in the user's
+ * home zone if they set one (needs `userJoin`), else in the zone or offset it was recorded in.
+ * Records from before offsets were stored fall back to UTC.
+ */
+export const localStartDate = Prisma.sql`
+  CASE
+    WHEN u."homeTimeZone" IS NOT NULL
+      THEN (r."startDate" AT TIME ZONE 'UTC') AT TIME ZONE u."homeTimeZone"
+    WHEN r."timeZone" IS NOT NULL
+      THEN (r."startDate" AT TIME ZONE 'UTC') AT TIME ZONE r."timeZone"
+    ELSE r."startDate" + COALESCE(r."utcOffset", 0) * INTERVAL '1 minute'
+  END
+`;
+
+export const userJoin = Prisma.sql`JOIN "User" u ON u."id" = r."userId"`;
+
+// The day a range bound falls on in the user's home zone, where the rollups' days are; UTC without one
+function rollupDay(userId: string, date: Date) {
+  return Prisma.sql`((${date}::timestamp AT TIME ZONE 'UTC') AT TIME ZONE COALESCE(
+    (SELECT "homeTimeZone" FROM "User" WHERE "id" = ${userId}),
+    'UTC'
+  ))::date`;
+}
+
+async function queryBuckets(
+  query: AggregateQuery,
+  types: string[],
+  aggregation: Aggregation,
+) {
+  return db.$queryRaw<AggregateRow[]>`
+    SELECT r."type",
+      date_trunc(${query.bucket}, ${localStartDate}) AS "start",
+      ${aggregateExpression(aggregation)}::double precision AS "value",
+      COUNT(*)::int AS "samples",
+      MAX(r."unit") AS "unit"
+    FROM "HealthRecord" r
+    ${userJoin}
+    WHERE ${recordFilter(query, types, aggregation)}
+    GROUP BY 1, 2
+    ORDER BY 2
+  `;
+}
+
+/**
+ * Joins the time of each cumulative record (alias r) already covered by higher-ranked sources,
+ * the way the Health app de-overlaps devices: `o."covered"` is the union of those sources'
+ * samples around r, `o."overlap"` the seconds of r inside it. The union keeps samples
+ * from two higher-ranked sources that cover the same minute from being subtracted twice. Only
+ * records starting within a day before r are considered, which keeps the lookup on the
+ * (userId, type, startDate) index. Other types get no overlap.
+ */
+export const sourceOverlapJoin = Prisma.sql`
+  LEFT JOIN "SourcePriority" p ON p."userId" = r."userId" AND p."type" = r."type"
+  LEFT JOIN LATERAL (
+    SELECT c."covered", (
+      SELECT SUM(EXTRACT(EPOCH FROM upper(part) - lower(part)))
+      FROM unnest(c."covered" * tsmultirange(tsrange(r."startDate", r."endDate"))) part
+    ) AS "overlap"
+    FROM (
+      SELECT range_agg(tsrange(h."startDate", h."endDate")) AS "covered"
+      FROM "HealthRecord" h
+      WHERE r."type" IN (${Prisma.join(CUMULATIVE_TYPES)})
+        AND h."userId" = r."userId"
+        AND h."type" = r."type"
+        AND h."startDate" > r."startDate" - INTERVAL '1 day'
+        -- Instantaneous samples cover nothing, and are covered by a sample spanning their moment
+        AND h."endDate" > h."startDate"
+        AND (h."startDate" < r."endDate" OR h."startDate" = r."startDate")
+        AND h."endDate" > r."startDate"
+        AND (${sourceRank("h")}, COALESCE(h."sourceName", ''))
+          < (${sourceRank("r")}, COALESCE(r."sourceName", ''))
+    ) c
+  ) o ON true
+`;
+
+// A record's quantity less the share of its duration covered by higher-ranked sources
+export const dedupedQuantity = Prisma.sql`
+  CASE
+    WHEN o."covered" IS NULL THEN r."quantity"
+    WHEN r."endDate" > r."startDate"
+      THEN r."quantity" * GREATEST(
+        0,
+        1 - COALESCE(o."overlap", 0) / EXTRACT(EPOCH FROM r."endDate" - r."startDate")
+      )
+    ELSE 0
+  END
+`;
+
+// Totals for cumulative metrics, de-overlapped by source priority
+async function queryCumulativeBuckets(query: AggregateQuery, types: string[]) {
+  return db.$queryRaw<AggregateRow[]>`
+    SELECT r."type",
+      date_trunc(${query.bucket}, ${localStartDate}) AS "start",
+      SUM(${dedupedQuantity})::double precision AS "value",
+      COUNT(*)::int AS "samples",
+      MAX(r."unit") AS "unit"
+    FROM "HealthRecord" r
+    ${userJoin}
+    ${sourceOverlapJoin}
+    WHERE ${recordFilter(query, types, "sum")}
+    GROUP BY 1, 2
+    ORDER BY 2
+  `;
+}
+
+function rollupExpression(aggregation: Aggregation) {
+  switch (aggregation) {
+    case "sum":
+      return Prisma.sql`SUM(s."sum")`;
+    case "avg":
+      // Weighted by each day's sample count
+      return Prisma.sql`SUM(s."avg" * s."count") / NULLIF(SUM(s."count") FILTER (WHERE s."avg" IS NOT NULL), 0)`;
+    case "min":
+      return Prisma.sql`MIN(s."min")`;
+    case "max":
+      return Prisma.sql`MAX(s."max")`;
+    case "count":
+      return Prisma.sql`SUM(s."count")`;
+    case "p50":
+      return Prisma.sql`MAX(s."p50")`;
+    default:
+      return Prisma.sql`MAX(s."p90")`;
+  }
+}
+
+// Daily rollups answer any bucket of a day or longer, except percentiles, which don't combine
+const canUseRollups = (bucket: AggregateBucket, aggregation: Aggregation) =>
+  bucket !== "hour" &&
+  (PERCENTILES[aggregation] === undefined ||
+    (bucket === "day" && (aggregation === "p50" || aggregation === "p90")));
+
+async function queryRollupBuckets(
+  query: AggregateQuery,
+  types: string[],
+  aggregation: Aggregation,
+) {
+  return db.$queryRaw<AggregateRow[]>`
+    SELECT s."type",
+      date_trunc(${query.bucket}, s."date"::timestamp) AS "start",
+      ${rollupExpression(aggregation)}::double precision AS "value",
+      SUM(s."count")::int AS "samples",
+      MAX(s."unit") AS "unit"
+    FROM "DailyMetricSummary" s
+    WHERE s."userId" = ${query.userId}
+      AND s."type" IN (${Prisma.join(types)})
+      ${query.startDate ? Prisma.sql`AND s."date" >= ${rollupDay(query.userId, query.startDate)}` : Prisma.empty}
+      ${query.endDate ? Prisma.sql`AND s."date" <= ${rollupDay(query.userId, query.endDate)}` : Prisma.empty}
+    GROUP BY 1, 2
+    ORDER BY 2
+  `;
+}
+
+/**
+ * Bucket the user's records in Postgres, from the daily rollups where they can answer the
+ * query. Metrics are grouped by the aggregation they resolve to so each group is a
+ * single query.
+ */
+export async function queryAggregates(
+  query: AggregateQuery,
+): Promise<AggregateSeries[]> {
+  const groups = new Map<Aggregation, string[]>();
+  for (const type of query.metrics) {
+    const aggregation = query.aggregation ?? defaultAggregation(type);
+    groups.set(aggregation, [...(groups.get(aggregation) ?? []), type]);
+  }
+
+  const series = new Map<string, AggregateSeries>();
+  for (const [aggregation, types] of groups) {
+    const cumulative = types.filter((type) => CUMULATIVE_TYPES.includes(type));
+    const sampled = types.filter((type) => !CUMULATIVE_TYPES.includes(type));
+
+    const rows = canUseRollups(query.bucket, aggregation)
+      ? await queryRollupBuckets(query, types, aggregation)
+      : (
+          await Promise.all([
+            aggregation === "sum" && cumulative.length > 0
+              ? queryCumulativeBuckets(query, cumulative)
+              : [],
+            aggregation === "sum"
+              ? sampled.length > 0
+                ? queryBuckets(query, sampled, aggregation)
+                : []
+              : queryBuckets(query, types, aggregation),
+          ])
+        ).flat();
+
+    for (const type of types) {
+      series.set(type, { type, aggregation, unit: null, points: [] });
+    }
+    for (const row of rows) {
+      const entry = series.get(row.type)!;
+      entry.unit ??= row.unit;
+      if (row.value !== null) {
+        entry.points.push({
+          start: row.start,
+          value: row.value,
+          samples: row.samples,
+        });
+      }
+    }
+  }
+
+  return query.metrics.map((type) => series.get(type)!);
+}
+
+/**
+ * Headline figures per metric from the daily rollups: the daily totals of cumulative metrics
+ * (de-overlapped by source priority), the samples of the rest. `latest` is the most recent day's
+ * total or average. Metrics without quantities, such as category types, are left out.
+ */
+export async function queryMetricSummaries(
+  query: Omit<AggregateQuery, "bucket" | "aggregation">,
+): Promise<MetricSummary[]> {
+  const cumulative = Prisma.sql`s."type" IN (${Prisma.join(CUMULATIVE_TYPES)})`;
+  const dayValue = Prisma.sql`CASE WHEN ${cumulative} THEN s."sum" ELSE s."avg" END`;
+
+  const rows = await db.$queryRaw<
+    Array<Omit<MetricSummary, "average"> & { average: number | null }>
+  >`
+    SELECT s."type",
+      MAX(s."unit") AS "unit",
+      SUM(s."count")::int AS "count",
+      CASE WHEN ${cumulative}
+        THEN AVG(s."sum")
+        ELSE SUM(s."avg" * s."count") / NULLIF(SUM(s."count") FILTER (WHERE s."avg" IS NOT NULL), 0)
+      END::double precision AS "average",
+      CASE WHEN ${cumulative} THEN MIN(s."sum") ELSE MIN(s."min") END::double precision AS "min",
+      CASE WHEN ${cumulative} THEN MAX(s."sum") ELSE MAX(s."max") END::double precision AS "max",
+      (array_agg(${dayValue} ORDER BY s."date" DESC) FILTER (WHERE ${dayValue} IS NOT NULL))[1]::double precision AS "latest"
+    FROM "DailyMetricSummary" s
+    WHERE s."userId" = ${query.userId}
+      AND s."type" IN (${Prisma.join(query.metrics)})
+      ${query.startDate ? Prisma.sql`AND s."date" >= ${rollupDay(query.userId, query.startDate)}` : Prisma.empty}
+      ${query.endDate ? Prisma.sql`AND s."date" <= ${rollupDay(query.userId, query.endDate)}` : Prisma.empty}
+    GROUP BY 1
+  `;
+
+  // Keep the order the metrics were asked for; min, max and latest are set whenever the average is
+  return query.metrics.flatMap((type) => {
+    const row = rows.find((r) => r.type === type);
+    return row && row.average !== null
+      ? [{ ...row, average: row.average }]
+      : [];
+  });
+}
@@ -0,0 +1,404 @@
+import "server-only";
+
+import { format } from "date-fns";
+import { generateText, tool } from "ai";
+import { z } from "zod";
+import {
+  AGGREGATE_BUCKETS,
+  AGGREGATIONS,
+  defaultAggregation,
+} from "~/lib/aggregation";
+import { getHealthType } from "~/lib/health-types";
+import { endOfLocalDay, startOfLocalDay } from "~/lib/time-zones";
+import { healthRouter } from "~/server/api/routers/health";
+import { workoutRouter } from "~/server/api/routers/workout";
+import { createCallerFactory, type createTRPCContext } from "~/server/api/trpc";
+import { getLanguageModel, llmSettings } from "~/server/llm-providers";
+import type { ChartSpec } from "~/types/health";
+
+type Context = Awaited<ReturnType<typeof createTRPCContext>>;
+
+// Model calls per reply, including the one that writes the answer
+export const ASSISTANT_MAX_STEPS = 8;
+// Earlier messages of the conversation sent along with a new question
+export const ASSISTANT_HISTORY_MESSAGES = 20;
+const TITLE_MAX_LENGTH = 60;
+// Points returned per series; longer ranges should use a larger bucket
+const MAX_POINTS = 120;
+
+const createHealthCaller = createCallerFactory(healthRouter);
+const createWorkoutCaller = createCallerFactory(workoutRouter);
+
+const day = z.string().describe("Local date, yyyy-MM-dd");
+const round = (value: number) => Math.round(value * 100) / 100;
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((total, v) => total + v, 0) / values.length
+    : null;
+
+const chartSpecSchema = z.object({
+  title: z.string().describe("Short caption, e.g. Steps in March"),
+  kind: z.enum(["line", "bar", "area"]).default("line"),
+  metrics: z
+    .array(z.string())
+    .min(1)
+    .max(4)
+    .describe(
+      "HealthKit identifiers; metrics with different units read best alone",
+    ),
+  startDate: day,
+  endDate: day,
+  bucket: z.enum(["day", "week", "month"]).default("day"),
+});
+
+// The chart a showChart call attached to its reply, or null for any other call
+export function chartFromToolCall(call: {
+  toolName: string;
+  args: unknown;
+  result: unknown;
+}): ChartSpec | null {
+  const shown =
+    typeof call.result === "object" &&
+    call.result !== null &&
+    "shown" in call.result;
+  if (call.toolName !== "showChart" || !shown) return null;
+
+  const spec = chartSpecSchema.safeParse(call.args);
+  return spec.success ? spec.data : null;
+}
+
+// A failed lookup is returned to the model so it can correct itself, rather than ending the reply
+async function safely<T>(run: () => Promise<T>) {
+  try {
+    return await run();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Instructions for the assistant; the numbers themselves come from tool calls
+export function assistantSystemPrompt(healthSummary?: {
+  totalRecords: number;
+  dateRange: { start: Date; end: Date };
+}) {
+  let healthContext = `Today is ${format(new Date(), "EEEE, MMMM d, yyyy")}.\n`;
+  if (healthSummary) {
+    const { totalRecords, dateRange } = healthSummary;
+    healthContext += `The user has ${totalRecords} health records from ${format(dateRange.start, "yyyy-MM-dd")} to ${format(dateRange.end, "yyyy-MM-dd")}.\n`;
+  }
+
+  return `You are a health assistant AI that helps users understand their Apple Health data. You provide insights, trends, and recommendations based on their health metrics.
+
+Guidelines:
+1. Be helpful, encouraging, and supportive
+2. Provide actionable insights and recommendations
+3. Always remind users that you're not a substitute for professional medical advice
+4. Focus on trends, patterns, and general wellness tips
+5. Be specific about the data you're referencing
+6. If asked about concerning health issues, recommend consulting healthcare professionals
+7. Use the tools to look up the user's data before answering; never guess numbers. Resolve relative dates such as "March" or "last week" against today's date.
+8. When a trend or comparison is the point of the answer, attach a chart with showChart rather than listing many numbers.
+
+${healthContext}
+Remember: Always suggest users consult healthcare professionals for medical concerns.`;
+}
+
+// The question itself, cut at a word boundary, when no title can be generated
+function fallbackTitle(question: string) {
+  const text = question.replace(/\s+/g, " ").trim();
+  if (text.length <= TITLE_MAX_LENGTH) return text;
+
+  const cut = text.slice(0, TITLE_MAX_LENGTH);
+  const space = cut.lastIndexOf(" ");
+  return `${space > 0 ? cut.slice(0, space) : cut}…`;
+}
+
+// A few words naming a conversation, from its first question and answer
+export async function generateConversationTitle(
+  question: string,
+  answer: string,
+) {
+  try {
+    const { text } = await generateText({
+      model: getLanguageModel(),
+      temperature: llmSettings.temperature,
+      system:
+        "Write a title of at most six words for this conversation about the user's health data. Reply with the title only, without quotes or a trailing period.",
+      prompt: `Question: ${question}\n\nAnswer: ${answer.slice(0, 1000)}`,
+      maxTokens: 20,
+    });
+    const title = text
+      .trim()
+      .replace(/^["'“]+|["'”.]+$/g, "")
+      .trim();
+
+    return title && title.length <= TITLE_MAX_LENGTH
+      ? title
+      : fallbackTitle(question);
+  } catch (error) {
+    console.error("Failed to generate conversation title:", error);
+    return fallbackTitle(question);
+  }
+}
+
+/**
+ * Tools the assistant calls to look at the user's data. Each one goes through the tRPC routers
+ * with the caller's own context, so it sees exactly what the dashboard would.
+ */
+export function createHealthTools(ctx: Context) {
+  const health = createHealthCaller(ctx);
+  const workouts = createWorkoutCaller(ctx);
+
+  // Days in the user's home zone, like the dashboard's; whole days, so a range ending on the
+  // 31st includes the 31st
+  let homeTimeZone: Promise<string | null> | undefined;
+  const toRange = async (range: { startDate?: string; endDate?: string }) => {
+    homeTimeZone ??= health.getHomeTimeZone();
+    const timeZone = await homeTimeZone;
+
+    return {
+      startDate: range.startDate
+        ? startOfLocalDay(range.startDate, timeZone)
+        : undefined,
+      endDate: range.endDate
+        ? endOfLocalDay(range.endDate, timeZone)
+        : undefined,
+    };
+  };
+
+  // Daily values of one metric over a range: totals for cumulative metrics, averages otherwise
+  const dailySummary = async (
+    metric: string,
+    range: { startDate: string; endDate: string },
+  ) => {
+    const [series] = await health.getAggregates({
+      metrics: [metric],
+      bucket: "day",
+      ...(await toRange(range)),
+    });
+    const values = series?.points.map((point) => point.value) ?? [];
+    const mean = average(values);
+
+    return {
+      ...range,
+      daysWithData: values.length,
+      dailyAverage: mean === null ? null : round(mean),
+      min: values.length > 0 ? round(Math.min(...values)) : null,
+      max: values.length > 0 ? round(Math.max(...values)) : null,
+      unit: series?.unit ?? null,
+    };
+  };
+
+  return {
+    getAvailableData: tool({
+      description:
+        "List the metrics and workout types the user has data for, with the overall date range. Call this first when unsure which metric identifier to use.",
+      parameters: z.object({}),
+      execute: () =>
+        safely(async () => {
+          const [summary, activityTypes] = await Promise.all([
+            health.getHealthSummary(),
+            workouts.getActivityTypes(),
+          ]);
+
+          return {
+            dateRange: summary && {
+              start: format(summary.dateRange.start, "yyyy-MM-dd"),
+              end: format(summary.dateRange.end, "yyyy-MM-dd"),
+            },
+            metrics: Object.entries(summary?.dataTypes ?? {}).map(
+              ([type, records]) => ({
+                metric: type,
+                name: getHealthType(type).name,
+                records,
+              }),
+            ),
+            workoutTypes: activityTypes,
+          };
+        }),
+    }),
+
+    getAggregates: tool({
+      description:
+        "Aggregate one or more metrics over a date range in hour, day, week, month or year buckets. Cumulative metrics (steps, energy) are summed per bucket and the rest averaged unless an aggregation is given.",
+      parameters: z.object({
+        metrics: z
+          .array(z.string())
+          .min(1)
+          .max(5)
+          .describe(
+            "HealthKit identifiers, e.g. HKQuantityTypeIdentifierStepCount",
+          ),
+        startDate: day.optional(),
+        endDate: day.optional(),
+        bucket: z.enum(AGGREGATE_BUCKETS).default("week"),
+        aggregation: z.enum(AGGREGATIONS).optional(),
+      }),
+      execute: ({ metrics, bucket, aggregation, ...range }) =>
+        safely(async () => {
+          const series = await health.getAggregates({
+            metrics,
+            bucket,
+            aggregation,
+            ...(await toRange(range)),
+          });
+
+          return series.map((metric) => ({
+            metric: metric.type,
+            name: getHealthType(metric.type).name,
+            aggregation: metric.aggregation,
+            unit: metric.unit,
+            truncated: metric.points.length > MAX_POINTS,
+            points: metric.points.slice(-MAX_POINTS).map((point) => ({
+              start: format(point.start, "yyyy-MM-dd HH:mm"),
+              value: round(point.value),
+              samples: point.samples,
+            })),
+          }));
+        }),
+    }),
+
+    comparePeriods: tool({
+      description:
+        "Compare one metric between two date ranges, e.g. this month against last month. Returns the daily average, min and max of each range and the change between them.",
+      parameters: z.object({
+        metric: z.string().describe("HealthKit identifier"),
+        first: z.object({ startDate: day, endDate: day }),
+        second: z.object({ startDate: day, endDate: day }),
+      }),
+      execute: ({ metric, first, second }) =>
+        safely(async () => {
+          const [a, b] = await Promise.all([
+            dailySummary(metric, first),
+            dailySummary(metric, second),
+          ]);
+          const change =
+            a.dailyAverage !== null && b.dailyAverage !== null
+              ? round(b.dailyAverage - a.dailyAverage)
+              : null;
+
+          return {
+            metric,
+            name: getHealthType(metric).name,
+            dailyValue:
+              defaultAggregation(metric) === "sum" ? "total" : "average",
+            first: a,
+            second: b,
+            change,
+            changePercent:
+              change !== null && a.dailyAverage
+                ? round((change / a.dailyAverage) * 100)
+                : null,
+          };
+        }),
+    }),
+
+    getWorkouts: tool({
+      description:
+        "List workouts, newest first, optionally of one activity type and within a date range.",
+      parameters: z.object({
+        activityType: z
+          .string()
+          .optional()
+          .describe("e.g. HKWorkoutActivityTypeRunning"),
+        startDate: day.optional(),
+        endDate: day.optional(),
+        limit: z.number().min(1).max(100).default(20),
+      }),
+      execute: ({ activityType, limit, ...range }) =>
+        safely(async () => {
+          const list = await workouts.getWorkouts({
+            activityTypes: activityType ? [activityType] : undefined,
+            limit,
+            ...(await toRange(range)),
+          });
+
+          return list.map((workout) => ({
+            activityType: workout.activityType,
+            start: format(workout.startDate, "yyyy-MM-dd HH:mm"),
+            duration:
+              workout.duration !== null
+                ? `${round(workout.duration)} ${workout.durationUnit ?? ""}`.trim()
+                : null,
+            distance:
+              workout.totalDistance !== null
+                ? `${round(workout.totalDistance)} ${workout.totalDistanceUnit ?? ""}`.trim()
+                : null,
+            energy:
+              workout.totalEnergyBurned !== null
+                ? `${round(workout.totalEnergyBurned)} ${workout.totalEnergyBurnedUnit ?? ""}`.trim()
+                : null,
+            sourceName: workout.sourceName,
+          }));
+        }),
+    }),
+
+    showChart: tool({
+      description:
+        "Attach a chart of one or more metrics over a date range to your reply; it is drawn below your text from the user's data. Look the numbers up first, since the chart's values are not returned to you.",
+      parameters: chartSpecSchema,
+      execute: ({ metrics, bucket, ...range }) =>
+        safely(async () => {
+          const series = await health.getAggregates({
+            metrics,
+            bucket,
+            ...(await toRange(range)),
+          });
+          const points = series.reduce(
+            (total, metric) => total + metric.points.length,
+            0,
+          );
+          if (points === 0) {
+            throw new Error(
+              "No data for these metrics in that range; the chart was not shown",
+            );
+          }
+
+          return { shown: true, points };
+        }),
+    }),
+
+    getSleepSummary: tool({
+      description:
+        "Summarize nights of sleep in a date range (by wake-up date): averages of time asleep, stages and efficiency, plus each night.",
+      parameters: z.object({
+        startDate: day.optional(),
+        endDate: day.optional(),
+      }),
+      execute: (range) =>
+        safely(async () => {
+          const sessions = await health.getSleepSessions(await toRange(range));
+          const mean = (pick: (s: (typeof sessions)[number]) => number) => {
+            const value = average(sessions.map(pick));
+            return value === null ? null : round(value);
+          };
+
+          const efficiency = average(
+            sessions.flatMap((s) =>
+              s.efficiency === null ? [] : [s.efficiency],
+            ),
+          );
+
+          return {
+            nights: sessions.length,
+            averageMinutes: {
+              asleep: mean((s) => s.asleepMinutes),
+              inBed: mean((s) => s.inBedMinutes),
+              deep: mean((s) => s.deepMinutes),
+              rem: mean((s) => s.remMinutes),
+              core: mean((s) => s.coreMinutes),
+              awake: mean((s) => s.awakeMinutes),
+            },
+            averageEfficiency: efficiency === null ? null : round(efficiency),
+            perNight: sessions.slice(0, 62).map((s) => ({
+              date: s.wakeDate,
+              asleepMinutes: Math.round(s.asleepMinutes),
+              deepMinutes: Math.round(s.deepMinutes),
+              remMinutes: Math.round(s.remMinutes),
+              efficiency: s.efficiency === null ? null : round(s.efficiency),
+            })),
+          };
+        }),
+    }),
+  };
+}
@@ -0,0 +1,298 @@
+import type { ImportJob } from "@prisma/client";
+import { createHash } from "crypto";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  refreshDailySummaries,
+  uploadDateRange,
+} from "~/server/daily-summaries";
+import { runImportJob } from "~/server/import-queue";
+
+interface StoredRecord {
+  fingerprint: string;
+  type: string;
+  value: string;
+  startDate: Date;
+  sourceName?: string | null;
+  uploadId: string;
+  pendingUploadId?: string | null;
+  userId: string;
+}
+
+interface RecordWhere {
+  userId?: string;
+  fingerprint?: { in: string[] };
+  uploadId?: { not: string };
+  pendingUploadId?: string;
+}
+
+// Just enough of HealthRecord for exports that hold plain records
+const records: StoredRecord[] = [];
+const uploadStatus = new Map<string, string>();
+const matches = (record: StoredRecord, where: RecordWhere) =>
+  (where.userId === undefined || record.userId === where.userId) &&
+  (where.fingerprint?.in.includes(record.fingerprint) ?? true) &&
+  record.uploadId !== where.uploadId?.not &&
+  (where.pendingUploadId === undefined ||
+    record.pendingUploadId === where.pendingUploadId);
+
+vi.mock("~/server/db", () => {
+  // Tables the export has nothing for
+  const empty = { updateMany: async () => ({ count: 0 }) };
+
+  return {
+    db: {
+      healthRecord: {
+        groupBy: async ({ where }: { where: { userId: string } }) => {
+          const latest = new Map<string, Date>();
+          for (const record of records) {
+            if (record.userId !== where.userId) continue;
+            const current = latest.get(record.type);
+            if (!current || record.startDate > current) {
+              latest.set(record.type, record.startDate);
+            }
+          }
+          return [...latest].map(([type, startDate]) => ({
+            type,
+            _max: { startDate },
+          }));
+        },
+        findMany: async ({ where }: { where: RecordWhere }) =>
+          records.filter((record) => matches(record, where)),
+        createMany: async ({ data }: { data: StoredRecord[] }) => {
+          let count = 0;
+          for (const row of data) {
+            if (records.some((r) => r.fingerprint === row.fingerprint))
+              continue;
+            records.push(row);
+            count++;
+          }
+          return { count };
+        },
+        updateMany: async ({
+          where,
+          data,
+        }: {
+          where: RecordWhere;
+          data: Partial<StoredRecord>;
+        }) => {
+          const matched = records.filter((record) => matches(record, where));
+          for (const record of matched) Object.assign(record, data);
+          return { count: matched.length };
+        },
+      },
+      healthCorrelation: empty,
+      workout: empty,
+      electrocardiogram: empty,
+      clinicalRecord: empty,
+      healthDataUpload: {
+        findUnique: async () => ({ importConfig: null, sourceFileId: null }),
+        update: async ({
+          where,
+          data,
+        }: {
+          where: { id: string };
+          data: { status?: string };
+        }) => {
+          if (data.status) uploadStatus.set(where.id, data.status);
+        },
+      },
+      importJob: {
+        update: async () => undefined,
+        updateMany: async () => ({ count: 1 }),
+      },
+      $transaction: (operations: Array<Promise<unknown>>) =>
+        Promise.all(operations),
+      // The only raw statement: adopting records fingerprinted without their source
+      $executeRaw: async (
+        _sql: TemplateStringsArray,
+        legacy: string[],
+        fingerprints: string[],
+        sourceNames: string[],
+        userId: string,
+      ) => {
+        let count = 0;
+        for (const record of records) {
+          const i = legacy.indexOf(record.fingerprint);
+          if (record.userId !== userId || record.sourceName !== null || i < 0)
+            continue;
+          record.fingerprint = fingerprints[i]!;
+          record.sourceName = sourceNames[i];
+          count++;
+        }
+        return count;
+      },
+    },
+  };
+});
+
+vi.mock("~/server/daily-summaries", () => ({
+  rebuildOutdatedSummaries: vi.fn(),
+  refreshDailySummaries: vi.fn(),
+  uploadDateRange: vi.fn(async () => null),
+}));
+
+let dir: string;
+vi.mock("~/server/uploads", () => ({
+  uploadedFilePath: (fileId: string) => path.join(dir, `${fileId}.xml`),
+  getUploadSession: async (fileId: string) => ({
+    fileId,
+    kind: "xml",
+    complete: true,
+  }),
+  removeUploadSession: async () => undefined,
+  removeUploadedFile: async () => undefined,
+}));
+
+const stepRecord = (hour: number, value: number) =>
+  `<Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" ` +
+  `startDate="2024-03-01 ${hour}:00:00 +0000" endDate="2024-03-01 ${hour}:30:00 +0000" value="${value}"/>`;
+
+// Run the export as an import job with a single attempt, so a failure is final
+async function importExport(uploadId: string, body: string[]) {
+  await writeFile(
+    path.join(dir, `${uploadId}.xml`),
+    `<?xml version="1.0" encoding="UTF-8"?>\n<HealthData>\n${body.join("\n")}\n</HealthData>\n`,
+  );
+  await runImportJob({
+    id: `job-${uploadId}`,
+    userId: "user",
+    uploadId,
+    fileId: uploadId,
+    attempts: 1,
+    maxAttempts: 1,
+    checkpoint: null,
+  } as ImportJob);
+  return uploadStatus.get(uploadId);
+}
+
+// Mirrors health.deleteUpload: its claims are dropped, then its records cascade
+const deleteUpload = (uploadId: string) => {
+  const kept = records.filter((record) => record.uploadId !== uploadId);
+  for (const record of kept) {
+    if (record.pendingUploadId === uploadId) record.pendingUploadId = null;
+  }
+  records.splice(0, records.length, ...kept);
+};
+
+describe("re-importing an export", () => {
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "health-import-"));
+  });
+
+  beforeEach(() => {
+    records.splice(0, records.length);
+    uploadStatus.clear();
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps records a newer upload contains when the older upload is deleted", async () => {
+    expect(
+      await importExport("upload-1", [
+        stepRecord(10, 100),
+        stepRecord(11, 200),
+      ]),
+    ).toBe("COMPLETED");
+
+    // The newer export has the second record again, plus a new one
+    expect(
+      await importExport("upload-2", [
+        stepRecord(11, 200),
+        stepRecord(12, 300),
+      ]),
+    ).toBe("COMPLETED");
+
+    deleteUpload("upload-1");
+
+    expect(records.map((record) => record.value).sort()).toEqual([
+      "200",
+      "300",
+    ]);
+    expect(records.every((record) => record.uploadId === "upload-2")).toBe(
+      true,
+    );
+  });
+
+  it("matches records stored before their source was fingerprinted", async () => {
+    records.push({
+      fingerprint: createHash("md5")
+        .update(
+          "HKQuantityTypeIdentifierStepCount|2024-03-01T10:00:00.000Z|2024-03-01T10:30:00.000Z|",
+        )
+        .digest("hex"),
+      type: "HKQuantityTypeIdentifierStepCount",
+      value: "100",
+      startDate: new Date("2024-03-01T10:00:00Z"),
+      sourceName: null,
+      uploadId: "upload-1",
+      userId: "user",
+    });
+
+    expect(
+      await importExport("upload-2", [
+        stepRecord(10, 100),
+        stepRecord(11, 200),
+      ]),
+    ).toBe("COMPLETED");
+
+    expect(
+      records.map(({ value, sourceName }) => ({ value, sourceName })),
+    ).toEqual([
+      { value: "100", sourceName: "iPhone" },
+      { value: "200", sourceName: "iPhone" },
+    ]);
+  });
+
+  it("keeps the older upload's records when a failed re-import is deleted", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect(
+      await importExport("upload-1", [
+        stepRecord(10, 100),
+        stepRecord(11, 200),
+      ]),
+    ).toBe("COMPLETED");
+
+    // Records are written, then the job fails before it completes
+    const range = {
+      from: new Date("2024-03-01T12:00:00Z"),
+      to: new Date("2024-03-01T12:00:00Z"),
+    };
+    vi.mocked(uploadDateRange)
+      .mockRejectedValueOnce(new Error("Connection lost"))
+      .mockResolvedValueOnce(range);
+    expect(
+      await importExport("upload-2", [
+        stepRecord(11, 200),
+        stepRecord(12, 300),
+      ]),
+    ).toBe("FAILED");
+    // The record it did write is rolled up
+    expect(refreshDailySummaries).toHaveBeenCalledWith("user", range);
+
+    deleteUpload("upload-2");
+
+    expect(records.map((record) => record.value).sort()).toEqual([
+      "100",
+      "200",
+    ]);
+    expect(
+      records.every(
+        (record) => record.uploadId === "upload-1" && !record.pendingUploadId,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,942 @@
+import "server-only";
+
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import sax from "sax";
+import { getHealthType } from "~/lib/health-types";
+import { parseRecordValue } from "~/lib/health-values";
+import { isValidTimeZone, parseUtcOffset } from "~/lib/time-zones";
+import { importClinicalRecords } from "~/server/clinical-records";
+import { db } from "~/server/db";
+import { importElectrocardiograms } from "~/server/electrocardiograms";
+import { openExportArchive, type ExportArchive } from "~/server/export-archive";
+import { uploadedFilePath, type UploadSession } from "~/server/uploads";
+import { importWorkoutRoutes } from "~/server/workout-routes";
+import type {
+  ExportArtifacts,
+  ImportConfig,
+  ImportProgress,
+  ImportSummary,
+  ParsedCorrelation,
+  ParsedHealthData,
+  ParsedWorkout,
+  ParsedWorkoutEvent,
+} from "~/types/health";
+import { CORRELATION_TYPES } from "~/types/health";
+
+// Number of parsed records written per createMany call
+const BATCH_SIZE = 5000;
+// Workouts are written with their children one by one, so flush them in smaller groups
+const WORKOUT_BATCH_SIZE = 200;
+// Correlations are also created one by one, to connect their records
+const CORRELATION_BATCH_SIZE = 500;
+
+const DISTANCE_STATISTIC_TYPES = [
+  "HKQuantityTypeIdentifierDistanceWalkingRunning",
+  "HKQuantityTypeIdentifierDistanceCycling",
+  "HKQuantityTypeIdentifierDistanceSwimming",
+  "HKQuantityTypeIdentifierDistanceWheelchair",
+  "HKQuantityTypeIdentifierDistanceDownhillSnowSports",
+];
+
+interface HealthImportOptions {
+  userId: string;
+  uploadId: string;
+  // Filters chosen in the import dialog; everything is imported without one
+  config?: ImportConfig;
+  // Progress saved after an earlier attempt; records up to it are parsed but not written again
+  checkpoint?: ImportProgress;
+  onManifest?: (artifacts: ExportArtifacts) => void | Promise<void>;
+  onProgress?: (progress: ImportProgress) => void | Promise<void>;
+  // Called after every batch is written, once all parsed records are in the database
+  onCheckpoint?: (progress: ImportProgress) => void | Promise<void>;
+}
+
+interface ExportSource {
+  stream: Readable;
+  totalBytes: number;
+  artifacts: ExportArtifacts | null;
+  // Set for export.zip uploads, to read the files that sit next to export.xml
+  archive: ExportArchive | null;
+  close: () => void;
+}
+
+/**
+ * Whether an upload has to stay on disk after its import because it holds artifacts that later
+ * imports (routes, ECGs, clinical records) read from.
+ */
+export function keepsUploadedFile(artifacts: ExportArtifacts | null) {
+  return (
+    !!artifacts &&
+    (!!artifacts.cdaXml ||
+      artifacts.workoutRoutes.length > 0 ||
+      artifacts.electrocardiograms.length > 0 ||
+      artifacts.clinicalRecords.length > 0)
+  );
+}
+
+async function openExportSource(session: UploadSession): Promise<ExportSource> {
+  const filePath = uploadedFilePath(session.fileId, session.kind);
+
+  if (session.kind === "xml") {
+    return {
+      stream: createReadStream(filePath),
+      totalBytes: (await stat(filePath)).size,
+      artifacts: null,
+      archive: null,
+      close: () => undefined,
+    };
+  }
+
+  // export.zip: stream export.xml straight out of the archive
+  const archive = await openExportArchive(filePath);
+  const { artifacts } = archive;
+  if (!artifacts.exportXml) {
+    archive.close();
+    throw new Error("No export.xml found in the uploaded archive");
+  }
+
+  return {
+    stream: await archive.openEntry(artifacts.exportXml),
+    totalBytes: archive.getEntrySize(artifacts.exportXml),
+    artifacts,
+    archive,
+    close: archive.close,
+  };
+}
+
+/**
+ * Split HealthKit's device description (values such as "Watch6,1" may contain commas), e.g.
+ * "<<HKDevice: 0x...>, name:Apple Watch, manufacturer:Apple Inc., model:Watch, hardware:Watch6,1, software:9.0>"
+ */
+function parseDeviceDescription(device?: string) {
+  const field = (key: string) =>
+    device
+      ?.match(new RegExp(`[<,]\\s*${key}:(.*?)(?=, [\\w ]+:|>$)`))?.[1]
+      ?.trim();
+
+  return {
+    deviceName: field("name"),
+    deviceModel: field("model"),
+    deviceHardware: field("hardware"),
+  };
+}
+
+const toNumber = (value: string | undefined) => {
+  const number = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Recent exports only report totals as WorkoutStatistics; fill the legacy attributes from them
+function withStatisticTotals(workout: ParsedWorkout): ParsedWorkout {
+  const distance = workout.statistics.find(
+    (statistic) =>
+      DISTANCE_STATISTIC_TYPES.includes(statistic.type) &&
+      statistic.sum !== undefined,
+  );
+  const energy = workout.statistics.find(
+    (statistic) =>
+      statistic.type === "HKQuantityTypeIdentifierActiveEnergyBurned" &&
+      statistic.sum !== undefined,
+  );
+
+  return {
+    ...workout,
+    totalDistance: workout.totalDistance ?? distance?.sum,
+    totalDistanceUnit: workout.totalDistanceUnit ?? distance?.unit,
+    totalEnergyBurned: workout.totalEnergyBurned ?? energy?.sum,
+    totalEnergyBurnedUnit: workout.totalEnergyBurnedUnit ?? energy?.unit,
+  };
+}
+
+/**
+ * Build a SAX parser that hands every <Record> to `onRecord` and every <Workout>, with
+ * its nested statistics, events and metadata, to `onWorkout` once the element closes. Records
+ * nested in a <Correlation> go to `onRecord` as well, then to `onCorrelation` with their parent.
+ */
+function createExportParser(
+  {
+    onRecord,
+    onCorrelation,
+    onWorkout,
+  }: {
+    onRecord: (record: ParsedHealthData) => void;
+    onCorrelation: (correlation: ParsedCorrelation) => void;
+    onWorkout: (workout: ParsedWorkout) => void;
+  },
+  config?: ImportConfig,
+) {
+  const correlationTypes: string[] = Object.values(CORRELATION_TYPES);
+  const types = new Set(config?.types);
+  const categories = new Set(config?.categories);
+  const sources = new Set(config?.sources);
+  const devices = new Set(config?.devices);
+
+  // Compare the local calendar date the sample was taken on ("2024-01-01 08:00:00 -0500"
+  // starts with it) to the yyyy-MM-dd range, so the server's own zone never shifts a day
+  const isWithinDateRange = (startDate: string): boolean => {
+    const recordDay = startDate.slice(0, 10);
+
+    if (config?.startDate && recordDay < config.startDate) {
+      return false;
+    }
+
+    if (config?.endDate && recordDay > config.endDate) {
+      return false;
+    }
+
+    return true;
+  };
+
+  // Date window, sources and devices apply to records, correlations and workouts alike.
+  // With a device filter, samples without a device (manual entries, most apps) are left out.
+  const matchesConfig = (attrs: Record<string, string | undefined>) =>
+    !!attrs.startdate &&
+    isWithinDateRange(attrs.startdate) &&
+    (sources.size === 0 || sources.has(attrs.sourcename ?? "")) &&
+    (devices.size === 0 ||
+      devices.has(parseDeviceDescription(attrs.device).deviceModel ?? ""));
+
+  // Every type is imported unless types or categories were picked; unknown types count as Other
+  const isSelectedType = (type: string) =>
+    (types.size === 0 && categories.size === 0) ||
+    types.has(type) ||
+    categories.has(getHealthType(type).category);
+
+  // Non-strict mode lowercases tag and attribute names
+  const parser = sax.parser(false, {
+    lowercase: true,
+    normalize: true,
+  });
+
+  // <Record>, <Correlation> or <Workout> currently open, and where its nested MetadataEntry
+  // elements belong
+  let record: ParsedHealthData | null = null;
+  let correlation: ParsedCorrelation | null = null;
+  let workout: ParsedWorkout | null = null;
+  let workoutEvent: ParsedWorkoutEvent | null = null;
+  let inWorkoutRoute = false;
+
+  parser.onopentag = (node) => {
+    const attrs = node.attributes as Record<string, string | undefined>;
+
+    if (node.name === "record") {
+      if (
+        !attrs.type ||
+        !attrs.value ||
+        !attrs.startdate ||
+        !attrs.enddate ||
+        !isSelectedType(attrs.type) ||
+        !matchesConfig(attrs)
+      ) {
+        return;
+      }
+
+      // Emitted on the closing tag, once its MetadataEntry children are collected
+      record = {
+        type: attrs.type,
+        value: attrs.value,
+        unit: attrs.unit,
+        startDate: attrs.startdate,
+        endDate: attrs.enddate,
+        sourceName: attrs.sourcename,
+        sourceVersion: attrs.sourceversion,
+        device: attrs.device,
+        metadata: {},
+      };
+    } else if (record) {
+      if (
+        node.name === "metadataentry" &&
+        attrs.key &&
+        attrs.value !== undefined
+      ) {
+        record.metadata![attrs.key] = attrs.value;
+      }
+    } else if (node.name === "correlation") {
+      if (
+        !attrs.type ||
+        !attrs.startdate ||
+        !attrs.enddate ||
+        !correlationTypes.includes(attrs.type) ||
+        !matchesConfig(attrs)
+      ) {
+        return;
+      }
+
+      correlation = {
+        type: attrs.type,
+        startDate: attrs.startdate,
+        endDate: attrs.enddate,
+        sourceName: attrs.sourcename,
+        sourceVersion: attrs.sourceversion,
+        device: attrs.device,
+        metadata: {},
+        records: [],
+      };
+    } else if (correlation) {
+      if (
+        node.name === "metadataentry" &&
+        attrs.key &&
+        attrs.value !== undefined
+      ) {
+        correlation.metadata[attrs.key] = attrs.value;
+      }
+    } else if (node.name === "workout") {
+      if (
+        !attrs.workoutactivitytype ||
+        !attrs.startdate ||
+        !attrs.enddate ||
+        !matchesConfig(attrs)
+      ) {
+        return;
+      }
+
+      workout = {
+        activityType: attrs.workoutactivitytype,
+        duration: toNumber(attrs.duration),
+        durationUnit: attrs.durationunit,
+        totalDistance: toNumber(attrs.totaldistance),
+        totalDistanceUnit: attrs.totaldistanceunit,
+        totalEnergyBurned: toNumber(attrs.totalenergyburned),
+        totalEnergyBurnedUnit: attrs.totalenergyburnedunit,
+        startDate: attrs.startdate,
+        endDate: attrs.enddate,
+        sourceName: attrs.sourcename,
+        sourceVersion: attrs.sourceversion,
+        device: attrs.device,
+        metadata: {},
+        statistics: [],
+        events: [],
+      };
+    } else if (workout) {
+      switch (node.name) {
+        case "workoutstatistics":
+          if (attrs.type && attrs.startdate && attrs.enddate) {
+            workout.statistics.push({
+              type: attrs.type,
+              startDate: attrs.startdate,
+              endDate: attrs.enddate,
+              average: toNumber(attrs.average),
+              minimum: toNumber(attrs.minimum),
+              maximum: toNumber(attrs.maximum),
+              sum: toNumber(attrs.sum),
+              unit: attrs.unit,
+            });
+          }
+          break;
+        case "workoutevent":
+          if (attrs.type && attrs.date) {
+            workoutEvent = {
+              type: attrs.type,
+              date: attrs.date,
+              duration: toNumber(attrs.duration),
+              durationUnit: attrs.durationunit,
+              metadata: {},
+            };
+            workout.events.push(workoutEvent);
+          }
+          break;
+        case "workoutroute":
+          inWorkoutRoute = true;
+          break;
+        case "filereference":
+          if (inWorkoutRoute && attrs.path) {
+            workout.routeFile = attrs.path;
+          }
+          break;
+        case "metadataentry":
+          // Route metadata describes the GPX file, not the workout
+          if (attrs.key && attrs.value !== undefined && !inWorkoutRoute) {
+            (workoutEvent ?? workout).metadata[attrs.key] = attrs.value;
+          }
+          break;
+      }
+    }
+  };
+
+  parser.onclosetag = (name) => {
+    if (record) {
+      if (name === "record") {
+        onRecord(record);
+        correlation?.records.push(record);
+        record = null;
+      }
+      return;
+    }
+    if (correlation) {
+      if (name === "correlation") {
+        // Skip readings whose records were all filtered out
+        if (correlation.records.length > 0) onCorrelation(correlation);
+        correlation = null;
+      }
+      return;
+    }
+    if (!workout) return;
+
+    if (name === "workoutevent") {
+      workoutEvent = null;
+    } else if (name === "workoutroute") {
+      inWorkoutRoute = false;
+    } else if (name === "workout") {
+      onWorkout(withStatisticTotals(workout));
+      workout = null;
+    }
+  };
+
+  return parser;
+}
+
+/**
+ * Identity of a record across exports. The value is deliberately left out so a record that
+ * changed between exports is reported as a conflict rather than stored twice. The
+ * record_fingerprints migration backfilled it without a source, as none was stored then;
+ * `importRecords` matches those rows too.
+ */
+function recordFingerprint(
+  type: string,
+  startDate: Date,
+  endDate: Date,
+  sourceName?: string,
+) {
+  return createHash("md5")
+    .update(
+      `${type}|${startDate.toISOString()}|${endDate.toISOString()}|${sourceName ?? ""}`,
+    )
+    .digest("hex");
+}
+
+/**
+ * Parse an uploaded export and write its records to `HealthRecord` (correlations and workouts to
+ * their own tables) in batches, without ever holding the full dataset in memory. Records the user
+ * already has are skipped, so re-importing a full export only appends what is new. The stream is
+ * read chunk by chunk and paused while each batch is written, so a slow database applies
+ * backpressure to the parser.
+ *
+ * Runs inside an import job (see import-queue.ts), which owns the upload's status and files.
+ */
+export async function importHealthExport(
+  session: UploadSession,
+  {
+    userId,
+    uploadId,
+    config,
+    checkpoint,
+    onManifest,
+    onProgress,
+    onCheckpoint,
+  }: HealthImportOptions,
+): Promise<ImportSummary> {
+  const source = await openExportSource(session);
+
+  try {
+    if (source.artifacts) {
+      await onManifest?.(source.artifacts);
+    }
+
+    const summary = await importRecords(source, {
+      userId,
+      uploadId,
+      config,
+      checkpoint,
+      onProgress,
+      onCheckpoint,
+    });
+
+    // GPX tracks are matched to workouts once every workout has been written
+    if (source.archive && source.archive.artifacts.workoutRoutes.length > 0) {
+      summary.routesImported = await importWorkoutRoutes(
+        source.archive,
+        userId,
+      );
+      await onProgress?.(summary);
+    }
+
+    if (
+      source.archive &&
+      source.archive.artifacts.electrocardiograms.length > 0
+    ) {
+      summary.electrocardiogramsImported = await importElectrocardiograms(
+        source.archive,
+        { userId, uploadId, config },
+      );
+      await onProgress?.(summary);
+    }
+
+    if (
+      source.archive &&
+      (!!source.archive.artifacts.cdaXml ||
+        source.archive.artifacts.clinicalRecords.length > 0)
+    ) {
+      summary.clinicalRecordsImported = await importClinicalRecords(
+        source.archive,
+        { userId, uploadId, config },
+      );
+      await onProgress?.(summary);
+    }
+
+    return summary;
+  } finally {
+    source.close();
+  }
+}
+
+/**
+ * Hand what an import found already stored over to its upload, now the newest that contains it.
+ * Returned as operations so they commit in the transaction that marks the upload COMPLETED.
+ */
+export function claimExistingRecords(uploadId: string) {
+  const where = { pendingUploadId: uploadId };
+  const data = { uploadId, pendingUploadId: null };
+
+  return [
+    db.healthRecord.updateMany({ where, data }),
+    db.healthCorrelation.updateMany({ where, data }),
+    db.workout.updateMany({ where, data }),
+    db.electrocardiogram.updateMany({ where, data }),
+    db.clinicalRecord.updateMany({ where, data }),
+  ];
+}
+
+// Drop the claims of an import that failed or was deleted; the records stay with their upload
+export function releaseExistingRecords(uploadId: string) {
+  const where = { pendingUploadId: uploadId };
+  const data = { pendingUploadId: null };
+
+  return [
+    db.healthRecord.updateMany({ where, data }),
+    db.healthCorrelation.updateMany({ where, data }),
+    db.workout.updateMany({ where, data }),
+    db.electrocardiogram.updateMany({ where, data }),
+    db.clinicalRecord.updateMany({ where, data }),
+  ];
+}
+
+async function importRecords(
+  source: ExportSource,
+  {
+    userId,
+    uploadId,
+    config,
+    checkpoint,
+    onProgress,
+    onCheckpoint,
+  }: Omit<HealthImportOptions, "onManifest">,
+): Promise<ImportSummary> {
+  const pending: ParsedHealthData[] = [];
+  const pendingCorrelations: ParsedCorrelation[] = [];
+  const pendingWorkouts: ParsedWorkout[] = [];
+  const dataTypes: Record<string, number> = {};
+  const progress: ImportProgress = {
+    bytesProcessed: 0,
+    totalBytes: source.totalBytes,
+    recordsProcessed: 0,
+    recordsInserted: checkpoint?.recordsInserted ?? 0,
+    recordsSkipped: checkpoint?.recordsSkipped ?? 0,
+    recordsConflicting: checkpoint?.recordsConflicting ?? 0,
+    workoutsInserted: checkpoint?.workoutsInserted ?? 0,
+    correlationsInserted: checkpoint?.correlationsInserted ?? 0,
+    routesImported: 0,
+    electrocardiogramsImported: 0,
+    clinicalRecordsImported: 0,
+  };
+  const resumeAfter = checkpoint?.recordsProcessed ?? 0;
+
+  // Newest record already stored per type; anything later is new and needs no lookup
+  const latestByType = new Map(
+    (
+      await db.healthRecord.groupBy({
+        by: ["type"],
+        where: { userId },
+        _max: { startDate: true },
+      })
+    ).map((row) => [row.type, row._max.startDate]),
+  );
+
+  const parser = createExportParser(
+    {
+      onRecord: (record) => {
+        progress.recordsProcessed += 1;
+        if (progress.recordsProcessed > resumeAfter) {
+          pending.push(record);
+        }
+        dataTypes[record.type] = (dataTypes[record.type] ?? 0) + 1;
+      },
+      // Correlations and workouts written before a retry are skipped by their fingerprint
+      onCorrelation: (correlation) => pendingCorrelations.push(correlation),
+      onWorkout: (workout) => pendingWorkouts.push(workout),
+    },
+    config,
+  );
+
+  // Abort on malformed XML; the error surfaces from parser.write below
+  parser.onerror = (err) => {
+    throw err;
+  };
+
+  const writeRecords = async (batch: ParsedHealthData[]) => {
+    if (batch.length === 0) return;
+
+    const rows = batch.map((record) => {
+      const startDate = new Date(record.startDate);
+      const endDate = new Date(record.endDate);
+
+      return {
+        type: record.type,
+        value: record.value,
+        ...parseRecordValue(record.type, record.value, record.unit),
+        startDate,
+        endDate,
+        utcOffset: parseUtcOffset(record.startDate),
+        timeZone: isValidTimeZone(record.metadata?.HKTimeZone)
+          ? record.metadata!.HKTimeZone
+          : null,
+        sourceName: record.sourceName,
+        sourceVersion: record.sourceVersion,
+        ...parseDeviceDescription(record.device),
+        metadata:
+          record.metadata && Object.keys(record.metadata).length > 0
+            ? record.metadata
+            : undefined,
+        fingerprint: recordFingerprint(
+          record.type,
+          startDate,
+          endDate,
+          record.sourceName,
+        ),
+        uploadId,
+        userId,
+      };
+    });
+
+    const candidates = rows.filter((row) => {
+      const latest = latestByType.get(row.type);
+      return !!latest && row.startDate <= latest;
+    });
+    // Records stored before sourceName was kept were fingerprinted without it
+    const legacyFingerprintOf = (row: (typeof rows)[number]) =>
+      recordFingerprint(row.type, row.startDate, row.endDate);
+    const existing =
+      candidates.length > 0
+        ? await db.healthRecord.findMany({
+            where: {
+              userId,
+              fingerprint: {
+                in: candidates.flatMap((row) =>
+                  row.sourceName
+                    ? [row.fingerprint, legacyFingerprintOf(row)]
+                    : [row.fingerprint],
+                ),
+              },
+            },
+            select: { fingerprint: true, value: true, sourceName: true },
+          })
+        : [];
+    const existingValues = new Map(
+      existing.map((row) => [row.fingerprint, row.value]),
+    );
+
+    // Adopt such a record under the real source instead of storing a second copy. A legacy row
+    // a source-less record of this batch matches exactly is already that record.
+    const legacyValues = new Map(
+      existing
+        .filter((row) => row.sourceName === null)
+        .map((row) => [row.fingerprint, row.value]),
+    );
+    for (const row of candidates) {
+      if (!row.sourceName) legacyValues.delete(row.fingerprint);
+    }
+    const adopted: Array<{
+      legacy: string;
+      fingerprint: string;
+      sourceName: string;
+    }> = [];
+    for (const row of candidates) {
+      if (!row.sourceName || existingValues.has(row.fingerprint)) continue;
+
+      const legacy = legacyFingerprintOf(row);
+      const value = legacyValues.get(legacy);
+      if (value === undefined) continue;
+
+      legacyValues.delete(legacy);
+      existingValues.set(row.fingerprint, value);
+      adopted.push({
+        legacy,
+        fingerprint: row.fingerprint,
+        sourceName: row.sourceName,
+      });
+    }
+    if (adopted.length > 0) {
+      await db.$executeRaw`
+        UPDATE "HealthRecord" r
+        SET "fingerprint" = a."fingerprint", "sourceName" = a."sourceName"
+        FROM unnest(
+          ${adopted.map((row) => row.legacy)}::text[],
+          ${adopted.map((row) => row.fingerprint)}::text[],
+          ${adopted.map((row) => row.sourceName)}::text[]
+        ) AS a("legacy", "fingerprint", "sourceName")
+        WHERE r."userId" = ${userId} AND r."fingerprint" = a."legacy" AND r."sourceName" IS NULL
+      `;
+    }
+
+    // A record belongs to the newest upload that has it, so deleting an older upload only
+    // removes what no later export contained. It changes hands once this import completes
+    // (see claimExistingRecords), so a failed import never takes records from a good one.
+    if (existing.length > 0) {
+      await db.healthRecord.updateMany({
+        where: {
+          userId,
+          fingerprint: { in: [...existingValues.keys()] },
+          uploadId: { not: uploadId },
+        },
+        data: { pendingUploadId: uploadId },
+      });
+    }
+
+    const fresh = rows.filter((row) => {
+      const value = existingValues.get(row.fingerprint);
+      if (value === undefined) return true;
+
+      if (value === row.value) progress.recordsSkipped += 1;
+      else progress.recordsConflicting += 1;
+      return false;
+    });
+
+    // skipDuplicates also drops repeats within the export itself
+    const result = await db.healthRecord.createMany({
+      data: fresh,
+      skipDuplicates: true,
+    });
+
+    progress.recordsInserted += result.count;
+    progress.recordsSkipped += fresh.length - result.count;
+  };
+
+  const writeCorrelations = async (batch: ParsedCorrelation[]) => {
+    if (batch.length === 0) return;
+
+    const rows = batch.map((correlation) => {
+      const startDate = new Date(correlation.startDate);
+      const endDate = new Date(correlation.endDate);
+
+      return {
+        correlation,
+        startDate,
+        endDate,
+        fingerprint: recordFingerprint(
+          correlation.type,
+          startDate,
+          endDate,
+          correlation.sourceName,
+        ),
+      };
+    });
+
+    const existing = await db.healthCorrelation.findMany({
+      where: {
+        userId,
+        fingerprint: { in: rows.map((row) => row.fingerprint) },
+      },
+      select: { fingerprint: true },
+    });
+    const seen = new Set(existing.map((row) => row.fingerprint));
+    if (seen.size > 0) {
+      await db.healthCorrelation.updateMany({
+        where: {
+          userId,
+          fingerprint: { in: [...seen] },
+          uploadId: { not: uploadId },
+        },
+        data: { pendingUploadId: uploadId },
+      });
+    }
+    const fresh = rows.filter((row) => {
+      if (seen.has(row.fingerprint)) return false;
+      seen.add(row.fingerprint);
+      return true;
+    });
+
+    // Member records are written before correlations, or were already stored, so they can be
+    // connected by fingerprint whether or not this import inserted them
+    await db.$transaction(
+      fresh.map(({ correlation, startDate, endDate, fingerprint }) =>
+        db.healthCorrelation.create({
+          data: {
+            type: correlation.type,
+            startDate,
+            endDate,
+            sourceName: correlation.sourceName,
+            sourceVersion: correlation.sourceVersion,
+            device: correlation.device,
+            metadata:
+              Object.keys(correlation.metadata).length > 0
+                ? correlation.metadata
+                : undefined,
+            fingerprint,
+            uploadId,
+            userId,
+            records: {
+              connect: correlation.records.map((record) => ({
+                userId_fingerprint: {
+                  userId,
+                  fingerprint: recordFingerprint(
+                    record.type,
+                    new Date(record.startDate),
+                    new Date(record.endDate),
+                    record.sourceName,
+                  ),
+                },
+              })),
+            },
+          },
+        }),
+      ),
+    );
+
+    progress.correlationsInserted += fresh.length;
+  };
+
+  const writeWorkouts = async (batch: ParsedWorkout[]) => {
+    if (batch.length === 0) return;
+
+    const rows = batch.map((workout) => {
+      const startDate = new Date(workout.startDate);
+      const endDate = new Date(workout.endDate);
+
+      return {
+        workout,
+        startDate,
+        endDate,
+        fingerprint: recordFingerprint(
+          workout.activityType,
+          startDate,
+          endDate,
+          workout.sourceName,
+        ),
+      };
+    });
+
+    const existing = await db.workout.findMany({
+      where: {
+        userId,
+        fingerprint: { in: rows.map((row) => row.fingerprint) },
+      },
+      select: { fingerprint: true },
+    });
+    const seen = new Set(existing.map((row) => row.fingerprint));
+    if (seen.size > 0) {
+      await db.workout.updateMany({
+        where: {
+          userId,
+          fingerprint: { in: [...seen] },
+          uploadId: { not: uploadId },
+        },
+        data: { pendingUploadId: uploadId },
+      });
+    }
+    const fresh = rows.filter((row) => {
+      if (seen.has(row.fingerprint)) return false;
+      seen.add(row.fingerprint);
+      return true;
+    });
+
+    await db.$transaction(
+      fresh.map(({ workout, startDate, endDate, fingerprint }) =>
+        db.workout.create({
+          data: {
+            activityType: workout.activityType,
+            duration: workout.duration,
+            durationUnit: workout.durationUnit,
+            totalDistance: workout.totalDistance,
+            totalDistanceUnit: workout.totalDistanceUnit,
+            totalEnergyBurned: workout.totalEnergyBurned,
+            totalEnergyBurnedUnit: workout.totalEnergyBurnedUnit,
+            startDate,
+            endDate,
+            sourceName: workout.sourceName,
+            sourceVersion: workout.sourceVersion,
+            device: workout.device,
+            metadata: workout.metadata,
+            routeFile: workout.routeFile,
+            fingerprint,
+            uploadId,
+            userId,
+            statistics: {
+              create: workout.statistics.map((statistic) => ({
+                ...statistic,
+                startDate: new Date(statistic.startDate),
+                endDate: new Date(statistic.endDate),
+              })),
+            },
+            events: {
+              create: workout.events.map((event) => ({
+                ...event,
+                date: new Date(event.date),
+              })),
+            },
+          },
+        }),
+      ),
+    );
+
+    progress.workoutsInserted += fresh.length;
+  };
+
+  const flush = async () => {
+    if (
+      pending.length === 0 &&
+      pendingCorrelations.length === 0 &&
+      pendingWorkouts.length === 0
+    ) {
+      return;
+    }
+
+    await writeRecords(pending.splice(0, pending.length));
+    await writeCorrelations(
+      pendingCorrelations.splice(0, pendingCorrelations.length),
+    );
+    await writeWorkouts(pendingWorkouts.splice(0, pendingWorkouts.length));
+    await onCheckpoint?.({ ...progress });
+    await onProgress?.({ ...progress });
+  };
+
+  let lastReportedPercent = 0;
+  // Multi-byte characters may straddle chunk boundaries
+  const decoder = new StringDecoder("utf8");
+
+  for await (const chunk of source.stream) {
+    const buffer = chunk as Buffer;
+    progress.bytesProcessed += buffer.length;
+    parser.write(decoder.write(buffer));
+
+    if (
+      pending.length >= BATCH_SIZE ||
+      pendingCorrelations.length >= CORRELATION_BATCH_SIZE ||
+      pendingWorkouts.length >= WORKOUT_BATCH_SIZE
+    ) {
+      await flush();
+    }
+
+    // Report byte progress at least once per percent even between batches
+    const percent = Math.floor(
+      (progress.bytesProcessed / progress.totalBytes) * 100,
+    );
+    if (percent > lastReportedPercent) {
+      lastReportedPercent = percent;
+      await onProgress?.({ ...progress });
+    }
+  }
+
+  parser.write(decoder.end());
+  parser.close();
+  await flush();
+
+  return {
+    ...progress,
+    uploadId,
+    dataTypes,
+    artifacts: source.artifacts,
+  };
+}
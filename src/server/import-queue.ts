@@ -0,0 +1,334 @@
+import "server-only";
+
+import type { ImportJob, Prisma } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { db } from "~/server/db";
+import {
+  markSummariesOutdated,
+  rebuildOutdatedSummaries,
+  refreshDailySummaries,
+  uploadDateRange,
+} from "~/server/daily-summaries";
+import {
+  claimExistingRecords,
+  importHealthExport,
+  keepsUploadedFile,
+  releaseExistingRecords,
+} from "~/server/health-import";
+import { asJson } from "~/server/json";
+import {
+  getUploadSession,
+  removeUploadedFile,
+  removeUploadSession,
+  type UploadSession,
+} from "~/server/uploads";
+import type { ImportConfig, ImportProgress } from "~/types/health";
+
+// How often the worker looks for queued jobs and stale locks
+const POLL_INTERVAL_MS = 30 * 1000;
+// A RUNNING job without a heartbeat for this long belongs to a dead process
+const STALE_LOCK_MS = 5 * 60 * 1000;
+// Refreshes the lock through every phase of a job, well inside STALE_LOCK_MS
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Unique to this process: processes on one host never touch each other's jobs, and a
+// restarted process leaves its old jobs to the stale-lock requeue
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+// First retry after 30s, then 1m, 2m, ...
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+// The job's lock went stale and it was requeued; another worker may be running it by now
+class LostLockError extends Error {}
+
+const globalForWorker = globalThis as unknown as {
+  importWorker:
+    | { timer: NodeJS.Timeout; draining: boolean; rerun: boolean }
+    | undefined;
+};
+
+/**
+ * Queue an import for an uploaded export and wake the worker. The upload row stays in
+ * PROCESSING until the job completes or runs out of attempts.
+ */
+export async function enqueueImportJob({
+  userId,
+  uploadId,
+  fileId,
+}: {
+  userId: string;
+  uploadId: string;
+  fileId: string;
+}) {
+  const job = await db.importJob.create({
+    data: { userId, uploadId, fileId },
+  });
+
+  startImportWorker();
+  void drainImportQueue();
+  return job;
+}
+
+/**
+ * Start the in-process worker. Called once per server from `register()` in instrumentation.ts.
+ * Jobs left RUNNING by a crashed or restarted process are requeued once their lock goes stale.
+ */
+export function startImportWorker() {
+  if (globalForWorker.importWorker) return;
+
+  globalForWorker.importWorker = {
+    timer: setInterval(() => void drainImportQueue(), POLL_INTERVAL_MS),
+    draining: false,
+    rerun: false,
+  };
+  void drainImportQueue();
+}
+
+/**
+ * Rebuild the user's rollups in the background, after a change to how their days or sources are
+ * counted that would take too long to apply within a request.
+ */
+export async function queueSummaryRebuild(userId: string) {
+  await markSummariesOutdated(userId);
+
+  startImportWorker();
+  void drainImportQueue();
+}
+
+async function requeueStaleJobs() {
+  const { count } = await db.importJob.updateMany({
+    where: {
+      status: "RUNNING",
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+    },
+    data: { status: "QUEUED", lockedAt: null, lockedBy: null },
+  });
+
+  if (count > 0) {
+    console.log(`Requeued ${count} interrupted import job(s)`);
+  }
+}
+
+// Claim the oldest runnable job; SKIP LOCKED keeps concurrent workers off the same row
+async function claimNextJob() {
+  const [claimed] = await db.$queryRaw<Array<{ id: string }>>`
+    UPDATE "ImportJob"
+    SET "status" = 'RUNNING', "lockedAt" = now(), "lockedBy" = ${WORKER_ID}, "attempts" = "attempts" + 1, "updatedAt" = now()
+    WHERE "id" = (
+      SELECT "id" FROM "ImportJob"
+      WHERE "status" = 'QUEUED' AND "runAfter" <= now()
+      ORDER BY "createdAt"
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id"
+  `;
+
+  return claimed
+    ? db.importJob.findUnique({ where: { id: claimed.id } })
+    : null;
+}
+
+async function drainImportQueue() {
+  const worker = globalForWorker.importWorker;
+  if (!worker) return;
+  // A job enqueued mid-drain could be missed by the last claim; go around once more
+  if (worker.draining) {
+    worker.rerun = true;
+    return;
+  }
+  worker.draining = true;
+
+  try {
+    await requeueStaleJobs();
+    // Before any job, so an import never refreshes days a rebuild is rewriting
+    await rebuildOutdatedSummaries();
+
+    let job = await claimNextJob();
+    while (job) {
+      await runImportJob(job);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error("Import queue error:", error);
+  } finally {
+    worker.draining = false;
+    if (worker.rerun) {
+      worker.rerun = false;
+      void drainImportQueue();
+    }
+  }
+}
+
+async function finishUpload(job: ImportJob, session: UploadSession | null) {
+  // Drop the upload session once no further attempt will read the file
+  await removeUploadSession(job.fileId);
+  if (!session) return;
+
+  const upload = await db.healthDataUpload.findUnique({
+    where: { id: job.uploadId },
+    select: { sourceFileId: true },
+  });
+  if (upload?.sourceFileId !== job.fileId) {
+    await removeUploadedFile(job.fileId, session.kind);
+  }
+}
+
+/**
+ * Run a job the worker claimed: import the export, roll up the days it touched and record the
+ * outcome, requeueing the job while attempts remain.
+ */
+export async function runImportJob(job: ImportJob) {
+  const session = await getUploadSession(job.fileId, job.userId);
+
+  // Only writes while this worker still holds the lock, and stops the job once it doesn't
+  const heartbeat = async (
+    data: Prisma.ImportJobUpdateManyMutationInput = {},
+  ) => {
+    const { count } = await db.importJob.updateMany({
+      where: { id: job.id, status: "RUNNING", lockedBy: WORKER_ID },
+      data: { ...data, lockedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new LostLockError(
+        `Import job ${job.id} was requeued after its lock went stale`,
+      );
+    }
+  };
+
+  // Routes, ECGs, clinical records and rollups report no progress, so keep the lock fresh on a timer too
+  const heartbeatTimer = setInterval(() => {
+    heartbeat().catch((error) =>
+      console.error(`Import job ${job.id} heartbeat failed:`, error),
+    );
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (!session?.complete) {
+      throw new Error("Uploaded file is no longer available");
+    }
+
+    // The import dialog's choices are saved on the upload, so retries apply the same filters
+    const upload = await db.healthDataUpload.findUnique({
+      where: { id: job.uploadId },
+      select: { importConfig: true },
+    });
+
+    const summary = await importHealthExport(session, {
+      userId: job.userId,
+      uploadId: job.uploadId,
+      config: (upload?.importConfig as ImportConfig | null) ?? undefined,
+      checkpoint: (job.checkpoint as ImportProgress | null) ?? undefined,
+      onManifest: async (artifacts) => {
+        await db.healthDataUpload.update({
+          where: { id: job.uploadId },
+          data: { artifacts: asJson(artifacts) },
+        });
+      },
+      onProgress: async (progress) => {
+        await heartbeat({ progress: asJson(progress) });
+      },
+      onCheckpoint: async (progress) => {
+        await heartbeat({ checkpoint: asJson(progress) });
+      },
+    });
+
+    // Roll up the days this upload touched before reporting it complete
+    const range = await uploadDateRange(job.uploadId);
+    if (range) await refreshDailySummaries(job.userId, range);
+    await heartbeat();
+
+    // Records an earlier upload also had move to this one only now that nothing can fail it
+    await db.$transaction([
+      ...claimExistingRecords(job.uploadId),
+      db.healthDataUpload.update({
+        where: { id: job.uploadId },
+        data: {
+          status: "COMPLETED",
+          processedAt: new Date(),
+          recordsInserted: summary.recordsInserted,
+          recordsSkipped: summary.recordsSkipped,
+          recordsConflicting: summary.recordsConflicting,
+          // Archives with routes, ECGs or clinical records are kept for follow-up imports
+          sourceFileId: keepsUploadedFile(summary.artifacts)
+            ? job.fileId
+            : undefined,
+        },
+      }),
+      db.importJob.update({
+        where: { id: job.id },
+        data: {
+          status: "COMPLETED",
+          progress: asJson(summary),
+          result: asJson(summary),
+          error: null,
+          lockedAt: null,
+          lockedBy: null,
+          finishedAt: new Date(),
+        },
+      }),
+    ]);
+
+    await finishUpload(job, session);
+  } catch (error) {
+    // The job, its upload and its file are the other worker's now
+    if (error instanceof LostLockError) {
+      console.warn(error.message);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const canRetry = !!session?.complete && job.attempts < job.maxAttempts;
+    console.error(
+      `Import job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`,
+      error,
+    );
+
+    try {
+      if (canRetry) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+        await db.importJob.update({
+          where: { id: job.id },
+          data: {
+            status: "QUEUED",
+            error: message,
+            lockedAt: null,
+            lockedBy: null,
+            runAfter: new Date(Date.now() + delay),
+          },
+        });
+        return;
+      }
+
+      await db.$transaction([
+        ...releaseExistingRecords(job.uploadId),
+        db.healthDataUpload.update({
+          where: { id: job.uploadId },
+          data: { status: "FAILED" },
+        }),
+        db.importJob.update({
+          where: { id: job.id },
+          data: {
+            status: "FAILED",
+            error: message,
+            lockedAt: null,
+            lockedBy: null,
+            finishedAt: new Date(),
+          },
+        }),
+      ]);
+      await finishUpload(job, session);
+
+      // Records written before the failure are kept, so their days are rolled up all the same
+      const range = await uploadDateRange(job.uploadId);
+      if (range) await refreshDailySummaries(job.userId, range);
+    } catch (updateError) {
+      // The upload may have been deleted while the job was running
+      console.error(
+        `Failed to record outcome of import job ${job.id}:`,
+        updateError,
+      );
+    }
+  } finally {
+    clearInterval(heartbeatTimer);
+  }
+}
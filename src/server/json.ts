@@ -0,0 +1,8 @@
+import type { Prisma } from "@prisma/client";
+
+// Prisma's JSON input types have an index signature our interfaces don't declare
+export function asJson(value: readonly object[]): Prisma.InputJsonArray;
+export function asJson(value: object): Prisma.InputJsonObject;
+export function asJson(value: object) {
+  return value as Prisma.InputJsonValue;
+}
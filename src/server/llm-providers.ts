@@ -0,0 +1,70 @@
+import "server-only";
+
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+import { env } from "~/env";
+import { createMockLanguageModel } from "~/server/mock-language-model";
+
+export type LlmProviderName = typeof env.LLM_PROVIDER;
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  temperature?: number;
+  maxTokens: number;
+}
+
+// Chat model backends, selected with LLM_PROVIDER
+export const LLM_PROVIDERS: Record<
+  LlmProviderName,
+  (settings: LlmSettings) => LanguageModelV1
+> = {
+  openai: ({ model, apiKey }) => {
+    if (!apiKey) {
+      throw new Error(
+        "OPENAI_API_KEY or LLM_API_KEY is required for the openai provider",
+      );
+    }
+    return createOpenAI({ apiKey })(model);
+  },
+
+  // llama.cpp, Ollama, vLLM and other servers that speak the chat completions API
+  "openai-compatible": ({ model, baseURL, apiKey }) => {
+    if (!baseURL) {
+      throw new Error(
+        "LLM_BASE_URL is required for the openai-compatible provider",
+      );
+    }
+    return createOpenAI({
+      name: "openai-compatible",
+      baseURL,
+      // Most local servers ignore the key, but the client always sends one
+      apiKey: apiKey ?? "none",
+      compatibility: "compatible",
+    }).chat(model);
+  },
+
+  mock: ({ model }) => createMockLanguageModel(model),
+};
+
+// The API key falls back to OPENAI_API_KEY for the hosted provider only, so it never reaches another server
+export const llmSettings: LlmSettings = {
+  provider: env.LLM_PROVIDER,
+  model: env.LLM_MODEL,
+  baseURL: env.LLM_BASE_URL,
+  apiKey:
+    env.LLM_API_KEY ??
+    (env.LLM_PROVIDER === "openai" ? env.OPENAI_API_KEY : undefined),
+  temperature: env.LLM_TEMPERATURE,
+  maxTokens: env.LLM_MAX_TOKENS,
+};
+
+let languageModel: LanguageModelV1 | undefined;
+
+// The configured chat model, created on first use so a bad setting fails the chat request only
+export function getLanguageModel() {
+  languageModel ??= LLM_PROVIDERS[llmSettings.provider](llmSettings);
+  return languageModel;
+}
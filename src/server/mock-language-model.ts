@@ -0,0 +1,134 @@
+import "server-only";
+
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart,
+} from "ai";
+
+// Delay between streamed parts, slow enough to try stopping a reply
+const PART_DELAY_MS = 30;
+const RESULT_PREVIEW_LENGTH = 200;
+
+type Turn =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; toolName: string; args: string };
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+// Looks the data up first when the health tools are offered, then reports what came back
+function nextTurn({ prompt, mode }: LanguageModelV1CallOptions): Turn {
+  const last = prompt[prompt.length - 1];
+
+  if (last?.role === "tool") {
+    const results = last.content.map(
+      (part) =>
+        `${part.toolName} returned ${truncate(JSON.stringify(part.result), RESULT_PREVIEW_LENGTH)}`,
+    );
+    return {
+      type: "text",
+      text: `This is a mock reply.\n${results.join("\n")}`,
+    };
+  }
+
+  const tools = mode.type === "regular" ? (mode.tools ?? []) : [];
+  if (tools.some((tool) => tool.name === "getAvailableData")) {
+    return { type: "tool-call", toolName: "getAvailableData", args: "{}" };
+  }
+
+  const question =
+    last?.role === "user"
+      ? last.content
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join(" ")
+      : "";
+  return { type: "text", text: `Mock reply to: ${question.trim()}` };
+}
+
+const toolCall = (
+  turn: Extract<Turn, { type: "tool-call" }>,
+  { prompt }: LanguageModelV1CallOptions,
+) => ({
+  toolCallType: "function" as const,
+  toolCallId: `mock-call-${prompt.length}`,
+  toolName: turn.toolName,
+  args: turn.args,
+});
+
+const usage = (turn: Turn) => ({
+  promptTokens: 0,
+  completionTokens: turn.type === "text" ? turn.text.split(/\s+/).length : 1,
+});
+
+// Emits the parts one at a time, and fails like a dropped connection once the call is aborted
+function streamParts(
+  parts: LanguageModelV1StreamPart[],
+  abortSignal?: AbortSignal,
+) {
+  let index = 0;
+
+  return new ReadableStream<LanguageModelV1StreamPart>({
+    async pull(controller) {
+      await new Promise((resolve) => setTimeout(resolve, PART_DELAY_MS));
+      if (abortSignal?.aborted) {
+        controller.error(abortSignal.reason);
+        return;
+      }
+
+      const part = parts[index++];
+      if (part) {
+        controller.enqueue(part);
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+/**
+ * A language model with canned, deterministic replies, for running the chat without network
+ * access. Its answers only echo the question and the tool results.
+ */
+export function createMockLanguageModel(modelId: string): LanguageModelV1 {
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const turn = nextTurn(options);
+
+      return {
+        ...(turn.type === "text"
+          ? { text: turn.text }
+          : { toolCalls: [toolCall(turn, options)] }),
+        finishReason: turn.type === "text" ? "stop" : "tool-calls",
+        usage: usage(turn),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const turn = nextTurn(options);
+      const parts: LanguageModelV1StreamPart[] =
+        turn.type === "text"
+          ? turn.text
+              .split(/(?<=\s)/)
+              .map((word) => ({ type: "text-delta", textDelta: word }))
+          : [{ type: "tool-call", ...toolCall(turn, options) }];
+
+      parts.push({
+        type: "finish",
+        finishReason: turn.type === "text" ? "stop" : "tool-calls",
+        usage: usage(turn),
+      });
+
+      return {
+        stream: streamParts(parts, options.abortSignal),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
@@ -0,0 +1,368 @@
+import "server-only";
+
+import { createReadStream, createWriteStream, existsSync } from "fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  writeFile,
+} from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { v4 as uuidv4, validate as uuidValidate } from "uuid";
+import { db } from "~/server/db";
+
+export const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+
+// Size of each part the client sends; parts are appended to disk in order
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
+// Unfinished uploads with no new part for this long are deleted
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Raw export.xml, or the export.zip the Health app produces
+export type UploadKind = "xml" | "zip";
+
+export interface UploadSession {
+  fileId: string;
+  userId: string;
+  kind: UploadKind;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  // Bytes confirmed on disk; anything past this offset is a partial write
+  acknowledgedOffset: number;
+  complete: boolean;
+  createdAt: string;
+  // Last part received; older sessions only have createdAt
+  updatedAt?: string;
+}
+
+export type AppendChunkResult =
+  | { status: "ok"; offset: number; complete: boolean }
+  | { status: "conflict"; offset: number }
+  | { status: "too-large"; offset: number };
+
+const sessionPath = (fileId: string) =>
+  path.join(UPLOADS_DIR, `${fileId}.json`);
+// Each acknowledged part is its own file until the last one arrives
+const partPath = (fileId: string, part: number) =>
+  path.join(UPLOADS_DIR, `${fileId}.${part}.part`);
+// Unique per attempt, so two requests for the same part never write the same file
+const tempPath = (fileId: string, name: string) =>
+  path.join(UPLOADS_DIR, `${fileId}.${name}.${uuidv4()}.tmp`);
+
+// Final location read by the parser once all parts have arrived
+export const uploadedFilePath = (fileId: string, kind: UploadKind) =>
+  path.join(UPLOADS_DIR, `${fileId}.${kind}`);
+
+export const getUploadKind = (fileName: string): UploadKind | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith(".xml")) return "xml";
+  if (lowerName.endsWith(".zip")) return "zip";
+  return null;
+};
+
+export const isValidFileId = (fileId: string) => uuidValidate(fileId);
+
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` with exclusive access to one upload's session and part files. Requests for the same
+ * upload are served by this process, so an in-memory queue per file ID is enough.
+ */
+async function withSessionLock<T>(fileId: string, fn: () => Promise<T>) {
+  const previous = sessionLocks.get(fileId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  sessionLocks.set(fileId, run);
+
+  try {
+    return await run;
+  } finally {
+    if (sessionLocks.get(fileId) === run) sessionLocks.delete(fileId);
+  }
+}
+
+async function readSession(fileId: string): Promise<UploadSession | null> {
+  try {
+    return JSON.parse(
+      await readFile(sessionPath(fileId), "utf8"),
+    ) as UploadSession;
+  } catch {
+    return null;
+  }
+}
+
+// Written beside the session and renamed over it, so a reader never sees half a file
+async function saveSession(session: UploadSession) {
+  const temp = tempPath(session.fileId, "session");
+  await writeFile(temp, JSON.stringify(session));
+  await rename(temp, sessionPath(session.fileId));
+}
+
+export async function createUploadSession(input: {
+  userId: string;
+  kind: UploadKind;
+  fileName: string;
+  fileSize: number;
+}): Promise<UploadSession> {
+  if (!existsSync(UPLOADS_DIR)) {
+    await mkdir(UPLOADS_DIR, { recursive: true });
+  }
+
+  const session: UploadSession = {
+    fileId: uuidv4(),
+    userId: input.userId,
+    kind: input.kind,
+    fileName: input.fileName,
+    fileSize: input.fileSize,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    acknowledgedOffset: 0,
+    complete: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  await saveSession(session);
+
+  return session;
+}
+
+/**
+ * Look up an in-progress upload. Returns null when the session does not exist or belongs to
+ * another user, so callers can't probe for other users' file IDs.
+ */
+export async function getUploadSession(
+  fileId: string,
+  userId: string,
+): Promise<UploadSession | null> {
+  if (!isValidFileId(fileId)) return null;
+
+  const session = await readSession(fileId);
+  return session?.userId === userId ? session : null;
+}
+
+/**
+ * Store one numbered part of the upload. The part must start at the last acknowledged offset.
+ * It is written to a temporary file first and only renamed into place once complete, so a
+ * dropped connection or a second request for the same part never leaves a partial write; the
+ * client can simply resend the part.
+ */
+export async function appendUploadChunk(
+  session: UploadSession,
+  part: number,
+  body: ReadableStream<Uint8Array>,
+): Promise<AppendChunkResult> {
+  const offset = part * session.chunkSize;
+  if (session.complete || offset !== session.acknowledgedOffset) {
+    return { status: "conflict", offset: session.acknowledgedOffset };
+  }
+
+  const expectedBytes = Math.min(session.chunkSize, session.fileSize - offset);
+  const temp = tempPath(session.fileId, String(part));
+  let bytesWritten = 0;
+  let tooLarge = false;
+
+  const source = Readable.fromWeb(body as WebReadableStream<Uint8Array>);
+  source.on("data", (chunk: Buffer) => {
+    bytesWritten += chunk.length;
+    if (bytesWritten > expectedBytes) {
+      tooLarge = true;
+      source.destroy(new Error("Chunk exceeds expected size"));
+    }
+  });
+
+  try {
+    await pipeline(source, createWriteStream(temp));
+  } catch (error) {
+    await unlink(temp).catch(() => undefined);
+    if (tooLarge) {
+      return { status: "too-large", offset };
+    }
+    throw error;
+  }
+
+  if (bytesWritten !== expectedBytes) {
+    // Short write: the connection dropped mid-part, keep the last good offset
+    await unlink(temp).catch(() => undefined);
+    return { status: "conflict", offset };
+  }
+
+  return withSessionLock(session.fileId, async () => {
+    // Another request may have stored this part while ours was streaming
+    const current = await readSession(session.fileId);
+    if (!current || current.complete || offset !== current.acknowledgedOffset) {
+      await unlink(temp).catch(() => undefined);
+      return {
+        status: "conflict",
+        offset: current?.acknowledgedOffset ?? offset,
+      } as const;
+    }
+
+    await rename(temp, partPath(current.fileId, part));
+    current.acknowledgedOffset = offset + bytesWritten;
+    current.updatedAt = new Date().toISOString();
+
+    if (current.acknowledgedOffset >= current.fileSize) {
+      await assembleUpload(current, part + 1);
+      current.complete = true;
+    }
+
+    await saveSession(current);
+    Object.assign(session, current);
+    return {
+      status: "ok",
+      offset: current.acknowledgedOffset,
+      complete: current.complete,
+    } as const;
+  });
+}
+
+// Join the parts into the file the parser reads, then drop them
+async function assembleUpload(session: UploadSession, partCount: number) {
+  const temp = tempPath(session.fileId, "assembled");
+
+  try {
+    for (let part = 0; part < partCount; part++) {
+      await pipeline(
+        createReadStream(partPath(session.fileId, part)),
+        createWriteStream(temp, { flags: part === 0 ? "w" : "a" }),
+      );
+    }
+  } catch (error) {
+    await unlink(temp).catch(() => undefined);
+    throw error;
+  }
+
+  await rename(temp, uploadedFilePath(session.fileId, session.kind));
+  await removePartFiles(session.fileId, partCount);
+}
+
+async function removePartFiles(fileId: string, partCount: number) {
+  for (let part = 0; part < partCount; part++) {
+    await unlink(partPath(fileId, part)).catch(() => undefined);
+  }
+}
+
+/**
+ * Remove the session metadata once the parser has taken ownership of the uploaded file.
+ */
+export async function removeUploadSession(fileId: string) {
+  await withSessionLock(fileId, () =>
+    unlink(sessionPath(fileId)).catch(() => undefined),
+  );
+}
+
+// Delete an export.zip that was kept around after parsing
+export async function removeUploadedFile(fileId: string, kind: UploadKind) {
+  if (!isValidFileId(fileId)) return;
+  await unlink(uploadedFilePath(fileId, kind)).catch(() => undefined);
+}
+
+/**
+ * Delete uploads that were started but not finished within the TTL: the session and every part
+ * or temporary file of that upload. Finished uploads that were never submitted for import within
+ * the TTL lose their session and assembled file; submitted ones are cleaned up by their import
+ * job. Also removes files whose session is already gone.
+ */
+export async function sweepStaleUploads(now = Date.now()) {
+  if (!existsSync(UPLOADS_DIR)) return 0;
+
+  const names = await readdir(UPLOADS_DIR);
+  const cutoff = now - UPLOAD_SESSION_TTL_MS;
+  let removed = 0;
+
+  const stale = new Set<string>();
+  const unsubmitted: UploadSession[] = [];
+  for (const name of names) {
+    const fileId = name.slice(0, 36);
+    if (!isValidFileId(fileId) || !name.endsWith(".json")) continue;
+
+    const session = await readSession(fileId);
+    const lastActivity = Date.parse(
+      session?.updatedAt ?? session?.createdAt ?? "",
+    );
+    if (!session || !(lastActivity < cutoff)) continue;
+
+    if (session.complete) unsubmitted.push(session);
+    else stale.add(fileId);
+  }
+
+  if (unsubmitted.length > 0) {
+    const submitted = new Set(
+      (
+        await db.importJob.findMany({
+          where: {
+            fileId: { in: unsubmitted.map((session) => session.fileId) },
+          },
+          select: { fileId: true },
+        })
+      ).map((job) => job.fileId),
+    );
+
+    for (const session of unsubmitted) {
+      if (submitted.has(session.fileId)) continue;
+
+      await withSessionLock(session.fileId, async () => {
+        await unlink(sessionPath(session.fileId)).catch(() => undefined);
+        await removeUploadedFile(session.fileId, session.kind);
+        removed++;
+      });
+    }
+  }
+
+  for (const fileId of stale) {
+    await withSessionLock(fileId, async () => {
+      // A part may have arrived since the first read
+      const session = await readSession(fileId);
+      if (!session || session.complete) return;
+      if (Date.parse(session.updatedAt ?? session.createdAt) >= cutoff) return;
+
+      await unlink(sessionPath(fileId)).catch(() => undefined);
+      removed++;
+    });
+  }
+
+  // Parts and temporary files left behind without a live session
+  for (const name of names) {
+    const fileId = name.slice(0, 36);
+    if (!isValidFileId(fileId)) continue;
+    if (!name.endsWith(".part") && !name.endsWith(".tmp")) continue;
+    if (existsSync(sessionPath(fileId)) && !stale.has(fileId)) continue;
+
+    const filePath = path.join(UPLOADS_DIR, name);
+    const { mtimeMs } = await stat(filePath).catch(() => ({ mtimeMs: now }));
+    if (stale.has(fileId) || mtimeMs < cutoff) {
+      await unlink(filePath).catch(() => undefined);
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`Removed ${removed} abandoned upload(s)`);
+  }
+  return removed;
+}
+
+const globalForSweeper = globalThis as unknown as {
+  uploadSweeper: NodeJS.Timeout | undefined;
+};
+
+// Start the hourly sweep of abandoned uploads. Called once per server from instrumentation.ts.
+export function startUploadSweeper() {
+  if (globalForSweeper.uploadSweeper) return;
+
+  const sweep = () =>
+    sweepStaleUploads().catch((error) =>
+      console.error("Upload sweep error:", error),
+    );
+  globalForSweeper.uploadSweeper = setInterval(
+    () => void sweep(),
+    SWEEP_INTERVAL_MS,
+  );
+  void sweep();
+}
@@ -0,0 +1,159 @@
+import { Readable } from "stream";
+import { describe, expect, it, vi } from "vitest";
+import type { ExportArchive } from "~/server/export-archive";
+import {
+  importWorkoutRoutes,
+  parseGpx,
+  summarizeRoute,
+} from "~/server/workout-routes";
+import type { RoutePoint } from "~/types/health";
+
+const { findWorkouts, createRoute } = vi.hoisted(() => ({
+  findWorkouts: vi.fn(),
+  createRoute: vi.fn(),
+}));
+
+vi.mock("~/server/db", () => ({
+  db: {
+    workout: { findMany: findWorkouts },
+    workoutRoute: { create: createRoute },
+  },
+}));
+
+const trackPoint = (lat: number, lon: number, time: string, ele?: number) =>
+  `<trkpt lon="${lon}" lat="${lat}">` +
+  (ele === undefined ? "" : `<ele>${ele}</ele>`) +
+  `<time>${time}</time>` +
+  `<extensions><speed>3.3</speed><course>0</course><hAcc>2</hAcc><vAcc>1</vAcc></extensions>` +
+  `</trkpt>`;
+
+const gpx = (points: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1" creator="Apple Health Export"><trk><trkseg>\n` +
+  `${points.join("\n")}\n</trkseg></trk></gpx>\n`;
+
+describe("parseGpx", () => {
+  it("reads position, elevation, time and speed of each track point", async () => {
+    const points = await parseGpx(
+      Readable.from([
+        gpx([
+          trackPoint(37.3349, -122.009, "2024-03-01T10:00:00Z", 10.5),
+          trackPoint(37.335, -122.0091, "2024-03-01T10:00:01Z"),
+        ]),
+      ]),
+    );
+
+    expect(points).toEqual([
+      {
+        lat: 37.3349,
+        lon: -122.009,
+        elevation: 10.5,
+        time: "2024-03-01T10:00:00Z",
+        speed: 3.3,
+      },
+      {
+        lat: 37.335,
+        lon: -122.0091,
+        time: "2024-03-01T10:00:01Z",
+        speed: 3.3,
+      },
+    ]);
+  });
+
+  it("skips points without a position or a time", async () => {
+    const points = await parseGpx(
+      Readable.from([
+        gpx([
+          `<trkpt lon="-122.009" lat="north"><time>2024-03-01T10:00:00Z</time></trkpt>`,
+          `<trkpt lon="-122.009" lat="37.3349"><ele>10</ele></trkpt>`,
+          trackPoint(37.3349, -122.009, "2024-03-01T10:00:02Z"),
+        ]),
+      ]),
+    );
+
+    expect(points.map((point) => point.time)).toEqual(["2024-03-01T10:00:02Z"]);
+  });
+
+  it("rejects a truncated file", async () => {
+    const truncated = gpx([
+      trackPoint(37.3349, -122.009, "2024-03-01T10:00:00Z"),
+    ]).slice(0, -20);
+
+    await expect(parseGpx(Readable.from([truncated]))).rejects.toThrow(
+      /Unexpected end/,
+    );
+  });
+});
+
+describe("summarizeRoute", () => {
+  // Due north in steps of 0.0045° of latitude (about 500 m), 150 seconds apart
+  const STEP_METERS = (6371000 * 0.0045 * Math.PI) / 180;
+  const route = (elevations: number[]): RoutePoint[] =>
+    elevations.map((elevation, i) => ({
+      lat: i * 0.0045,
+      lon: 0,
+      elevation,
+      time: new Date(Date.UTC(2024, 2, 1, 10, 0, i * 150)).toISOString(),
+    }));
+
+  it("adds up distance and elevation change", () => {
+    const summary = summarizeRoute(route([10, 15, 12, 20, 20, 18]));
+
+    expect(summary.distance).toBeCloseTo(5 * STEP_METERS, 3);
+    expect(summary.elevationGain).toBe(13);
+    expect(summary.elevationLoss).toBe(5);
+  });
+
+  it("splits per kilometer with a trailing partial split", () => {
+    const { splits } = summarizeRoute(route([0, 0, 0, 0, 0, 0]));
+    const pace = (150 / STEP_METERS) * 1000;
+
+    expect(splits).toHaveLength(3);
+    expect(splits[0]!.distance).toBe(1000);
+    expect(splits[0]!.duration).toBeCloseTo(pace, 3);
+    expect(splits[1]!.duration).toBeCloseTo(pace, 3);
+    expect(splits[2]!.distance).toBeCloseTo(5 * STEP_METERS - 2000, 3);
+    expect(splits[2]!.pace).toBeCloseTo(pace, 3);
+  });
+
+  it("returns an empty summary for too few points", () => {
+    expect(summarizeRoute([])).toEqual({
+      distance: 0,
+      elevationGain: 0,
+      elevationLoss: 0,
+      splits: [],
+    });
+    expect(summarizeRoute(route([10])).splits).toEqual([]);
+  });
+});
+
+describe("importWorkoutRoutes", () => {
+  it("skips a malformed GPX file and imports the rest", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    findWorkouts.mockResolvedValue([
+      { id: "broken", routeFile: "/workout-routes/route_1.gpx" },
+      { id: "valid", routeFile: "/workout-routes/route_2.gpx" },
+    ]);
+
+    const files: Record<string, string> = {
+      "apple_health_export/workout-routes/route_1.gpx":
+        "<gpx><trk><trkseg><trkpt",
+      "apple_health_export/workout-routes/route_2.gpx": gpx([
+        trackPoint(37.3349, -122.009, "2024-03-01T10:00:00Z"),
+        trackPoint(37.3359, -122.009, "2024-03-01T10:00:30Z"),
+      ]),
+    };
+    const archive = {
+      artifacts: { workoutRoutes: Object.keys(files) },
+      openEntry: async (entry: string) => Readable.from([files[entry]!]),
+    } as unknown as ExportArchive;
+
+    expect(await importWorkoutRoutes(archive, "user")).toBe(1);
+    expect(createRoute).toHaveBeenCalledTimes(1);
+    expect(createRoute).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        workoutId: "valid",
+        pointCount: 2,
+      }) as object,
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import "server-only";
+
+import type { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import sax from "sax";
+import { db } from "~/server/db";
+import type { ExportArchive } from "~/server/export-archive";
+import { asJson } from "~/server/json";
+import type { RoutePoint, RouteSplit } from "~/types/health";
+
+const EARTH_RADIUS_METERS = 6371000;
+const SPLIT_DISTANCE_METERS = 1000;
+
+/**
+ * Read the track points of an Apple Health GPX file. Speed comes from the <extensions> block
+ * Apple adds to every <trkpt>.
+ */
+export async function parseGpx(stream: Readable): Promise<RoutePoint[]> {
+  const points: RoutePoint[] = [];
+  const parser = sax.parser(false, { lowercase: true, trim: true });
+
+  let point: Partial<RoutePoint> | null = null;
+  let field: "ele" | "time" | "speed" | null = null;
+
+  parser.onopentag = (node) => {
+    const attrs = node.attributes as Record<string, string | undefined>;
+
+    if (node.name === "trkpt") {
+      point = { lat: Number(attrs.lat), lon: Number(attrs.lon) };
+    } else if (
+      point &&
+      (node.name === "ele" || node.name === "time" || node.name === "speed")
+    ) {
+      field = node.name;
+    }
+  };
+
+  parser.ontext = (text) => {
+    if (!point || !field) return;
+
+    if (field === "ele") point.elevation = Number(text);
+    else if (field === "speed") point.speed = Number(text);
+    else point.time = text;
+  };
+
+  parser.onclosetag = (name) => {
+    if (name === "trkpt" && point) {
+      if (
+        Number.isFinite(point.lat) &&
+        Number.isFinite(point.lon) &&
+        point.time
+      ) {
+        points.push(point as RoutePoint);
+      }
+      point = null;
+    }
+    field = null;
+  };
+
+  parser.onerror = (err) => {
+    throw err;
+  };
+
+  const decoder = new StringDecoder("utf8");
+  for await (const chunk of stream) {
+    parser.write(decoder.write(chunk as Buffer));
+  }
+  parser.write(decoder.end());
+  parser.close();
+
+  return points;
+}
+
+// Great-circle distance between two points in meters
+function haversineDistance(a: RoutePoint, b: RoutePoint) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Derive total distance, elevation gain/loss and per-kilometer splits from a track. Split
+ * boundaries are interpolated between the two points on either side of each kilometer.
+ */
+export function summarizeRoute(points: RoutePoint[]) {
+  let distance = 0;
+  let elevationGain = 0;
+  let elevationLoss = 0;
+  const splits: RouteSplit[] = [];
+
+  const first = points[0];
+  let splitStartTime = first ? new Date(first.time).getTime() : 0;
+  let splitStartDistance = 0;
+  let splitElevationGain = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1]!;
+    const current = points[i]!;
+    const step = haversineDistance(previous, current);
+    const previousTime = new Date(previous.time).getTime();
+    const currentTime = new Date(current.time).getTime();
+
+    if (previous.elevation !== undefined && current.elevation !== undefined) {
+      const climb = current.elevation - previous.elevation;
+      if (climb > 0) {
+        elevationGain += climb;
+        splitElevationGain += climb;
+      } else {
+        elevationLoss -= climb;
+      }
+    }
+
+    // Close every kilometer boundary crossed by this step
+    while (
+      step > 0 &&
+      distance + step >= splitStartDistance + SPLIT_DISTANCE_METERS
+    ) {
+      const boundary = splitStartDistance + SPLIT_DISTANCE_METERS;
+      const boundaryTime =
+        previousTime +
+        ((boundary - distance) / step) * (currentTime - previousTime);
+      const duration = (boundaryTime - splitStartTime) / 1000;
+
+      splits.push({
+        distance: SPLIT_DISTANCE_METERS,
+        duration,
+        pace: duration,
+        elevationGain: splitElevationGain,
+      });
+
+      splitStartDistance = boundary;
+      splitStartTime = boundaryTime;
+      splitElevationGain = 0;
+    }
+
+    distance += step;
+  }
+
+  // Trailing partial kilometer
+  const last = points[points.length - 1];
+  const remaining = distance - splitStartDistance;
+  if (last && remaining > 1) {
+    const duration = (new Date(last.time).getTime() - splitStartTime) / 1000;
+    splits.push({
+      distance: remaining,
+      duration,
+      pace: (duration / remaining) * SPLIT_DISTANCE_METERS,
+      elevationGain: splitElevationGain,
+    });
+  }
+
+  return { distance, elevationGain, elevationLoss, splits };
+}
+
+/**
+ * Attach GPX tracks from an export.zip to the user's workouts that reference them and have no
+ * route yet; unreadable GPX files are skipped. Returns the number of routes stored.
+ */
+export async function importWorkoutRoutes(
+  archive: ExportArchive,
+  userId: string,
+) {
+  // FileReference paths look like "/workout-routes/route_2024-01-01_8.00am.gpx"
+  const entriesByPath = new Map(
+    archive.artifacts.workoutRoutes.map((entry) => [
+      entry.slice(entry.indexOf("workout-routes/")),
+      entry,
+    ]),
+  );
+
+  const workouts = await db.workout.findMany({
+    where: { userId, routeFile: { not: null }, route: null },
+    select: { id: true, routeFile: true },
+  });
+
+  let imported = 0;
+  for (const workout of workouts) {
+    const entry = entriesByPath.get(
+      workout.routeFile!.replace(/^.*?workout-routes\//, "workout-routes/"),
+    );
+    if (!entry) continue;
+
+    let points: RoutePoint[];
+    try {
+      points = await parseGpx(await archive.openEntry(entry));
+    } catch (error) {
+      // One malformed file shouldn't fail the whole import
+      console.warn(`Skipping workout route ${entry}:`, error);
+      continue;
+    }
+    if (points.length === 0) continue;
+
+    const summary = summarizeRoute(points);
+    await db.workoutRoute.create({
+      data: {
+        workoutId: workout.id,
+        points: asJson(points),
+        pointCount: points.length,
+        distance: summary.distance,
+        elevationGain: summary.elevationGain,
+        elevationLoss: summary.elevationLoss,
+        splits: asJson(summary.splits),
+      },
+    });
+    imported += 1;
+  }
+
+  return imported;
+}
@@ -1,10 +1,20 @@
+import type { ClinicalRecordFormat, ClinicalRecordKind } from "@prisma/client";
+
 export interface HealthRecord {
   id: string;
   type: string;
-  value: string;
+  value: string; // raw exported value
+  quantity?: number; // quantity types
+  categoryValue?: number; // category types, HealthKit raw value
   unit?: string;
   startDate: Date;
   endDate: Date;
+  sourceName?: string;
+  sourceVersion?: string;
+  deviceName?: string; // e.g. "Apple Watch"
+  deviceModel?: string; // e.g. "Watch"
+  deviceHardware?: string; // e.g. "Watch6,1"
+  metadata?: Record<string, string>;
   createdAt: Date;
   uploadId: string;
   userId: string;
@@ -17,6 +27,8 @@ export interface HealthDataUpload {
   uploadedAt: Date;
   processedAt?: Date;
   status: "PROCESSING" | "COMPLETED" | "FAILED";
+  sourceFileId?: string;
+  artifacts?: ExportArtifacts;
   userId: string;
   healthRecords?: HealthRecord[];
 }
@@ -29,6 +41,191 @@ export interface ParsedHealthData {
   endDate: string;
   sourceName?: string;
   sourceVersion?: string;
+  device?: string; // raw HKDevice description
+  metadata?: Record<string, string>; // MetadataEntry key/value pairs
+}
+
+// A <Correlation> element; its <Record> children are imported as records of their own
+export interface ParsedCorrelation {
+  type: string; // e.g. "HKCorrelationTypeIdentifierBloodPressure"
+  startDate: string;
+  endDate: string;
+  sourceName?: string;
+  sourceVersion?: string;
+  device?: string;
+  metadata: Record<string, string>;
+  records: ParsedHealthData[];
+}
+
+// A <Workout> element with its nested statistics, events and metadata
+export interface ParsedWorkout {
+  activityType: string; // e.g. "HKWorkoutActivityTypeRunning"
+  duration?: number;
+  durationUnit?: string;
+  totalDistance?: number;
+  totalDistanceUnit?: string;
+  totalEnergyBurned?: number;
+  totalEnergyBurnedUnit?: string;
+  startDate: string;
+  endDate: string;
+  sourceName?: string;
+  sourceVersion?: string;
+  device?: string;
+  metadata: Record<string, string>; // MetadataEntry key/value pairs
+  routeFile?: string; // FileReference path, e.g. "/workout-routes/route_2024-01-01_8.00am.gpx"
+  statistics: ParsedWorkoutStatistic[];
+  events: ParsedWorkoutEvent[];
+}
+
+export interface ParsedWorkoutStatistic {
+  type: string;
+  startDate: string;
+  endDate: string;
+  average?: number;
+  minimum?: number;
+  maximum?: number;
+  sum?: number;
+  unit?: string;
+}
+
+export interface ParsedWorkoutEvent {
+  type: string; // e.g. "HKWorkoutEventTypePause", "HKWorkoutEventTypeLap"
+  date: string;
+  duration?: number;
+  durationUnit?: string;
+  metadata: Record<string, string>;
+}
+
+// A <trkpt> from a workout-routes GPX file
+export interface RoutePoint {
+  lat: number;
+  lon: number;
+  elevation?: number; // meters
+  speed?: number; // meters per second
+  time: string;
+}
+
+// One kilometer of a route (the last split may be shorter)
+export interface RouteSplit {
+  distance: number; // meters
+  duration: number; // seconds
+  pace: number; // seconds per kilometer
+  elevationGain: number; // meters
+}
+
+// A stretch of one sleep stage, see SLEEP_STAGES for the values
+export interface SleepStageSegment {
+  stage: number;
+  start: Date;
+  end: Date;
+}
+
+// One night (or nap) of sleep stitched together from SleepAnalysis samples
+export interface SleepSession {
+  wakeDate: string; // local yyyy-MM-dd of the wake-up, the day the night belongs to
+  start: Date;
+  end: Date;
+  sourceName: string | null; // source the stages were taken from
+  inBedMinutes: number;
+  asleepMinutes: number;
+  awakeMinutes: number;
+  coreMinutes: number;
+  deepMinutes: number;
+  remMinutes: number;
+  unspecifiedMinutes: number; // asleep without stage detail (pre-iOS 16, third-party apps)
+  efficiency: number | null; // asleep / in bed, 0-1
+  latencyMinutes: number | null; // in bed until first asleep
+  wasoMinutes: number; // awake after sleep onset, until the final wake-up
+  hypnogram: SleepStageSegment[];
+}
+
+// A blood pressure correlation with its systolic and diastolic values in mmHg
+export interface BloodPressureReading {
+  id: string;
+  date: Date;
+  localHour: number; // hour of day where the reading was taken, 0-23
+  systolic: number;
+  diastolic: number;
+  sourceName: string | null;
+}
+
+// Header block and samples of an electrocardiograms/ecg_YYYY-MM-DD.csv file
+export interface ParsedElectrocardiogram {
+  recordedDate: string; // as exported, e.g. "2024-01-01 08:00:00 -0500"
+  classification: string; // see ECG_CLASSIFICATIONS; other values are kept as exported
+  symptoms: string[];
+  sampleRate: number; // hertz
+  lead: string | null;
+  unit: string;
+  softwareVersion: string | null;
+  device: string | null;
+  voltages: number[]; // microvolts
+}
+
+// Numeric result of a LOINC-coded laboratory Observation
+export interface ParsedLabResult {
+  loincCode: string;
+  name: string;
+  value: number;
+  unit: string | null;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+  interpretation: string | null; // e.g. "H", "L", "N"
+}
+
+// A FHIR resource or CDA entry, normalized across formats
+export interface ParsedClinicalRecord {
+  kind: ClinicalRecordKind;
+  format: ClinicalRecordFormat;
+  name: string;
+  code: string | null;
+  codeSystem: string | null;
+  status: string | null;
+  date: string | null; // ISO 8601; CDA timestamps are converted
+  details: Record<string, string>; // kind-specific text, e.g. value, dosage, reaction
+  resource: Record<string, unknown>;
+  key: string; // identifies the record across exports, e.g. "Observation/abc123"
+  lab: ParsedLabResult | null;
+}
+
+// Files found alongside export.xml in an export.zip, by path inside the archive
+export interface ExportArtifacts {
+  exportXml: string | null;
+  cdaXml: string | null;
+  workoutRoutes: string[];
+  electrocardiograms: string[];
+  clinicalRecords: string[];
+}
+
+// What an import keeps, chosen in the import dialog. Empty lists don't filter.
+export interface ImportConfig {
+  startDate: string | null; // yyyy-MM-dd, inclusive, in the sample's local time
+  endDate: string | null;
+  categories: string[]; // METRIC_CATEGORIES values; with `types`, records must match either
+  types: string[]; // HK type identifiers
+  sources: string[]; // sourceName values, e.g. "Jane's Apple Watch"
+  devices: string[]; // device models, e.g. "Watch", "iPhone"
+}
+
+// Progress of a server-side import, streamed to the upload UI
+export interface ImportProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  recordsProcessed: number;
+  recordsInserted: number;
+  recordsSkipped: number; // already stored
+  recordsConflicting: number; // already stored with a different value
+  workoutsInserted: number;
+  correlationsInserted: number;
+  routesImported: number;
+  electrocardiogramsImported: number;
+  clinicalRecordsImported: number;
+}
+
+export interface ImportSummary extends ImportProgress {
+  uploadId: string;
+  dataTypes: Record<string, number>;
+  artifacts: ExportArtifacts | null;
 }
 
 export interface HealthMetric {
@@ -42,14 +239,59 @@ export interface HealthMetric {
   }>;
 }
 
+// A tool the assistant called while writing a reply
+export interface ChatToolCall {
+  id: string;
+  step: number;
+  toolName: string;
+  args: unknown;
+  result: unknown;
+}
+
+// A chart the assistant attached to a reply, drawn from getAggregates
+export interface ChartSpec {
+  title: string;
+  kind: "line" | "bar" | "area";
+  metrics: string[];
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string;
+  bucket: "day" | "week" | "month";
+}
+
 export interface ChatMessage {
   id: string;
   content: string;
   role: "USER" | "ASSISTANT";
   createdAt: Date;
   userId: string;
+  conversationId?: string;
+  truncated?: boolean;
+  toolCalls?: ChatToolCall[];
+  charts?: ChartSpec[];
 }
 
+// One line of the newline-delimited JSON stream /api/chat answers with
+export type ChatStreamEvent =
+  | { type: "conversation"; conversationId: string }
+  | { type: "text"; delta: string }
+  | { type: "tool"; toolName: string }
+  | { type: "chart"; chart: ChartSpec }
+  | { type: "done"; messageId: string; truncated: boolean }
+  | { type: "title"; title: string }
+  | { type: "error"; error: string };
+
+// Correlations imported with their member records
+export const CORRELATION_TYPES = {
+  BLOOD_PRESSURE: "HKCorrelationTypeIdentifierBloodPressure",
+} as const;
+
+// Rhythm classifications the ECG app assigns to a recording
+export const ECG_CLASSIFICATIONS = {
+  SINUS_RHYTHM: "Sinus Rhythm",
+  ATRIAL_FIBRILLATION: "Atrial Fibrillation",
+  INCONCLUSIVE: "Inconclusive",
+} as const;
+
 // Apple Health Data Types
 export const HEALTH_DATA_TYPES = {
   STEP_COUNT: "HKQuantityTypeIdentifierStepCount",
@@ -68,6 +310,7 @@ export const HEALTH_DATA_TYPES = {
   BLOOD_PRESSURE_DIASTOLIC: "HKQuantityTypeIdentifierBloodPressureDiastolic",
   RESPIRATORY_RATE: "HKQuantityTypeIdentifierRespiratoryRate",
   OXYGEN_SATURATION: "HKQuantityTypeIdentifierOxygenSaturation",
+  BODY_TEMPERATURE: "HKQuantityTypeIdentifierBodyTemperature",
   FLIGHTS_CLIMBED: "HKQuantityTypeIdentifierFlightsClimbed",
   STAND_HOURS: "HKQuantityTypeIdentifierAppleStandHours",
   EXERCISE_TIME: "HKQuantityTypeIdentifierAppleExerciseTime",
@@ -79,104 +322,14 @@ export const HEALTH_DATA_TYPES = {
 
 export const METRIC_CATEGORIES = {
   ACTIVITY: "Activity",
+  MOBILITY: "Mobility",
   BODY: "Body Measurements",
   VITALS: "Vitals",
   SLEEP: "Sleep",
   NUTRITION: "Nutrition",
   HEARING: "Hearing",
   MINDFULNESS: "Mindfulness",
+  OTHER: "Other",
 } as const;
-
-export const METRIC_DISPLAY_NAMES: Record<
-  string,
-  { name: string; category: string }
-> = {
-  [HEALTH_DATA_TYPES.STEP_COUNT]: {
-    name: "Steps",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.DISTANCE_WALKING_RUNNING]: {
-    name: "Walking + Running Distance",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.ACTIVE_ENERGY_BURNED]: {
-    name: "Active Energy",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.BASAL_ENERGY_BURNED]: {
-    name: "Resting Energy",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.HEART_RATE]: {
-    name: "Heart Rate",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.BODY_MASS]: {
-    name: "Weight",
-    category: METRIC_CATEGORIES.BODY,
-  },
-  [HEALTH_DATA_TYPES.HEIGHT]: {
-    name: "Height",
-    category: METRIC_CATEGORIES.BODY,
-  },
-  [HEALTH_DATA_TYPES.BODY_MASS_INDEX]: {
-    name: "BMI",
-    category: METRIC_CATEGORIES.BODY,
-  },
-  [HEALTH_DATA_TYPES.SLEEP_ANALYSIS]: {
-    name: "Sleep",
-    category: METRIC_CATEGORIES.SLEEP,
-  },
-  [HEALTH_DATA_TYPES.BLOOD_PRESSURE_SYSTOLIC]: {
-    name: "Blood Pressure (Systolic)",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.BLOOD_PRESSURE_DIASTOLIC]: {
-    name: "Blood Pressure (Diastolic)",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.RESPIRATORY_RATE]: {
-    name: "Respiratory Rate",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.OXYGEN_SATURATION]: {
-    name: "Oxygen Saturation",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.HEART_RATE_VARIABILITY]: {
-    name: "Heart Rate Variability",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.RESTING_HEART_RATE]: {
-    name: "Resting Heart Rate",
-    category: METRIC_CATEGORIES.VITALS,
-  },
-  [HEALTH_DATA_TYPES.BODY_FAT_PERCENTAGE]: {
-    name: "Body Fat Percentage",
-    category: METRIC_CATEGORIES.BODY,
-  },
-  [HEALTH_DATA_TYPES.FLIGHTS_CLIMBED]: {
-    name: "Flights Climbed",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.STAND_HOURS]: {
-    name: "Stand Hours",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.EXERCISE_TIME]: {
-    name: "Exercise Minutes",
-    category: METRIC_CATEGORIES.ACTIVITY,
-  },
-  [HEALTH_DATA_TYPES.ENVIRONMENTAL_AUDIO_EXPOSURE]: {
-    name: "Environmental Noise Exposure",
-    category: METRIC_CATEGORIES.HEARING,
-  },
-  [HEALTH_DATA_TYPES.HEADPHONE_AUDIO_EXPOSURE]: {
-    name: "Headphone Audio Exposure",
-    category: METRIC_CATEGORIES.HEARING,
-  },
-  [HEALTH_DATA_TYPES.MINDFUL_MINUTES]: {
-    name: "Mindful Minutes",
-    category: METRIC_CATEGORIES.MINDFULNESS,
-  },
-};
+export type MetricCategory =
+  (typeof METRIC_CATEGORIES)[keyof typeof METRIC_CATEGORIES];